@@ -1,11 +1,141 @@
 import React, { useState, useEffect } from 'react';
+import { diffLines } from './utils/textDiff';
+import { IngestJob, jobPercent } from './services/ingestion';
+import { CATEGORIES, REGIONS } from './utils/taxonomy';
+
+type PromptKind = 'system' | 'reinforcement';
+
+interface PromptVersion {
+  id: number;
+  kind: PromptKind;
+  version: number;
+  content: string;
+  author: string;
+  note: string;
+  createdAt: string;
+}
+
+type AdminRole = 'viewer' | 'editor' | 'owner';
+
+interface AdminSession {
+  token: string;
+  expiresAt: string;
+  user: { username: string; role: AdminRole };
+}
+
+// viewer: 조회 / editor: + 업로드 / owner: + 삭제, 프롬프트 변경
+const ROLE_ORDER: AdminRole[] = ['viewer', 'editor', 'owner'];
+const SESSION_KEY = 'admin_session';
+
+const loadSession = (): AdminSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+interface UsageEntry {
+  key: string;
+  tokens: number;
+  requests: number;
+  blocked: number;
+  lastMinuteCost: number;
+}
+
+// GET /api/admin/usage (server/usage.js snapshot)
+interface UsageSnapshot {
+  date: string;
+  limits: {
+    maxQueryLength: number;
+    costPerMinuteIp: number;
+    costPerMinuteSession: number;
+    dailyTokensIp: number;
+    dailyTokensSession: number;
+    dailyTokensTotal: number;
+  };
+  totals: { tokens: number; requests: number; blocked: number };
+  byMode: Record<string, { requests: number; tokens: number }>;
+  modeCosts: Record<string, number>;
+  answerCache: { hits: number; semanticHits: number; misses: number; entries: number; kbVersion: number | null };
+  topIps: UsageEntry[];
+  topSessions: UsageEntry[];
+}
+
+// GET /api/admin/sources (server/sources.js listSourcePage)
+interface SourceRow {
+  sourceId: string;
+  title: string;
+  url: string;
+  type: string;
+  date: string;
+  version: number;
+  region: string;
+  category: string;
+  tags: string[];
+  chunkCount: number;
+}
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface SourcePage {
+  sources: SourceRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pages: number;
+  // 검색어/유형 조건 안에서의 지역/카테고리/태그별 소스 수
+  facets: { regions: FacetCount[]; categories: FacetCount[]; tags: FacetCount[]; untagged: number };
+}
+
+// tags: 쉼표로 구분한 입력값 (서버가 정규화)
+type SourceEdit = Pick<SourceRow, 'sourceId' | 'title' | 'url' | 'date' | 'type' | 'region' | 'category'> & { tags: string };
+
+const facetCount = (counts: FacetCount[] | undefined, value: string) => counts?.find(entry => entry.value === value)?.count ?? 0;
+
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  BLOG: '📝 블로그',
+  YOUTUBE: '🎬 YouTube'
+};
+
+const JOB_STATUS_LABELS: Record<IngestJob['status'], string> = {
+  queued: '⏳ 대기',
+  running: '⚙️ 처리 중',
+  completed: '✅ 완료',
+  partial: '⚠️ 일부 실패',
+  failed: '❌ 실패'
+};
+const JOB_POLL_MS = 1000;
+
+const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  system: '시스템 프롬프트',
+  reinforcement: '강화 프롬프트 (답변 직전 체크리스트)'
+};
 
 function Admin() {
-  const [activeTab, setActiveTab] = useState<'prompt' | 'upload' | 'database'>('prompt');
+  const [session, setSession] = useState<AdminSession | null>(loadSession);
+  const [loginForm, setLoginForm] = useState({ username: '', password: '' });
+  const [activeTab, setActiveTab] = useState<'prompt' | 'upload' | 'database' | 'usage'>('prompt');
   const [prompt, setPrompt] = useState('');
-  const [documents, setDocuments] = useState<any[]>([]);
+  // DB 탭: 소스 목록 (검색/유형 필터/페이지), 선택한 소스, 수정 중인 소스
+  const [sourcePage, setSourcePage] = useState<SourcePage | null>(null);
+  const [sourceQuery, setSourceQuery] = useState({ q: '', type: '', region: '', category: '', tag: '', page: 1 });
+  const [sourceSearch, setSourceSearch] = useState('');
+  const [selectedSources, setSelectedSources] = useState<string[]>([]);
+  const [editingSource, setEditingSource] = useState<SourceEdit | null>(null);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
   const [loading, setLoading] = useState(false);
   const [isDefaultPrompt, setIsDefaultPrompt] = useState(true);
+  const [promptKind, setPromptKind] = useState<PromptKind>('system');
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [promptNote, setPromptNote] = useState('');
+  // 버전 비교: [기준 버전 id, 비교 버전 id]
+  const [diffPair, setDiffPair] = useState<[number, number] | null>(null);
   
   // 업로드 폼
   const [uploadData, setUploadData] = useState({
@@ -13,29 +143,113 @@ function Admin() {
     title: '',
     url: '',
     date: new Date().toISOString().split('T')[0],
-    content: ''
+    content: '',
+    region: '',
+    category: '',
+    tags: ''
   });
+  const [suggesting, setSuggesting] = useState(false);
+  // 업로드 시 409 응답으로 받은 기존 문서 (교체 / 새 버전 / 건너뛰기 선택 대기)
+  const [duplicates, setDuplicates] = useState<any[] | null>(null);
+  // 수집 작업: 최근 목록 + 방금 제출해서 진행 상황을 지켜보는 작업
+  const [jobs, setJobs] = useState<IngestJob[]>([]);
+  const [watchedJob, setWatchedJob] = useState<IngestJob | null>(null);
 
   const API_URL = window.location.hostname === 'localhost' 
     ? 'http://localhost:3000'
     : 'https://cheolsan-server.onrender.com';
 
+  const can = (role: AdminRole) => !!session && ROLE_ORDER.indexOf(session.user.role) >= ROLE_ORDER.indexOf(role);
+
+  const logout = () => {
+    localStorage.removeItem(SESSION_KEY);
+    setSession(null);
+  };
+
+  // 관리자 API 호출 (토큰 첨부, 401이면 로그인 화면으로)
+  const authFetch = async (path: string, init: RequestInit = {}) => {
+    const res = await fetch(`${API_URL}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${session?.token}` }
+    });
+    if (res.status === 401) {
+      logout();
+      throw new Error('로그인이 만료되었습니다. 다시 로그인해주세요.');
+    }
+    return res;
+  };
+
+  const login = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(loginForm)
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.message);
+        return;
+      }
+      const next: AdminSession = { token: data.token, expiresAt: data.expiresAt, user: data.user };
+      localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+      setSession(next);
+      setLoginForm({ username: '', password: '' });
+    } catch (error) {
+      alert('로그인 실패: ' + error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // 프롬프트 불러오기
   useEffect(() => {
+    if (!session) return;
     if (activeTab === 'prompt') {
       fetchPrompt();
     } else if (activeTab === 'database') {
-      fetchDocuments();
+      fetchSources();
+    } else if (activeTab === 'usage') {
+      fetchUsage();
+    } else if (activeTab === 'upload') {
+      fetchJobs();
     }
-  }, [activeTab]);
+  }, [activeTab, promptKind, session, sourceQuery]);
+
+  // 제출한 작업이 끝날 때까지 상태 폴링
+  useEffect(() => {
+    if (!watchedJob || ['completed', 'partial', 'failed'].includes(watchedJob.status)) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await authFetch(`/api/admin/jobs/${watchedJob.id}`);
+        const data = await res.json();
+        if (!data.success) throw new Error(data.error);
+        setWatchedJob(data.job);
+        if (['completed', 'partial', 'failed'].includes(data.job.status)) fetchJobs();
+      } catch (error) {
+        console.error('작업 상태 로드 실패:', error);
+        setWatchedJob(null);
+      }
+    }, JOB_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [watchedJob]);
 
   const fetchPrompt = async () => {
     setLoading(true);
+    setDiffPair(null);
     try {
-      const res = await fetch(`${API_URL}/api/admin/prompt`);
-      const data = await res.json();
+      const [promptRes, versionsRes] = await Promise.all([
+        authFetch(`/api/admin/prompt?kind=${promptKind}`),
+        authFetch(`/api/admin/prompt/versions?kind=${promptKind}`)
+      ]);
+      const data = await promptRes.json();
+      const versionData = await versionsRes.json();
       setPrompt(data.prompt);
       setIsDefaultPrompt(data.isDefault || false);
+      setActiveVersion(data.version ?? null);
+      setVersions(versionData.versions || []);
     } catch (error) {
       console.error('프롬프트 로드 실패:', error);
       alert('프롬프트 로드 실패: ' + error);
@@ -52,14 +266,17 @@ function Admin() {
 
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/api/admin/prompt`, {
+      const res = await authFetch('/api/admin/prompt', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt })
+        body: JSON.stringify({ prompt, kind: promptKind, note: promptNote })
       });
       const data = await res.json();
       alert(data.message);
-      setIsDefaultPrompt(false);
+      if (data.success) {
+        setPromptNote('');
+        fetchPrompt();
+      }
     } catch (error) {
       alert('저장 실패: ' + error);
     } finally {
@@ -67,18 +284,37 @@ function Admin() {
     }
   };
 
+  const rollbackPrompt = async (target: PromptVersion) => {
+    if (!confirm(`v${target.version}(으)로 롤백하시겠습니까? 현재 내용은 기록에 남습니다.`)) return;
+
+    setLoading(true);
+    try {
+      const res = await authFetch('/api/admin/prompt/rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: promptKind, versionId: target.id })
+      });
+      const data = await res.json();
+      alert(data.message);
+      fetchPrompt();
+    } catch (error) {
+      alert('롤백 실패: ' + error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const resetPrompt = async () => {
     if (!confirm('기본 프롬프트로 초기화하시겠습니까?')) return;
 
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/api/admin/prompt`, {
+      const res = await authFetch(`/api/admin/prompt?kind=${promptKind}`, {
         method: 'DELETE'
       });
       const data = await res.json();
       alert(data.message);
-      setPrompt(data.defaultPrompt);
-      setIsDefaultPrompt(true);
+      fetchPrompt();
     } catch (error) {
       alert('초기화 실패: ' + error);
     } finally {
@@ -86,29 +322,73 @@ function Admin() {
     }
   };
 
-  const fetchDocuments = async () => {
+  const fetchSources = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ ...sourceQuery, page: String(sourceQuery.page) });
+      const res = await authFetch(`/api/admin/sources?${params}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setSourcePage(data);
+      setSelectedSources([]);
+    } catch (error) {
+      console.error('소스 로드 실패:', error);
+      alert('소스 로드 실패: ' + error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsage = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/api/admin/documents`);
+      const res = await authFetch('/api/admin/usage');
       const data = await res.json();
-      setDocuments(data.documents);
+      setUsage(data);
     } catch (error) {
-      console.error('문서 로드 실패:', error);
-      alert('문서 로드 실패: ' + error);
+      console.error('사용량 로드 실패:', error);
+      alert('사용량 로드 실패: ' + error);
     } finally {
       setLoading(false);
     }
   };
 
-  const uploadDocument = async () => {
+  const fetchJobs = async () => {
+    try {
+      const res = await authFetch('/api/admin/jobs');
+      const data = await res.json();
+      setJobs(data.jobs || []);
+    } catch (error) {
+      console.error('작업 목록 로드 실패:', error);
+    }
+  };
+
+  // 실패한 청크만 다시 임베딩 (중단된 작업은 이어서)
+  const retryJob = async (job: IngestJob) => {
+    try {
+      const res = await authFetch(`/api/admin/jobs/${job.id}/retry`, { method: 'POST' });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.message);
+        return;
+      }
+      setWatchedJob(data.job);
+      fetchJobs();
+    } catch (error) {
+      alert('재시도 실패: ' + error);
+    }
+  };
+
+  const uploadDocument = async (onDuplicate?: 'replace' | 'new_version') => {
     if (!uploadData.content || !uploadData.title) {
       alert('제목과 내용을 입력해주세요');
       return;
     }
 
+    setDuplicates(null);
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/api/admin/upload`, {
+      const res = await authFetch('/api/admin/jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -118,25 +398,49 @@ function Admin() {
             source: uploadData.source,
             url: uploadData.url,
             date: uploadData.date,
-            type: uploadData.source === 'youtube' ? 'YouTube 영상' : '네이버 블로그'
-          }
+            type: uploadData.source === 'youtube' ? 'YouTube 영상' : '네이버 블로그',
+            // 비워 둔 지역/카테고리는 서버가 제목/본문 키워드로 채운다
+            ...(uploadData.region && { region: uploadData.region }),
+            ...(uploadData.category && { category: uploadData.category }),
+            ...(uploadData.tags.trim() && { tags: uploadData.tags })
+          },
+          onDuplicate
         })
       });
       const data = await res.json();
-      alert(data.message);
-      
+
+      // 같은 URL/본문이 이미 있으면 폼을 유지한 채 처리 방법을 고르게 한다
+      if (res.status === 409) {
+        setDuplicates(data.existing || []);
+        return;
+      }
+      if (!data.success) {
+        alert(data.message);
+        return;
+      }
+      if (data.job) {
+        // 임베딩은 서버 작업으로 진행 — 탭을 닫아도 계속되고, 아래에서 진행 상황을 볼 수 있다
+        setWatchedJob(data.job);
+        fetchJobs();
+      } else {
+        alert(data.message);
+      }
+
       // 폼 초기화
       setUploadData({
         source: 'youtube',
         title: '',
         url: '',
         date: new Date().toISOString().split('T')[0],
-        content: ''
+        content: '',
+        region: '',
+        category: '',
+        tags: ''
       });
       
-      // 문서 목록 새로고침
+      // 소스 목록 새로고침
       if (activeTab === 'database') {
-        fetchDocuments();
+        fetchSources();
       }
     } catch (error) {
       alert('업로드 실패: ' + error);
@@ -145,24 +449,129 @@ function Admin() {
     }
   };
 
-  const deleteDocument = async (id: string) => {
-    if (!confirm('정말 삭제하시겠습니까?')) return;
-    
+  // 제목/본문으로 지역/카테고리/태그 추천받아 폼에 채우기 (저장은 업로드할 때)
+  const suggestTaxonomy = async () => {
+    setSuggesting(true);
+    try {
+      const res = await authFetch('/api/admin/taxonomy/suggest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: uploadData.title, content: uploadData.content })
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(data.message);
+        return;
+      }
+      const { region, category, tags } = data.suggestion;
+      setUploadData(prev => ({
+        ...prev,
+        region: region || prev.region,
+        category: category || prev.category,
+        tags: tags.length > 0 ? tags.join(', ') : prev.tags
+      }));
+    } catch (error) {
+      alert('추천 실패: ' + error);
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  // 소스 API 호출 공통: JSON 본문, 결과 메시지 표시 후 목록 새로고침
+  const sourceRequest = async (path: string, method: string, body?: object) => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_URL}/api/admin/documents/${id}`, {
-        method: 'DELETE'
+      const res = await authFetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
       });
       const data = await res.json();
       alert(data.message);
-      fetchDocuments();
+      return data.success as boolean;
     } catch (error) {
-      alert('삭제 실패: ' + error);
+      alert('요청 실패: ' + error);
+      return false;
     } finally {
       setLoading(false);
+      fetchSources();
     }
   };
 
+  const saveSource = async () => {
+    if (!editingSource) return;
+    const { sourceId, ...changes } = editingSource;
+    if (await sourceRequest(`/api/admin/sources/${encodeURIComponent(sourceId)}`, 'PATCH', changes)) {
+      setEditingSource(null);
+    }
+  };
+
+  const deleteSource = async (source: SourceRow) => {
+    if (!confirm(`"${source.title}" (${source.chunkCount}개 청크)을 삭제하시겠습니까?`)) return;
+    await sourceRequest(`/api/admin/sources/${encodeURIComponent(source.sourceId)}`, 'DELETE');
+  };
+
+  const bulkDeleteSources = async () => {
+    if (!confirm(`선택한 ${selectedSources.length}개 소스를 모두 삭제하시겠습니까?`)) return;
+    await sourceRequest('/api/admin/sources/bulk-delete', 'POST', { sourceIds: selectedSources });
+  };
+
+  const bulkSetSourceType = async (type: string) => {
+    if (!type) return;
+    await sourceRequest('/api/admin/sources/bulk-update', 'POST', { sourceIds: selectedSources, changes: { type } });
+  };
+
+  // region: 'none' → 지역 지우기
+  const bulkSetSourceRegion = async (region: string) => {
+    if (!region) return;
+    await sourceRequest('/api/admin/sources/bulk-update', 'POST', { sourceIds: selectedSources, changes: { region: region === 'none' ? '' : region } });
+  };
+
+  const hasSourceFilter = !!(sourceQuery.q || sourceQuery.type || sourceQuery.region || sourceQuery.category || sourceQuery.tag);
+
+  const toggleSource = (sourceId: string) =>
+    setSelectedSources(prev => prev.includes(sourceId) ? prev.filter(id => id !== sourceId) : [...prev, sourceId]);
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 flex items-center justify-center p-4">
+        <form onSubmit={login} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl overflow-hidden">
+          <div className="bg-gradient-to-r from-purple-600 via-blue-600 to-teal-600 text-white p-6">
+            <h1 className="text-2xl font-bold">🔐 관리자 로그인</h1>
+            <p className="text-sm opacity-90">철산랜드 RAG 관리자</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <input
+              type="text"
+              value={loginForm.username}
+              onChange={(e) => setLoginForm({ ...loginForm, username: e.target.value })}
+              className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              placeholder="아이디"
+              autoComplete="username"
+              required
+            />
+            <input
+              type="password"
+              value={loginForm.password}
+              onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+              className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              placeholder="비밀번호"
+              autoComplete="current-password"
+              required
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 rounded-lg font-bold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 transition"
+            >
+              {loading ? '로그인 중...' : '로그인'}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4 md:p-8">
       <div className="max-w-6xl mx-auto bg-white rounded-2xl shadow-2xl overflow-hidden">
@@ -174,12 +583,21 @@ function Admin() {
               <h1 className="text-3xl md:text-4xl font-bold mb-2">🔧 철산랜드 RAG 관리자</h1>
               <p className="text-sm md:text-base opacity-90">프롬프트 관리 • 데이터 업로드 • 데이터베이스 관리</p>
             </div>
-            <a 
-              href="/" 
-              className="bg-white text-purple-600 px-4 py-2 rounded-lg font-bold hover:bg-gray-100 transition"
-            >
-              ← 챗봇으로
-            </a>
+            <div className="flex items-center gap-3">
+              <span className="text-sm opacity-90">👤 {session.user.username} ({session.user.role})</span>
+              <button
+                onClick={logout}
+                className="bg-white/20 px-3 py-2 rounded-lg text-sm font-bold hover:bg-white/30 transition"
+              >
+                로그아웃
+              </button>
+              <a 
+                href="/" 
+                className="bg-white text-purple-600 px-4 py-2 rounded-lg font-bold hover:bg-gray-100 transition"
+              >
+                ← 챗봇으로
+              </a>
+            </div>
           </div>
         </div>
 
@@ -195,6 +613,7 @@ function Admin() {
           >
             📝 프롬프트
           </button>
+          {can('editor') && (
           <button
             onClick={() => setActiveTab('upload')}
             className={`flex-1 py-4 font-bold text-sm md:text-base transition ${
@@ -205,6 +624,7 @@ function Admin() {
           >
             📤 업로드
           </button>
+          )}
           <button
             onClick={() => setActiveTab('database')}
             className={`flex-1 py-4 font-bold text-sm md:text-base transition ${
@@ -213,7 +633,17 @@ function Admin() {
                 : 'text-gray-600 hover:bg-gray-100'
             }`}
           >
-            🗄️ DB ({documents.length})
+            🗄️ DB ({sourcePage?.total ?? 0})
+          </button>
+          <button
+            onClick={() => setActiveTab('usage')}
+            className={`flex-1 py-4 font-bold text-sm md:text-base transition ${
+              activeTab === 'usage' 
+                ? 'bg-white text-purple-600 border-b-4 border-purple-600' 
+                : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            📊 사용량
           </button>
         </div>
 
@@ -223,6 +653,20 @@ function Admin() {
           {/* 프롬프트 관리 탭 */}
           {activeTab === 'prompt' && (
             <div className="space-y-4">
+              <div className="flex gap-2">
+                {(Object.keys(PROMPT_KIND_LABELS) as PromptKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setPromptKind(kind)}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold transition ${
+                      promptKind === kind ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {PROMPT_KIND_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
+
               {isDefaultPrompt && (
                 <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
                   <p className="text-sm text-yellow-800">
@@ -234,9 +678,11 @@ function Admin() {
               <div>
                 <div className="flex justify-between items-center mb-2">
                   <label className="block text-sm font-bold text-gray-700">
-                    시스템 프롬프트 {!isDefaultPrompt && <span className="text-green-600">✓ 커스텀</span>}
+                    {PROMPT_KIND_LABELS[promptKind]}
+                    {activeVersion !== null && <span className="text-gray-500 font-normal"> · v{activeVersion} 적용 중</span>}
+                    {!isDefaultPrompt && <span className="text-green-600"> ✓ 커스텀</span>}
                   </label>
-                  {!isDefaultPrompt && (
+                  {!isDefaultPrompt && can('owner') && (
                     <button
                       onClick={resetPrompt}
                       className="text-sm text-red-600 hover:text-red-800 font-bold"
@@ -248,6 +694,7 @@ function Admin() {
                 <textarea
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
+                  readOnly={!can('owner')}
                   rows={20}
                   className="w-full p-4 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 focus:outline-none font-mono text-sm"
                   placeholder="AI의 역할과 답변 방식을 정의하세요..."
@@ -256,13 +703,103 @@ function Admin() {
                   💡 팁: 출처 표시 형식 [[1]], [[2]]을 반드시 포함하세요. 마크다운 사용을 권장하세요.
                 </p>
               </div>
-              <button
-                onClick={savePrompt}
-                disabled={loading}
-                className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-lg font-bold text-lg hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 transition shadow-lg"
-              >
-                {loading ? '저장 중...' : '💾 프롬프트 저장 (챗봇에 즉시 적용)'}
-              </button>
+              {can('owner') ? (
+                <>
+                  <input
+                    type="text"
+                    value={promptNote}
+                    onChange={(e) => setPromptNote(e.target.value)}
+                    className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    placeholder="변경 메모 (예: 가격 표기 규칙 추가)"
+                  />
+                  <button
+                    onClick={savePrompt}
+                    disabled={loading}
+                    className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-lg font-bold text-lg hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 transition shadow-lg"
+                  >
+                    {loading ? '저장 중...' : '💾 새 버전으로 저장 (챗봇에 즉시 적용)'}
+                  </button>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">🔒 프롬프트 변경은 owner 권한이 필요합니다.</p>
+              )}
+
+              {/* 버전 기록 */}
+              <div className="border-t pt-4">
+                <h3 className="font-bold text-gray-800 mb-3">🕘 버전 기록 ({versions.length})</h3>
+                {versions.length === 0 ? (
+                  <p className="text-sm text-gray-500">저장된 버전이 없습니다. 지금은 기본 프롬프트가 적용됩니다.</p>
+                ) : (
+                  <div className="space-y-2 max-h-72 overflow-y-auto pr-2">
+                    {versions.map((v, i) => (
+                      <div key={v.id} className="flex items-center justify-between gap-4 border rounded-lg p-3 text-sm">
+                        <div className="min-w-0">
+                          <span className="font-bold text-gray-800">v{v.version}</span>
+                          {v.version === activeVersion && <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">적용 중</span>}
+                          <span className="ml-2 text-gray-500">{new Date(v.createdAt).toLocaleString('ko-KR')} · {v.author || '작성자 없음'}</span>
+                          {v.note && <p className="text-gray-600 truncate">{v.note}</p>}
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          {versions[i + 1] && (
+                            <button
+                              onClick={() => setDiffPair([versions[i + 1].id, v.id])}
+                              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded border"
+                            >
+                              이전과 비교
+                            </button>
+                          )}
+                          {v.version !== activeVersion && (
+                            <button
+                              onClick={() => setDiffPair([v.id, versions[0].id])}
+                              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1 rounded border"
+                            >
+                              현재와 비교
+                            </button>
+                          )}
+                          {v.version !== activeVersion && can('owner') && (
+                            <button
+                              onClick={() => rollbackPrompt(v)}
+                              disabled={loading}
+                              className="text-xs bg-orange-500 hover:bg-orange-600 text-white px-3 py-1 rounded disabled:opacity-50"
+                            >
+                              ↩️ 롤백
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* 버전 비교 (줄 단위) */}
+              {diffPair && (() => {
+                const from = versions.find(v => v.id === diffPair[0]);
+                const to = versions.find(v => v.id === diffPair[1]);
+                if (!from || !to) return null;
+                const lines = diffLines(from.content, to.content);
+                const changed = lines.filter(l => l.type !== 'same').length;
+                return (
+                  <div className="border-2 border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between bg-gray-50 px-4 py-2 border-b">
+                      <span className="text-sm font-bold text-gray-700">
+                        v{from.version} → v{to.version} <span className="font-normal text-gray-500">({changed}줄 변경)</span>
+                      </span>
+                      <button onClick={() => setDiffPair(null)} className="text-gray-500 hover:text-gray-800">✕</button>
+                    </div>
+                    <pre className="max-h-96 overflow-auto text-xs font-mono p-2">
+                      {lines.map((line, i) => (
+                        <div
+                          key={i}
+                          className={line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-800' : 'text-gray-500'}
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                );
+              })()}
             </div>
           )}
 
@@ -333,26 +870,159 @@ function Admin() {
                 />
               </div>
 
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-sm font-bold text-gray-700">분류 (지역 질문 검색에 사용 · 비워 두면 자동)</label>
+                  <button
+                    onClick={suggestTaxonomy}
+                    disabled={suggesting || (!uploadData.content && !uploadData.title)}
+                    className="text-sm bg-purple-100 text-purple-700 px-3 py-1 rounded hover:bg-purple-200 disabled:opacity-50"
+                  >
+                    {suggesting ? '추천 중...' : '🏷️ 자동 추천'}
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <select
+                    value={uploadData.region}
+                    onChange={(e) => setUploadData({...uploadData, region: e.target.value})}
+                    className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                  >
+                    <option value="">📍 지역 (자동)</option>
+                    {REGIONS.map(region => <option key={region.id} value={region.id}>{region.id}</option>)}
+                  </select>
+                  <select
+                    value={uploadData.category}
+                    onChange={(e) => setUploadData({...uploadData, category: e.target.value})}
+                    className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                  >
+                    <option value="">🗂️ 카테고리 (자동)</option>
+                    {CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.id}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={uploadData.tags}
+                    onChange={(e) => setUploadData({...uploadData, tags: e.target.value})}
+                    className="w-full p-3 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    placeholder="태그 (쉼표로 구분) 예: 호핑, 발리카삭"
+                  />
+                </div>
+              </div>
+
+              {duplicates && (
+                <div className="bg-yellow-50 border-2 border-yellow-300 rounded-lg p-4">
+                  <p className="font-bold text-yellow-800 mb-2">⚠️ 이미 등록된 문서가 있습니다</p>
+                  <ul className="list-disc ml-5 mb-3 text-sm text-yellow-900">
+                    {duplicates.map((source) => (
+                      <li key={source.sourceId}>
+                        {source.title} (v{source.version}, {source.date || '날짜 없음'}, {source.chunkCount}개 청크)
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => uploadDocument('replace')}
+                      disabled={loading}
+                      className="bg-purple-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      🔁 교체하기
+                    </button>
+                    <button
+                      onClick={() => uploadDocument('new_version')}
+                      disabled={loading}
+                      className="bg-white border-2 border-purple-600 text-purple-700 px-4 py-2 rounded-lg font-bold hover:bg-purple-50 disabled:opacity-50"
+                    >
+                      ➕ 새 버전으로 추가
+                    </button>
+                    <button
+                      onClick={() => setDuplicates(null)}
+                      className="bg-gray-200 px-4 py-2 rounded-lg font-bold hover:bg-gray-300"
+                    >
+                      건너뛰기
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <button
-                onClick={uploadDocument}
+                onClick={() => uploadDocument()}
                 disabled={loading || !uploadData.content || !uploadData.title}
                 className="w-full bg-gradient-to-r from-green-600 to-teal-600 text-white py-4 rounded-lg font-bold text-lg hover:from-green-700 hover:to-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition shadow-lg"
               >
                 {loading ? '업로드 중...' : '📤 문서 업로드'}
               </button>
+
+              {watchedJob && (
+                <div className="border-2 border-purple-200 rounded-lg p-4">
+                  <div className="flex justify-between text-sm mb-2">
+                    <span className="font-bold text-gray-800">작업 #{watchedJob.id} · {watchedJob.title}</span>
+                    <span>{JOB_STATUS_LABELS[watchedJob.status]}</span>
+                  </div>
+                  <div className="h-2 bg-gray-200 rounded">
+                    <div className="h-2 bg-purple-600 rounded transition-all" style={{ width: `${jobPercent(watchedJob)}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-600 mt-2">
+                    임베딩 {watchedJob.progress.embedded}/{watchedJob.progress.total} · 저장 {watchedJob.progress.stored}
+                    {watchedJob.progress.failed > 0 && <span className="text-red-600"> · 실패 {watchedJob.progress.failed}</span>}
+                    {watchedJob.result && watchedJob.result.facts > 0 && ` · 가격 정보 ${watchedJob.result.facts}개`}
+                  </p>
+                  {watchedJob.error && <p className="text-xs text-red-600 mt-1">{watchedJob.error}</p>}
+                </div>
+              )}
+
+              <div className="pt-4 border-t">
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-bold text-gray-800">최근 수집 작업</h3>
+                  <button onClick={fetchJobs} className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300">🔄 새로고침</button>
+                </div>
+                {jobs.length === 0 ? (
+                  <p className="text-sm text-gray-500">아직 작업이 없습니다</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1">#</th>
+                        <th>제목</th>
+                        <th>상태</th>
+                        <th>청크 (저장/전체)</th>
+                        <th>등록</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {jobs.map((job) => (
+                        <tr key={job.id} className="border-b last:border-0">
+                          <td className="py-1 text-gray-500">{job.id}</td>
+                          <td className="truncate max-w-[200px]" title={job.error || job.title}>{job.title}</td>
+                          <td>{JOB_STATUS_LABELS[job.status]}</td>
+                          <td>
+                            {job.progress.stored}/{job.progress.total}
+                            {job.progress.failed > 0 && <span className="text-red-600"> (실패 {job.progress.failed})</span>}
+                          </td>
+                          <td className="text-gray-500">{job.createdBy} · {new Date(job.createdAt).toLocaleString('ko-KR')}</td>
+                          <td className="text-right">
+                            {can('editor') && (job.status === 'partial' || job.status === 'failed') && (
+                              <button onClick={() => retryJob(job)} className="text-purple-700 hover:underline">🔁 재시도</button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
             </div>
           )}
 
-          {/* 데이터베이스 탭 */}
+          {/* 데이터베이스 탭 — 소스(글/영상) 단위 목록 */}
           {activeTab === 'database' && (
             <div className="space-y-4">
               <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
                 <div>
-                  <h2 className="text-2xl font-bold text-gray-800">전체 문서: {documents.length}개</h2>
-                  <p className="text-sm text-gray-600">최신순으로 정렬됨</p>
+                  <h2 className="text-2xl font-bold text-gray-800">전체 소스: {sourcePage?.total ?? 0}개</h2>
+                  <p className="text-sm text-gray-600">최신 날짜순 · 제목/URL 검색</p>
                 </div>
                 <button
-                  onClick={fetchDocuments}
+                  onClick={fetchSources}
                   disabled={loading}
                   className="bg-gray-200 px-6 py-2 rounded-lg hover:bg-gray-300 font-bold disabled:opacity-50 transition"
                 >
@@ -360,53 +1030,414 @@ function Admin() {
                 </button>
               </div>
 
-              {loading ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setSourceQuery({ ...sourceQuery, q: sourceSearch, page: 1 });
+                }}
+                className="flex flex-wrap gap-2"
+              >
+                <input
+                  type="text"
+                  value={sourceSearch}
+                  onChange={(e) => setSourceSearch(e.target.value)}
+                  placeholder="제목 또는 URL 검색"
+                  className="flex-1 min-w-[200px] p-2 border-2 border-gray-300 rounded-lg focus:border-purple-500 focus:outline-none"
+                />
+                <select
+                  value={sourceQuery.type}
+                  onChange={(e) => setSourceQuery({ ...sourceQuery, type: e.target.value, page: 1 })}
+                  className="p-2 border-2 border-gray-300 rounded-lg"
+                >
+                  <option value="">전체 유형</option>
+                  {Object.entries(SOURCE_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={sourceQuery.region}
+                  onChange={(e) => setSourceQuery({ ...sourceQuery, region: e.target.value, page: 1 })}
+                  className="p-2 border-2 border-gray-300 rounded-lg"
+                >
+                  <option value="">전체 지역</option>
+                  {REGIONS.map(region => (
+                    <option key={region.id} value={region.id}>{region.id} ({facetCount(sourcePage?.facets.regions, region.id)})</option>
+                  ))}
+                  <option value="none">미분류 ({sourcePage?.facets.untagged ?? 0})</option>
+                </select>
+                <select
+                  value={sourceQuery.category}
+                  onChange={(e) => setSourceQuery({ ...sourceQuery, category: e.target.value, page: 1 })}
+                  className="p-2 border-2 border-gray-300 rounded-lg"
+                >
+                  <option value="">전체 카테고리</option>
+                  {CATEGORIES.map(category => (
+                    <option key={category.id} value={category.id}>{category.id} ({facetCount(sourcePage?.facets.categories, category.id)})</option>
+                  ))}
+                </select>
+                {sourceQuery.tag && (
+                  <button
+                    type="button"
+                    onClick={() => setSourceQuery({ ...sourceQuery, tag: '', page: 1 })}
+                    className="px-3 py-2 rounded-lg bg-blue-100 text-blue-700 hover:bg-blue-200"
+                    title="태그 필터 해제"
+                  >
+                    #{sourceQuery.tag} ✕
+                  </button>
+                )}
+                <button type="submit" className="bg-purple-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-purple-700">
+                  🔍 검색
+                </button>
+              </form>
+
+              {selectedSources.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 bg-purple-50 border border-purple-200 rounded-lg p-3 text-sm">
+                  <span className="font-bold text-purple-800">선택 {selectedSources.length}개</span>
+                  {can('editor') && (
+                    <select
+                      value=""
+                      onChange={(e) => bulkSetSourceType(e.target.value)}
+                      disabled={loading}
+                      className="p-1 border border-gray-300 rounded"
+                    >
+                      <option value="">유형 변경...</option>
+                      {Object.entries(SOURCE_TYPE_LABELS).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {can('editor') && (
+                    <select
+                      value=""
+                      onChange={(e) => bulkSetSourceRegion(e.target.value)}
+                      disabled={loading}
+                      className="p-1 border border-gray-300 rounded"
+                    >
+                      <option value="">지역 변경...</option>
+                      {REGIONS.map(region => <option key={region.id} value={region.id}>{region.id}</option>)}
+                      <option value="none">지역 지우기</option>
+                    </select>
+                  )}
+                  {can('owner') && (
+                    <button onClick={bulkDeleteSources} disabled={loading} className="text-red-600 font-bold hover:underline">
+                      🗑️ 선택 삭제
+                    </button>
+                  )}
+                  <button onClick={() => setSelectedSources([])} className="text-gray-600 hover:underline">선택 해제</button>
+                </div>
+              )}
+
+              {loading && !sourcePage ? (
                 <div className="text-center py-12">
                   <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
                   <p className="text-gray-500 mt-4">로딩 중...</p>
                 </div>
-              ) : documents.length === 0 ? (
+              ) : !sourcePage || sourcePage.total === 0 ? (
                 <div className="text-center py-12 bg-gray-50 rounded-lg">
-                  <p className="text-gray-500 text-lg">📭 아직 업로드된 문서가 없습니다.</p>
-                  <button
-                    onClick={() => setActiveTab('upload')}
-                    className="mt-4 text-purple-600 font-bold hover:underline"
-                  >
-                    → 첫 문서 업로드하기
-                  </button>
+                  <p className="text-gray-500 text-lg">
+                    {hasSourceFilter ? '🔍 조건에 맞는 소스가 없습니다.' : '📭 아직 업로드된 문서가 없습니다.'}
+                  </p>
+                  {can('editor') && !hasSourceFilter && (
+                    <button
+                      onClick={() => setActiveTab('upload')}
+                      className="mt-4 text-purple-600 font-bold hover:underline"
+                    >
+                      → 첫 문서 업로드하기
+                    </button>
+                  )}
                 </div>
               ) : (
-                <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
-                  {documents.map((doc, index) => (
-                    <div key={doc.id} className="border-2 border-gray-200 rounded-lg p-4 hover:shadow-lg hover:border-purple-300 transition bg-white">
-                      <div className="flex justify-between items-start gap-4">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <span className="text-xs bg-gray-200 px-2 py-1 rounded font-bold">#{index + 1}</span>
-                            <h3 className="font-bold text-lg text-gray-800">{doc.title}</h3>
-                          </div>
-                          <div className="flex flex-wrap gap-3 text-sm text-gray-600 mb-3">
-                            <span className="flex items-center gap-1">
-                              📌 {doc.source}
-                            </span>
-                            <span className="flex items-center gap-1">
-                              📅 {doc.date}
-                            </span>
-                          </div>
-                          <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded border border-gray-200">
-                            {doc.contentPreview}
-                          </p>
-                        </div>
-                        <button
-                          onClick={() => deleteDocument(doc.id)}
-                          className="text-red-600 hover:text-white hover:bg-red-600 font-bold px-4 py-2 rounded transition border-2 border-red-600"
-                        >
-                          🗑️
-                        </button>
-                      </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm border border-gray-200">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="p-2 w-8">
+                          <input
+                            type="checkbox"
+                            checked={sourcePage.sources.length > 0 && sourcePage.sources.every(source => selectedSources.includes(source.sourceId))}
+                            onChange={(e) => setSelectedSources(e.target.checked ? sourcePage.sources.map(source => source.sourceId) : [])}
+                          />
+                        </th>
+                        <th className="text-left p-2">제목 / URL</th>
+                        <th className="text-left p-2">유형</th>
+                        <th className="text-left p-2">분류</th>
+                        <th className="text-left p-2">날짜</th>
+                        <th className="text-right p-2">청크</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sourcePage.sources.map((source) => {
+                        const editing = editingSource?.sourceId === source.sourceId ? editingSource : null;
+                        return (
+                          <tr key={source.sourceId} className="border-t align-top hover:bg-purple-50">
+                            <td className="p-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={selectedSources.includes(source.sourceId)}
+                                onChange={() => toggleSource(source.sourceId)}
+                              />
+                            </td>
+                            {editing ? (
+                              <>
+                                <td className="p-2 space-y-1">
+                                  <input
+                                    type="text"
+                                    value={editing.title}
+                                    onChange={(e) => setEditingSource({ ...editing, title: e.target.value })}
+                                    className="w-full p-1 border border-gray-300 rounded"
+                                  />
+                                  <input
+                                    type="url"
+                                    value={editing.url}
+                                    onChange={(e) => setEditingSource({ ...editing, url: e.target.value })}
+                                    placeholder="https://..."
+                                    className="w-full p-1 border border-gray-300 rounded"
+                                  />
+                                </td>
+                                <td className="p-2">
+                                  <select
+                                    value={editing.type}
+                                    onChange={(e) => setEditingSource({ ...editing, type: e.target.value })}
+                                    className="p-1 border border-gray-300 rounded"
+                                  >
+                                    {Object.entries(SOURCE_TYPE_LABELS).map(([type, label]) => (
+                                      <option key={type} value={type}>{label}</option>
+                                    ))}
+                                  </select>
+                                </td>
+                                <td className="p-2 space-y-1">
+                                  <select
+                                    value={editing.region}
+                                    onChange={(e) => setEditingSource({ ...editing, region: e.target.value })}
+                                    className="w-full p-1 border border-gray-300 rounded"
+                                  >
+                                    <option value="">지역 없음</option>
+                                    {REGIONS.map(region => <option key={region.id} value={region.id}>{region.id}</option>)}
+                                  </select>
+                                  <select
+                                    value={editing.category}
+                                    onChange={(e) => setEditingSource({ ...editing, category: e.target.value })}
+                                    className="w-full p-1 border border-gray-300 rounded"
+                                  >
+                                    <option value="">카테고리 없음</option>
+                                    {CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.id}</option>)}
+                                  </select>
+                                  <input
+                                    type="text"
+                                    value={editing.tags}
+                                    onChange={(e) => setEditingSource({ ...editing, tags: e.target.value })}
+                                    placeholder="태그, 쉼표로 구분"
+                                    className="w-full p-1 border border-gray-300 rounded"
+                                  />
+                                </td>
+                                <td className="p-2">
+                                  <input
+                                    type="date"
+                                    value={editing.date}
+                                    onChange={(e) => setEditingSource({ ...editing, date: e.target.value })}
+                                    className="p-1 border border-gray-300 rounded"
+                                  />
+                                </td>
+                                <td className="p-2 text-right">{source.chunkCount}</td>
+                                <td className="p-2 text-right whitespace-nowrap space-x-2">
+                                  <button onClick={saveSource} disabled={loading} className="text-purple-700 font-bold hover:underline">💾 저장</button>
+                                  <button onClick={() => setEditingSource(null)} className="text-gray-500 hover:underline">취소</button>
+                                </td>
+                              </>
+                            ) : (
+                              <>
+                                <td className="p-2">
+                                  <div className="font-bold text-gray-800">
+                                    {source.title}
+                                    {source.version > 1 && <span className="ml-2 text-xs bg-gray-200 px-1 rounded">v{source.version}</span>}
+                                  </div>
+                                  {source.url && (
+                                    <a href={source.url} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline break-all">
+                                      {source.url}
+                                    </a>
+                                  )}
+                                </td>
+                                <td className="p-2 whitespace-nowrap">{SOURCE_TYPE_LABELS[source.type] || source.type}</td>
+                                <td className="p-2">
+                                  <div className="whitespace-nowrap">
+                                    {source.region ? `📍 ${source.region}` : <span className="text-gray-400">미분류</span>}
+                                    {source.category && ` · ${source.category}`}
+                                  </div>
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {source.tags.map(tag => (
+                                      <button
+                                        key={tag}
+                                        onClick={() => setSourceQuery({ ...sourceQuery, tag, page: 1 })}
+                                        className="text-xs text-blue-600 hover:underline"
+                                        title="이 태그로 거르기"
+                                      >
+                                        #{tag}
+                                      </button>
+                                    ))}
+                                  </div>
+                                </td>
+                                <td className="p-2 whitespace-nowrap">{source.date}</td>
+                                <td className="p-2 text-right">{source.chunkCount}</td>
+                                <td className="p-2 text-right whitespace-nowrap space-x-2">
+                                  {can('editor') && (
+                                    <button
+                                      onClick={() => setEditingSource({
+                                        sourceId: source.sourceId,
+                                        title: source.title,
+                                        url: source.url,
+                                        date: source.date,
+                                        type: source.type || 'BLOG',
+                                        region: source.region,
+                                        category: source.category,
+                                        tags: source.tags.join(', ')
+                                      })}
+                                      className="text-purple-700 hover:underline"
+                                    >
+                                      ✏️ 수정
+                                    </button>
+                                  )}
+                                  {can('owner') && (
+                                    <button onClick={() => deleteSource(source)} className="text-red-600 hover:underline">🗑️</button>
+                                  )}
+                                </td>
+                              </>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  {sourcePage.pages > 1 && (
+                    <div className="flex justify-center items-center gap-4 mt-4 text-sm">
+                      <button
+                        onClick={() => setSourceQuery({ ...sourceQuery, page: sourcePage.page - 1 })}
+                        disabled={loading || sourcePage.page <= 1}
+                        className="px-3 py-1 rounded border border-gray-300 disabled:opacity-40"
+                      >
+                        ← 이전
+                      </button>
+                      <span>{sourcePage.page} / {sourcePage.pages}</span>
+                      <button
+                        onClick={() => setSourceQuery({ ...sourceQuery, page: sourcePage.page + 1 })}
+                        disabled={loading || sourcePage.page >= sourcePage.pages}
+                        className="px-3 py-1 rounded border border-gray-300 disabled:opacity-40"
+                      >
+                        다음 →
+                      </button>
                     </div>
-                  ))}
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 사용량 탭 */}
+          {activeTab === 'usage' && (
+            <div className="space-y-6">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-800">채팅 사용량 {usage && `(${usage.date})`}</h2>
+                  <p className="text-sm text-gray-600">서버 메모리 기준 — 재시작하면 초기화됩니다</p>
                 </div>
+                <button
+                  onClick={fetchUsage}
+                  disabled={loading}
+                  className="bg-gray-200 px-6 py-2 rounded-lg hover:bg-gray-300 font-bold disabled:opacity-50 transition"
+                >
+                  🔄 새로고침
+                </button>
+              </div>
+
+              {usage && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="bg-purple-50 border-2 border-purple-200 rounded-lg p-4">
+                      <p className="text-sm text-gray-600">오늘 토큰</p>
+                      <p className="text-2xl font-bold text-purple-700">
+                        {usage.totals.tokens.toLocaleString()}
+                        {usage.limits.dailyTokensTotal > 0 && (
+                          <span className="text-sm text-gray-500"> / {usage.limits.dailyTokensTotal.toLocaleString()}</span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="bg-blue-50 border-2 border-blue-200 rounded-lg p-4">
+                      <p className="text-sm text-gray-600">오늘 질문</p>
+                      <p className="text-2xl font-bold text-blue-700">{usage.totals.requests.toLocaleString()}</p>
+                    </div>
+                    <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4">
+                      <p className="text-sm text-gray-600">제한으로 거절</p>
+                      <p className="text-2xl font-bold text-red-700">{usage.totals.blocked.toLocaleString()}</p>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+                    <p>⏱️ 분당 비용 한도: IP {usage.limits.costPerMinuteIp} / 세션 {usage.limits.costPerMinuteSession}</p>
+                    <p>🪙 일일 토큰 한도: IP {usage.limits.dailyTokensIp.toLocaleString()} / 세션 {usage.limits.dailyTokensSession.toLocaleString()}</p>
+                    <p>✏️ 질문 최대 길이: {usage.limits.maxQueryLength}자</p>
+                    <p>
+                      💾 답변 캐시: 적중 {usage.answerCache.hits} (유사 질문 {usage.answerCache.semanticHits}) / 미스 {usage.answerCache.misses} · {usage.answerCache.entries}개 보관
+                      {usage.answerCache.kbVersion !== null && ` · 지식 베이스 v${usage.answerCache.kbVersion}`}
+                    </p>
+                  </div>
+
+                  <div>
+                    <h3 className="font-bold text-gray-800 mb-2">검색 모드별</h3>
+                    <table className="w-full text-sm border border-gray-200">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="text-left p-2">모드</th>
+                          <th className="text-right p-2">비용 가중치</th>
+                          <th className="text-right p-2">질문</th>
+                          <th className="text-right p-2">토큰</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {Object.entries(usage.modeCosts).map(([mode, cost]) => (
+                          <tr key={mode} className="border-t">
+                            <td className="p-2 font-mono">{mode}</td>
+                            <td className="p-2 text-right">{cost}</td>
+                            <td className="p-2 text-right">{(usage.byMode[mode]?.requests || 0).toLocaleString()}</td>
+                            <td className="p-2 text-right">{(usage.byMode[mode]?.tokens || 0).toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {([['IP별 상위', usage.topIps], ['세션별 상위', usage.topSessions]] as [string, UsageEntry[]][]).map(([title, entries]) => (
+                    <div key={title}>
+                      <h3 className="font-bold text-gray-800 mb-2">{title}</h3>
+                      {entries.length === 0 ? (
+                        <p className="text-sm text-gray-500">아직 기록이 없습니다.</p>
+                      ) : (
+                        <table className="w-full text-sm border border-gray-200">
+                          <thead className="bg-gray-100">
+                            <tr>
+                              <th className="text-left p-2">키</th>
+                              <th className="text-right p-2">최근 1분 비용</th>
+                              <th className="text-right p-2">질문</th>
+                              <th className="text-right p-2">토큰</th>
+                              <th className="text-right p-2">거절</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entries.map(entry => (
+                              <tr key={entry.key} className="border-t">
+                                <td className="p-2 font-mono truncate max-w-[200px]">{entry.key}</td>
+                                <td className="p-2 text-right">{entry.lastMinuteCost}</td>
+                                <td className="p-2 text-right">{entry.requests.toLocaleString()}</td>
+                                <td className="p-2 text-right">{entry.tokens.toLocaleString()}</td>
+                                <td className="p-2 text-right">{entry.blocked}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  ))}
+                </>
               )}
             </div>
           )}
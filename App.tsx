@@ -1,11 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
+import { CitationSource } from './types';
+import { ChatLimitError, chatSessionId, streamChat } from './services/chatStream';
+import { CATEGORIES, REGIONS } from './utils/taxonomy';
 import './App.css';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
-  sources?: Array<{ id: number; title: string; content: string }>;
+  sources?: CitationSource[];
   webSources?: Array<{ title: string; content: string }>;
 }
 
@@ -14,7 +17,10 @@ function App() {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [useWebSearch, setUseWebSearch] = useState(false);
+  // 검색 필터 — 지역을 비워 두면 서버가 질문에서 지역을 찾는다
+  const [filters, setFilters] = useState({ region: '', category: '' });
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // 올바른 API URL
   const API_URL = window.location.hostname === 'localhost'
@@ -35,61 +41,84 @@ function App() {
 마크다운 문법을 사용하세요.
 문서에 없는 내용은 "제공된 자료에 해당 내용이 없습니다"라고 명시하세요.`;
 
+  // 스트리밍 중인 마지막 assistant 메시지를 갱신
+  const updateLastMessage = (update: (msg: Message) => Message) => {
+    setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+  };
+
   const handleSend = async () => {
     if (!input.trim()) return;
 
     const userMessage: Message = { role: 'user', content: input };
-    setMessages(prev => [...prev, userMessage]);
+    const history = messages
+      .filter(m => m.content)
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', text: m.content }));
+    setMessages(prev => [...prev, userMessage, { role: 'assistant', content: '' }]);
     setInput('');
     setIsLoading(true);
 
-    try {
-      console.log('🔵 API 요청:', `${API_URL}/api/chat`);
-      
-      const response = await fetch(`${API_URL}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          query: input,
-          systemInstruction,
-          useWebSearch
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log('✅ API 응답:', data);
-
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: data.answer,
-        sources: data.sources || [],
-        webSources: data.webSources || []
-      };
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      setMessages(prev => [...prev, assistantMessage]);
+    try {
+      console.log('🔵 API 요청:', `${API_URL}/api/chat/stream`);
+
+      await streamChat(`${API_URL}/api/chat/stream`, {
+        query: input,
+        history,
+        systemInstruction,
+        useWebSearch,
+        filters,
+        sessionId: chatSessionId()
+      }, {
+        onRetrieval: (data) => console.log('🔎 검색 완료:', data.debug),
+        onDelta: (text) => updateLastMessage(msg => ({ ...msg, content: msg.content + text })),
+        onSources: (sources, answer) => updateLastMessage(msg => ({ ...msg, sources, content: answer ?? msg.content })),
+        onDone: (data) => console.log('✅ API 응답:', data.debug),
+      }, controller.signal);
     } catch (error: any) {
-      console.error('❌ API 오류:', error);
-      
-      const errorMessage: Message = {
-        role: 'assistant',
-        content: `⚠️ **오류 발생**\n\n${error.message}\n\n잠시 후 다시 시도해주세요.`
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        updateLastMessage(msg => ({ ...msg, content: `${msg.content}\n\n_⏹️ 답변이 중단되었습니다._` }));
+      } else if (error instanceof ChatLimitError) {
+        // 사용량 제한은 오류가 아니라 챗봇 말투의 안내로 보여준다
+        updateLastMessage(msg => ({ ...msg, content: error.message }));
+      } else {
+        console.error('❌ API 오류:', error);
+        updateLastMessage(msg => ({
+          ...msg,
+          content: `${msg.content ? `${msg.content}\n\n` : ''}⚠️ **오류 발생**\n\n${error.message}\n\n잠시 후 다시 시도해주세요.`
+        }));
+      }
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
   return (
     <div className="app-container">
       <header className="app-header">
         <h1>🏝️ 철산랜드 챗봇</h1>
         <div className="header-controls">
+          <select
+            className="search-filter"
+            value={filters.region}
+            onChange={(e) => setFilters(prev => ({ ...prev, region: e.target.value }))}
+            title="지역을 고르면 그 지역 자료만 검색합니다"
+          >
+            <option value="">📍 지역 자동</option>
+            {REGIONS.map(region => <option key={region.id} value={region.id}>{region.id}</option>)}
+          </select>
+          <select
+            className="search-filter"
+            value={filters.category}
+            onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value }))}
+          >
+            <option value="">🗂️ 전체 주제</option>
+            {CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.id}</option>)}
+          </select>
           <label className="web-search-toggle">
             <input
               type="checkbox"
@@ -103,7 +132,7 @@ function App() {
 
       <div className="chat-container">
         <div className="messages-container">
-          {messages.map((msg, idx) => (
+          {messages.map((msg, idx) => msg.role === 'assistant' && !msg.content ? null : (
             <div key={idx} className={`message ${msg.role}`}>
               <div className="message-content">
                 <ReactMarkdown>{msg.content}</ReactMarkdown>
@@ -112,10 +141,10 @@ function App() {
               {msg.sources && msg.sources.length > 0 && (
                 <div className="sources">
                   <h4>📚 참고 문서:</h4>
-                  {msg.sources.map(source => (
-                    <div key={source.id} className="source-item">
-                      <strong>[{source.id}] {source.title}</strong>
-                      <p>{source.content}</p>
+                  {msg.sources.map((source, i) => (
+                    <div key={source.url} className="source-item">
+                      <strong>[{i + 1}] {source.title}</strong>
+                      <p><a href={source.url} target="_blank" rel="noopener noreferrer">{source.url}</a></p>
                     </div>
                   ))}
                 </div>
@@ -135,7 +164,7 @@ function App() {
             </div>
           ))}
 
-          {isLoading && (
+          {isLoading && !messages[messages.length - 1]?.content && (
             <div className="message assistant">
               <div className="loading">⏳ 답변 생성 중...</div>
             </div>
@@ -153,9 +182,15 @@ function App() {
             placeholder="질문을 입력하세요..."
             disabled={isLoading}
           />
-          <button onClick={handleSend} disabled={isLoading || !input.trim()}>
-            전송
-          </button>
+          {isLoading ? (
+            <button onClick={handleStop} className="stop-button">
+              ⏹️ 중지
+            </button>
+          ) : (
+            <button onClick={handleSend} disabled={!input.trim()}>
+              전송
+            </button>
+          )}
         </div>
       </div>
     </div>
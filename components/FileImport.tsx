@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { SourceType } from '../types';
+import { DuplicateAction, ingestSource } from '../services/ingestion';
+import { ParsedFile, SUPPORTED_EXTENSIONS, parseKnowledgeFile } from '../utils/fileParsers';
+
+interface Props {
+  onAddSource: () => void; // Callback to refresh list
+}
+
+type ImportStatus = 'ready' | 'processing' | 'done' | 'error';
+
+interface ImportItem extends ParsedFile {
+  key: string;
+  status: ImportStatus;
+  progress: number;
+  message: string;
+}
+
+const STATUS_LABEL: Record<ImportStatus, string> = {
+  ready: '대기',
+  processing: '처리 중',
+  done: '완료',
+  error: '실패',
+};
+
+const DUPLICATE_LABEL: Record<DuplicateAction, string> = {
+  skip: '건너뛰기',
+  replace: '교체하기',
+  new_version: '새 버전으로 추가',
+};
+
+const FileImport: React.FC<Props> = ({ onAddSource }) => {
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateAction>('skip');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateItem = (key: string, patch: Partial<ImportItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...patch } : item));
+  };
+
+  const addFiles = async (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const parsed = await Promise.all(Array.from(fileList).map(async (file, i): Promise<ImportItem> => {
+      const key = `${file.name}_${Date.now()}_${i}`;
+      try {
+        const result = await parseKnowledgeFile(file);
+        return { ...result, key, status: 'ready', progress: 0, message: '' };
+      } catch (err: any) {
+        return {
+          key, fileName: file.name, type: SourceType.BLOG, title: file.name, url: '', date: '', content: '', cueCount: 0,
+          status: 'error', progress: 0, message: err.message
+        };
+      }
+    }));
+
+    setItems(prev => [...prev, ...parsed]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  // 파일을 하나씩 순서대로 저장 (한 파일이 실패해도 나머지는 계속)
+  const handleImportAll = async () => {
+    const queue = items.filter(item => item.status === 'ready');
+    const incomplete = queue.find(item => !item.title.trim() || !item.date);
+    if (incomplete) {
+      alert(`"${incomplete.fileName}"의 제목과 날짜를 입력해주세요.`);
+      return;
+    }
+
+    setIsProcessing(true);
+    let savedCount = 0;
+
+    for (const item of queue) {
+      updateItem(item.key, { status: 'processing', progress: 0 });
+      try {
+        const result = await ingestSource(item, progress => updateItem(item.key, { progress }), onDuplicate);
+        if (result.status === 'skipped') {
+          updateItem(item.key, { status: 'done', message: `이미 등록됨 — 건너뜀 (${result.existing[0].title})` });
+          continue;
+        }
+        savedCount++;
+        const chunkMessage = result.failedChunks.length > 0
+          ? `${result.insertedChunks}/${result.totalChunks} 청크 저장 (${result.failedChunks.length}개 실패 — 작업 #${result.jobId}에서 재시도)`
+          : `${result.insertedChunks}개 청크 저장`;
+        updateItem(item.key, {
+          status: 'done',
+          message: result.status === 'replaced' ? `${chunkMessage} · 기존 문서 교체`
+            : result.status === 'new_version' ? `${chunkMessage} · 새 버전`
+            : chunkMessage
+        });
+      } catch (err: any) {
+        console.error(`Failed to import ${item.fileName}`, err);
+        updateItem(item.key, { status: 'error', message: err.message || '저장 실패' });
+      }
+    }
+
+    setIsProcessing(false);
+    if (savedCount > 0) onAddSource(); // Refresh list
+  };
+
+  const readyCount = items.filter(item => item.status === 'ready').length;
+
+  return (
+    <div className="mt-6 pt-6 border-t">
+      <h3 className="text-lg font-bold text-gray-800 mb-2">📂 파일로 일괄 추가</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        유튜브 자막(.srt, .vtt), 텍스트(.txt, .md), 저장한 네이버 블로그 페이지(.html)를 여러 개 한 번에 올릴 수 있습니다.
+        자막의 시간 정보는 자동으로 타임스탬프 링크가 됩니다.
+      </p>
+
+      <div
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center text-sm cursor-pointer transition-colors ${
+          isDragging ? 'border-primary bg-teal-50 text-primary' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+        }`}
+      >
+        여기에 파일을 끌어다 놓거나 클릭해서 선택하세요
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SUPPORTED_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={e => { addFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-4 space-y-2 max-h-[400px] overflow-y-auto pr-1">
+          {items.map(item => (
+            <div key={item.key} className="border rounded p-3 text-sm">
+              <div className="flex justify-between items-center mb-2">
+                <span className="font-mono text-xs text-gray-500 truncate">{item.fileName}</span>
+                <span className={`text-xs font-bold ${
+                  item.status === 'error' ? 'text-red-600' : item.status === 'done' ? 'text-green-600' : 'text-gray-500'
+                }`}>
+                  {STATUS_LABEL[item.status]}{item.status === 'processing' && ` (${item.progress}%)`}
+                </span>
+              </div>
+
+              {item.status === 'ready' ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <input
+                    value={item.title}
+                    onChange={e => updateItem(item.key, { title: e.target.value })}
+                    placeholder="제목"
+                    className="p-1 border rounded md:col-span-3"
+                  />
+                  <input
+                    type="url"
+                    value={item.url}
+                    onChange={e => updateItem(item.key, { url: e.target.value })}
+                    placeholder="원본 URL"
+                    className="p-1 border rounded md:col-span-2"
+                  />
+                  <input
+                    type="date"
+                    value={item.date}
+                    onChange={e => updateItem(item.key, { date: e.target.value })}
+                    className="p-1 border rounded"
+                  />
+                  <p className="text-xs text-gray-500 md:col-span-3">
+                    {item.type === SourceType.YOUTUBE ? `유튜브 자막 · 타임스탬프 ${item.cueCount}개` : '블로그 글'} · {item.content.length.toLocaleString()}자
+                  </p>
+                </div>
+              ) : (
+                <p className={`text-xs ${item.status === 'error' ? 'text-red-600' : 'text-gray-600'}`}>
+                  {item.title} {item.message && `— ${item.message}`}
+                </p>
+              )}
+
+              {item.status === 'processing' && (
+                <div className="mt-2 h-1 bg-gray-200 rounded">
+                  <div className="h-1 bg-primary rounded" style={{ width: `${item.progress}%` }} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+          <label htmlFor="import-on-duplicate">이미 등록된 URL/본문은</label>
+          <select
+            id="import-on-duplicate"
+            value={onDuplicate}
+            onChange={e => setOnDuplicate(e.target.value as DuplicateAction)}
+            disabled={isProcessing}
+            className="p-1 border rounded"
+          >
+            {(Object.keys(DUPLICATE_LABEL) as DuplicateAction[]).map(action => (
+              <option key={action} value={action}>{DUPLICATE_LABEL[action]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={handleImportAll}
+            disabled={isProcessing || readyCount === 0}
+            className="flex-1 py-2 rounded-md shadow text-white font-bold bg-primary hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? '저장 중...' : `📤 ${readyCount}개 파일 저장하기`}
+          </button>
+          <button
+            onClick={() => setItems(prev => prev.filter(item => item.status === 'processing'))}
+            disabled={isProcessing}
+            className="px-4 py-2 rounded-md border text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            목록 비우기
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileImport;
@@ -1,16 +1,15 @@
 
 import React, { useState } from 'react';
 import { SourceType } from '../types';
-import { smartChunking } from '../utils/textProcessing';
-import { GeminiService } from '../services/gemini';
-import { supabase } from '../services/supabase';
+import { DuplicateAction, ingestSource } from '../services/ingestion';
+import { ExistingSource } from '../utils/dedup';
+import FileImport from './FileImport';
 
 interface Props {
   onAddSource: () => void; // Callback to refresh list
-  geminiService: GeminiService;
 }
 
-const IngestionPanel: React.FC<Props> = ({ onAddSource, geminiService }) => {
+const IngestionPanel: React.FC<Props> = ({ onAddSource }) => {
   const [type, setType] = useState<SourceType>(SourceType.BLOG);
   const [title, setTitle] = useState('');
   const [url, setUrl] = useState('');
@@ -19,60 +18,35 @@ const IngestionPanel: React.FC<Props> = ({ onAddSource, geminiService }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
 
+  const [duplicates, setDuplicates] = useState<ExistingSource[] | null>(null);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!content.trim()) {
       alert("본문 내용을 입력해주세요.");
       return;
     }
+    await runIngest();
+  };
 
+  // onDuplicate 없이 먼저 시도 → 기존 문서가 있으면 사용자에게 처리 방법을 묻는다
+  const runIngest = async (onDuplicate?: DuplicateAction) => {
+    setDuplicates(null);
     setIsProcessing(true);
     setProgress(0);
 
     try {
-      const sourceId = `source_${Date.now()}`;
-      
-      // 1. Chunking
-      const chunks = smartChunking(content, sourceId);
-      
-      // 2. Embedding & Insert to Supabase
-      const rowsToInsert = [];
-      
-      for (let i = 0; i < chunks.length; i++) {
-        try {
-            // [Contextual Embedding] Include Title and Date in the text to embed
-            // This ensures the vector contains the context of "What is this article about?"
-            const contextText = `Title: ${title}\nDate: ${date}\nContent: ${chunks[i].text}`;
-            const vector = await geminiService.generateEmbedding(contextText);
-            
-            // Prepare row for Supabase
-            rowsToInsert.push({
-              content: chunks[i].text,
-              embedding: vector,
-              metadata: {
-                sourceId,
-                title,
-                url,
-                date,
-                type,
-                chunkIndex: i
-              }
-            });
-
-        } catch (err) {
-            console.error(`Failed to embed chunk ${i}`, err);
-        }
-        setProgress(Math.round(((i + 1) / chunks.length) * 90));
-      }
-
-      // Batch insert to Supabase
-      const { error } = await supabase.from('documents').insert(rowsToInsert);
+      const result = await ingestSource({ type, title, url, date, content }, setProgress, onDuplicate);
 
-      if (error) {
-        throw error;
+      if (result.status === 'duplicate') {
+        setDuplicates(result.existing);
+        return;
+      }
+      if (result.status === 'skipped') {
+        alert("이미 등록된 문서라 저장하지 않았습니다.");
+        return;
       }
 
-      setProgress(100);
       onAddSource(); // Refresh list
       
       // Reset form
@@ -81,11 +55,20 @@ const IngestionPanel: React.FC<Props> = ({ onAddSource, geminiService }) => {
       setDate('');
       setContent('');
       setProgress(0);
-      alert("수파베이스(클라우드)에 성공적으로 저장되었습니다!");
 
-    } catch (error) {
+      if (result.failedChunks.length > 0) {
+        alert(`저장 완료: ${result.totalChunks}개 중 ${result.insertedChunks}개 청크 저장 (${result.failedChunks.length}개 임베딩 실패 — 관리자 화면의 작업 #${result.jobId}에서 다시 시도할 수 있습니다)`);
+      } else if (result.status === 'replaced') {
+        alert("기존 문서를 새 내용으로 교체했습니다!");
+      } else if (result.status === 'new_version') {
+        alert("새 버전으로 저장되었습니다! (이전 버전도 유지됩니다)");
+      } else {
+        alert("수파베이스(클라우드)에 성공적으로 저장되었습니다!");
+      }
+
+    } catch (error: any) {
       console.error(error);
-      alert("처리 중 오류가 발생했습니다. Supabase 설정을 확인해주세요.");
+      alert(`처리 중 오류가 발생했습니다: ${error.message}`);
     } finally {
       setIsProcessing(false);
     }
@@ -168,6 +151,31 @@ const IngestionPanel: React.FC<Props> = ({ onAddSource, geminiService }) => {
           ></textarea>
         </div>
 
+        {duplicates && (
+          <div className="bg-yellow-50 border border-yellow-300 p-4 rounded text-sm">
+            <p className="font-semibold text-yellow-800 mb-2">⚠️ 이미 등록된 문서가 있습니다</p>
+            <ul className="list-disc ml-5 mb-3 text-yellow-900">
+              {duplicates.map(source => (
+                <li key={source.sourceId}>
+                  {source.title} (v{source.version}, {source.date || '날짜 없음'}, {source.chunkCount}개 청크)
+                  <span className="text-xs text-yellow-700"> · {source.matchedBy.includes('url') ? '같은 URL' : '같은 본문'}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => runIngest('replace')} className="px-3 py-1 rounded bg-primary text-white hover:bg-secondary">
+                교체하기
+              </button>
+              <button type="button" onClick={() => runIngest('new_version')} className="px-3 py-1 rounded border border-primary text-primary hover:bg-teal-50">
+                새 버전으로 추가
+              </button>
+              <button type="button" onClick={() => setDuplicates(null)} className="px-3 py-1 rounded border text-gray-600 hover:bg-gray-50">
+                건너뛰기
+              </button>
+            </div>
+          </div>
+        )}
+
         <button 
           type="submit" 
           disabled={isProcessing}
@@ -175,9 +183,11 @@ const IngestionPanel: React.FC<Props> = ({ onAddSource, geminiService }) => {
             isProcessing ? 'bg-gray-400 cursor-not-allowed' : 'bg-primary hover:bg-secondary'
           }`}
         >
-          {isProcessing ? `처리 및 저장 중... (${progress}%)` : '이 지식 수파베이스에 저장하기'}
+          {isProcessing ? `서버에서 처리 중... (${progress}%)` : '이 지식 수파베이스에 저장하기'}
         </button>
       </form>
+
+      <FileImport onAddSource={onAddSource} />
     </div>
   );
 };
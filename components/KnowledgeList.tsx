@@ -1,7 +1,25 @@
 
 import React, { useState } from 'react';
 import { KnowledgeSource, SourceType } from '../types';
-import { supabase } from '../services/supabase';
+import { knowledgeStore } from '../services/knowledgeStore';
+import { findNearDuplicateChunks } from '../utils/dedup';
+import { facetCounts } from '../utils/taxonomy';
+
+const PAGE_SIZE = 1000;
+
+type DuplicatePair = ReturnType<typeof findNearDuplicateChunks>[number];
+
+// 지역 / 카테고리 / 태그 중 하나로 목록 좁히기
+interface Facet {
+  key: 'region' | 'category' | 'tag';
+  value: string;
+}
+
+const matchesFacet = (source: KnowledgeSource, facet: Facet | null) => {
+  if (!facet) return true;
+  if (facet.key === 'tag') return (source.tags || []).includes(facet.value);
+  return (source[facet.key] || '') === facet.value;
+};
 
 interface Props {
   sources: KnowledgeSource[]; // Now derived from DB metadata
@@ -12,6 +30,17 @@ const KnowledgeList: React.FC<Props> = ({ sources, onDelete }) => {
   const [viewingSource, setViewingSource] = useState<KnowledgeSource | null>(null);
   const [isContentLoading, setIsContentLoading] = useState(false);
   const [fullContent, setFullContent] = useState('');
+  const [duplicatePairs, setDuplicatePairs] = useState<DuplicatePair[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [facet, setFacet] = useState<Facet | null>(null);
+
+  const facets = facetCounts(sources);
+  const visibleSources = sources.filter(source => matchesFacet(source, facet));
+  const facetGroups: { key: Facet['key']; label: string; counts: { value: string; count: number }[] }[] = [
+    { key: 'region', label: '📍 지역', counts: facets.untagged > 0 ? [...facets.regions, { value: '', count: facets.untagged }] : facets.regions },
+    { key: 'category', label: '🗂️ 카테고리', counts: facets.categories },
+    { key: 'tag', label: '🏷️ 태그', counts: facets.tags.slice(0, 15) },
+  ];
 
   const handleExportSummary = () => {
       const summary = sources.map(s => 
@@ -28,20 +57,38 @@ const KnowledgeList: React.FC<Props> = ({ sources, onDelete }) => {
     setFullContent('불러오는 중...');
 
     // Fetch all chunks for this source to reconstruct content
-    const { data, error } = await supabase
-        .from('documents')
-        .select('content')
-        .contains('metadata', { sourceId: source.id })
-        .order('id', { ascending: true });
-
-    if (error || !data) {
+    try {
+        const chunks = await knowledgeStore.getSourceChunks(source.id);
+        setFullContent(chunks.map(d => d.content).join('\n\n'));
+    } catch (error) {
+        console.error(error);
         setFullContent('내용을 불러오는데 실패했습니다.');
-    } else {
-        setFullContent(data.map(d => d.content).join('\n\n'));
     }
     setIsContentLoading(false);
   };
 
+  // 전체 청크를 불러와 서로 다른 소스 사이의 거의 같은 청크를 찾는다
+  const handleFindDuplicates = async () => {
+    setIsScanning(true);
+    try {
+      const chunks: any[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const page = await knowledgeStore.listChunks({ offset: from, limit: PAGE_SIZE });
+        chunks.push(...page);
+        if (page.length < PAGE_SIZE) break;
+      }
+      setDuplicatePairs(findNearDuplicateChunks(chunks));
+    } catch (error) {
+      console.error(error);
+      alert('중복 검사 중 오류가 발생했습니다.');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const describeChunk = (chunk: any) =>
+    `${chunk.metadata?.title || 'Untitled'} · v${chunk.metadata?.version || 1} · #${(chunk.metadata?.chunkIndex ?? 0) + 1}`;
+
   if (sources.length === 0) {
     return (
       <div className="text-center p-8 text-gray-500">
@@ -55,16 +102,51 @@ const KnowledgeList: React.FC<Props> = ({ sources, onDelete }) => {
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 mt-6 md:mt-0">
         <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-bold text-gray-800">📚 내 데이터베이스 ({sources.length})</h2>
-            <button 
-              onClick={handleExportSummary}
-              className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-1 rounded border"
-            >
-              📤 DB 요약 복사
-            </button>
+            <div className="flex gap-2">
+              <button 
+                onClick={handleFindDuplicates}
+                disabled={isScanning}
+                className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-1 rounded border disabled:opacity-50"
+              >
+                {isScanning ? '검사 중...' : '🔍 중복 찾기'}
+              </button>
+              <button 
+                onClick={handleExportSummary}
+                className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 px-3 py-1 rounded border"
+              >
+                📤 DB 요약 복사
+              </button>
+            </div>
         </div>
         
+        <div className="space-y-2 mb-4">
+          {facetGroups.filter(group => group.counts.length > 0).map(group => (
+            <div key={group.key} className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="text-gray-500 mr-1">{group.label}</span>
+              {group.counts.map(({ value, count }) => {
+                const active = facet?.key === group.key && facet.value === value;
+                return (
+                  <button
+                    key={value || '__none'}
+                    onClick={() => setFacet(active ? null : { key: group.key, value })}
+                    className={`px-2 py-0.5 rounded-full border ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                  >
+                    {value || '미분류'} {count}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+          {facet && (
+            <p className="text-xs text-gray-500">
+              {visibleSources.length}개 표시 중 ·{' '}
+              <button onClick={() => setFacet(null)} className="text-blue-600 hover:underline">필터 해제</button>
+            </p>
+          )}
+        </div>
+
         <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
-          {sources.map((source) => (
+          {visibleSources.map((source) => (
             <div key={source.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
               <div className="flex justify-between items-start">
                 <div className="flex-1 min-w-0 pr-4">
@@ -74,7 +156,10 @@ const KnowledgeList: React.FC<Props> = ({ sources, onDelete }) => {
                     {source.type === SourceType.YOUTUBE ? 'YouTube' : 'Blog'}
                   </span>
                   <h3 className="font-bold text-gray-800 leading-tight mb-1 truncate">{source.title}</h3>
-                  <p className="text-xs text-gray-500 mb-2">{source.date}</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    {[source.date, source.region, source.category].filter(Boolean).join(' · ')}
+                    {(source.tags || []).map(tag => <span key={tag} className="ml-1 text-blue-500">#{tag}</span>)}
+                  </p>
                   <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline">
                     원본 링크 열기
                   </a>
@@ -101,6 +186,59 @@ const KnowledgeList: React.FC<Props> = ({ sources, onDelete }) => {
         </div>
       </div>
 
+      {/* Duplicate Report Modal */}
+      {duplicatePairs && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+            <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+              <div>
+                <h3 className="font-bold text-lg text-gray-800">🔍 중복 청크 리포트</h3>
+                <p className="text-xs text-gray-500">서로 다른 소스에서 거의 같은 청크 {duplicatePairs.length}쌍 (유사도 85% 이상)</p>
+              </div>
+              <button 
+                onClick={() => setDuplicatePairs(null)}
+                className="text-gray-500 hover:text-gray-800 text-2xl leading-none"
+              >
+                &times;
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto space-y-3">
+              {duplicatePairs.length === 0 && (
+                <p className="text-center text-gray-500 p-6">중복된 청크가 없습니다. 👍</p>
+              )}
+              {duplicatePairs.map(pair => (
+                <div key={`${pair.a.id}-${pair.b.id}`} className="border rounded-lg p-3 text-sm">
+                  <p className="text-xs font-bold text-orange-600 mb-2">유사도 {Math.round(pair.similarity * 100)}%</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {[pair.a, pair.b].map(chunk => (
+                      <div key={chunk.id} className="bg-gray-50 rounded p-2">
+                        <div className="flex justify-between items-start gap-2 mb-1">
+                          <span className="font-semibold text-gray-800 text-xs">{describeChunk(chunk)}</span>
+                          <button
+                            onClick={() => {
+                              onDelete(chunk.metadata?.sourceId);
+                              setDuplicatePairs(prev => prev && prev.filter(p =>
+                                p.a.metadata?.sourceId !== chunk.metadata?.sourceId && p.b.metadata?.sourceId !== chunk.metadata?.sourceId
+                              ));
+                            }}
+                            className="text-xs text-gray-400 hover:text-red-500 shrink-0"
+                            title="이 소스 전체 삭제"
+                          >
+                            🗑️ 소스 삭제
+                          </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mb-1">{chunk.metadata?.date}</p>
+                        <p className="text-xs text-gray-700 line-clamp-4 whitespace-pre-wrap">{chunk.content.substring(0, 300)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Content Viewer Modal */}
       {viewingSource && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessage, KnowledgeSource } from '../types';
+import { ChatMessage, CitationSource, KnowledgeSource, SearchModeInfo } from '../types';
 import { GeminiService, SearchMode } from '../services/gemini';
+import { markUnsupportedNumbers } from '../utils/grounding';
+import { CATEGORIES, REGIONS } from '../utils/taxonomy';
 
 interface Props {
   geminiService: GeminiService;
@@ -20,33 +22,77 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
   const [isDebugMode, setIsDebugMode] = useState(false);
   const [useWebSearch, setUseWebSearch] = useState(false); 
   const [searchMode, setSearchMode] = useState<SearchMode>('rag');
+  const [serverModes, setServerModes] = useState<SearchModeInfo[]>([]);
+  // 검색 필터 — 지역을 비워 두면 질문에서 지역을 찾는다
+  const [filters, setFilters] = useState({ region: '', category: '' });
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    geminiService.listServerModes().then(setServerModes);
+  }, [geminiService]);
+
   const scrollToBottom = () => messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   useEffect(() => scrollToBottom(), [messages]);
 
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 스트리밍 중인 마지막(model) 메시지를 갱신
+  const updateLastMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+    setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim()) return;
     const userMsg: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    const history = messages.filter(m => m.text).map(m => ({ role: m.role, text: m.text! }));
+    setMessages(prev => [...prev, userMsg, { role: 'model', text: '' }]);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const res = await geminiService.getAnswer(userMsg.text!, systemInstruction, useWebSearch, searchMode);
-      setMessages(prev => [...prev, { role: 'model', text: res.answer, sources: res.sources, webSources: res.webSources, debugSnippets: res.debugSnippets }]);
+      const res = await geminiService.getAnswer(userMsg.text!, systemInstruction, useWebSearch, searchMode, {
+        signal: controller.signal,
+        history,
+        filters,
+        onDelta: (delta) => updateLastMessage(msg => ({ ...msg, text: (msg.text || '') + delta })),
+      });
+      const text = controller.signal.aborted ? `${res.answer}\n\n_⏹️ 답변이 중단되었습니다._` : res.answer;
+      updateLastMessage(() => ({ role: 'model', text, sources: res.sources, webSources: res.webSources, debugSnippets: res.debugSnippets, grounding: res.grounding }));
     } catch (err) {
-      setMessages(prev => [...prev, { role: 'model', text: '오류가 발생했습니다.' }]);
+      updateLastMessage(() => ({ role: 'model', text: '오류가 발생했습니다.' }));
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const getUrl = (idxStr: string, sources?: any[]) => {
+  const handleStop = () => abortRef.current?.abort();
+
+  const getSource = (idxStr: string, sources?: CitationSource[]) => {
       const idx = parseInt(idxStr);
-      const src = sources?.find((s: any) => s.index === idx);
-      return src?.url || null;
+      return sources?.find(s => s.index === idx) || null;
+  };
+
+  // 맨 [[n]] 표시도 링크로 바꿔 아래 a 렌더러가 출처 배지로 그리게 한다
+  const linkCitations = (text: string) => text.replace(/\[\[(\d+)\]\](?!\()/g, '[[$1]](#cite-$1)');
+
+  // 자료에서 확인되지 않은 숫자는 #unsupported 링크로 감싸 강조한다
+  const renderText = (msg: ChatMessage) => {
+    const text = msg.grounding
+      ? markUnsupportedNumbers(msg.text || '', msg.grounding.claims, raw => `[${raw}](#unsupported)`)
+      : msg.text || '';
+    return linkCitations(text);
+  };
+
+  const CLAIM_STATUS_LABELS: Record<string, string> = {
+    supported: '✅ 근거 있음',
+    partial: '🟡 일부만',
+    unsupported: '❌ 근거 없음',
+    unverifiable: '➖ 판정 불가'
   };
 
   return (
@@ -59,7 +105,7 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
       )}
       
       <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-slate-50">
-        {messages.map((msg, i) => (
+        {messages.map((msg, i) => msg.role === 'model' && !msg.text ? null : (
           <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
             <div className={`max-w-[85%] rounded-lg p-4 shadow-sm ${msg.role === 'user' ? 'bg-primary text-white' : 'bg-white border border-gray-100'}`}>
                 {msg.role === 'model' ? (
@@ -72,20 +118,35 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
                                 h3: ({node, ...props}) => <h3 className="text-base font-bold text-gray-700 mt-2" {...props} />,
                                 strong: ({node, ...props}) => <strong className="font-bold text-gray-900 bg-yellow-100 px-1 rounded" {...props} />,
                                 a: ({node, href, children, ...props}) => {
+                                    if (href === '#unsupported') {
+                                        return <mark className="bg-red-100 text-red-700 rounded px-0.5 underline decoration-dotted cursor-help" title="자료에서 확인되지 않은 수치예요. 예약 전에 꼭 확인하세요.">{children}</mark>;
+                                    }
                                     const text = String(children);
                                     // Check for citation like [[1]] or [1]
                                     const match = text.match(/^\[?\[(\d+)\]\]?$/);
                                     if (match) {
-                                        const url = getUrl(match[1], msg.sources);
-                                        // Render clickable badge
+                                        const source = getSource(match[1], msg.sources);
+                                        const url = source?.url && source.url !== '#' ? source.url : null;
+                                        // Render clickable badge + hover preview of the cited passage
                                         return (
-                                            <button 
-                                                onClick={() => url ? window.open(url, '_blank') : alert('URL 정보를 찾을 수 없습니다.')}
-                                                className="inline-flex items-center justify-center mx-1 px-1.5 h-5 text-[10px] font-bold text-white bg-blue-500 rounded hover:bg-blue-600 shadow-sm align-top cursor-pointer transition-transform hover:scale-105"
-                                                title={url || "링크 없음"}
-                                            >
-                                                {match[1]}
-                                            </button>
+                                            <span className="relative inline-block group">
+                                                <button 
+                                                    onClick={() => url ? window.open(url, '_blank') : alert('URL 정보를 찾을 수 없습니다.')}
+                                                    className="inline-flex items-center justify-center mx-1 px-1.5 h-5 text-[10px] font-bold text-white bg-blue-500 rounded hover:bg-blue-600 shadow-sm align-top cursor-pointer transition-transform hover:scale-105"
+                                                >
+                                                    {match[1]}
+                                                </button>
+                                                {source && (
+                                                    <span className="absolute left-0 bottom-full mb-1 z-20 hidden group-hover:block w-72 max-w-[80vw] p-3 bg-white border border-gray-200 rounded-lg shadow-lg text-left">
+                                                        <span className="block text-xs font-bold text-gray-800 mb-1 truncate">{source.title}</span>
+                                                        {source.date && <span className="block text-[10px] text-gray-400 mb-2">📅 {source.date}</span>}
+                                                        {(source.passages || []).map((passage, idx) => (
+                                                            <span key={idx} className="block text-[11px] text-gray-600 whitespace-pre-line max-h-40 overflow-y-auto bg-gray-50 border-l-2 border-blue-400 p-2 mb-1 rounded">{passage}</span>
+                                                        ))}
+                                                        {url && <span className="block text-[10px] text-blue-500 truncate mt-1">{url}</span>}
+                                                    </span>
+                                                )}
+                                            </span>
                                         );
                                     }
                                     return <a href={href} className="text-blue-600 font-medium hover:underline hover:text-blue-800 break-all" target="_blank" rel="noopener noreferrer" {...props}>{children}</a>
@@ -94,12 +155,12 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
                                 th: ({node, ...props}) => <th className="px-3 py-2 bg-gray-100 text-left text-xs font-semibold text-gray-600 uppercase" {...props} />,
                                 td: ({node, ...props}) => <td className="px-3 py-2 border-t border-gray-100 text-sm" {...props} />
                             }}
-                        >{msg.text || ''}</ReactMarkdown>
+                        >{renderText(msg)}</ReactMarkdown>
                         
                         {/* Footer Sources List */}
                         {msg.sources && msg.sources.length > 0 && (
                             <div className="mt-4 pt-3 border-t grid grid-cols-1 sm:grid-cols-2 gap-2">
-                                {msg.sources.map((s: any, idx: number) => (
+                                {msg.sources.map((s, idx) => (
                                     <a key={idx} href={s.url} target="_blank" rel="noopener noreferrer" className="flex items-center p-2 bg-gray-50 border rounded hover:bg-blue-50 transition text-xs group">
                                         <span className="w-5 h-5 bg-blue-500 text-white rounded-full flex items-center justify-center font-bold mr-2 text-[10px] group-hover:bg-blue-600">{s.index}</span>
                                         <span className="truncate flex-1 text-gray-700 font-medium">{s.title}</span>
@@ -107,6 +168,55 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
                                 ))}
                             </div>
                         )}
+                        {/* 🔍 분석 모드: 검색 단계별 점수 */}
+                        {isDebugMode && msg.debugSnippets && msg.debugSnippets.length > 0 && (
+                            <div className="mt-2 pt-2 border-t overflow-x-auto">
+                                <table className="min-w-full text-[10px] text-gray-600">
+                                    <thead>
+                                        <tr className="text-left text-gray-400">
+                                            <th className="pr-2">출처</th>
+                                            <th className="pr-2">벡터</th>
+                                            <th className="pr-2">키워드</th>
+                                            <th className="pr-2">RRF</th>
+                                            <th className="pr-2">재순위</th>
+                                            <th className="pr-2">최신성</th>
+                                            <th>최종</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {msg.debugSnippets.map((d, idx) => (
+                                            <tr key={idx} className="border-t border-gray-100" title={d.text}>
+                                                <td className="pr-2 max-w-[160px] truncate">{d.sourceTitle}</td>
+                                                <td className="pr-2">{d.vectorRank ? `#${d.vectorRank} (${d.vectorScore?.toFixed(3)})` : '-'}</td>
+                                                <td className="pr-2">{d.keywordRank ? `#${d.keywordRank} (${d.keywordScore?.toFixed(2)})` : '-'}</td>
+                                                <td className="pr-2">{d.fusedScore?.toFixed(4) ?? '-'}</td>
+                                                <td className="pr-2">{d.rerankScore?.toFixed(1) ?? '-'}</td>
+                                                <td className="pr-2">{d.recency?.toFixed(2) ?? '-'}</td>
+                                                <td className="font-bold">{d.score.toFixed(3)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        {/* 🔍 분석 모드: 주장별 근거 검증 */}
+                        {isDebugMode && msg.grounding && msg.grounding.claims.length > 0 && (
+                            <div className="mt-2 pt-2 border-t text-[10px] text-gray-600">
+                                <p className="font-bold mb-1">
+                                    🧾 근거 검증 ({msg.grounding.method === 'llm' ? 'LLM 판정' : '숫자 대조'})
+                                    {msg.grounding.supportRatio !== null && ` · 근거 비율 ${(msg.grounding.supportRatio * 100).toFixed(0)}%`}
+                                    {msg.grounding.action === 'regenerated' && ' · 재생성됨'}
+                                </p>
+                                <ul className="space-y-0.5">
+                                    {msg.grounding.claims.map(claim => (
+                                        <li key={claim.id} className="flex gap-2">
+                                            <span className="shrink-0">{CLAIM_STATUS_LABELS[claim.status]}</span>
+                                            <span className="truncate" title={claim.text}>{claim.text}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                         {msg.webSources && msg.webSources.length > 0 && (
                             <div className="mt-2 pt-2 border-t text-xs text-gray-500">
                                 <p className="font-bold mb-1">🌐 웹 검색 출처:</p>
@@ -124,7 +234,7 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
             </div>
           </div>
         ))}
-        {isLoading && <div className="text-center text-xs text-gray-400 animate-pulse">답변 생성 중...</div>}
+        {isLoading && !messages[messages.length - 1]?.text && <div className="text-center text-xs text-gray-400 animate-pulse">답변 생성 중...</div>}
         <div ref={messagesEndRef} />
       </div>
 
@@ -136,8 +246,26 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
                 className="border rounded p-1 bg-gray-50 font-medium"
             >
                 <option value="rag">⚡ 하이브리드 (빠름)</option>
-                <option value="full-text">🔥 통암기 (정확)</option>
-                <option value="file-api">📁 구글 파일 API (실험)</option>
+                {serverModes.map(mode => (
+                    <option key={mode.id} value={mode.id} title={mode.description}>🖥️ {mode.label}</option>
+                ))}
+            </select>
+            <select
+                value={filters.region}
+                onChange={(e) => setFilters(prev => ({ ...prev, region: e.target.value }))}
+                className="border rounded p-1 bg-gray-50"
+                title="지역을 고르면 그 지역 자료만 검색합니다"
+            >
+                <option value="">📍 지역 자동</option>
+                {REGIONS.map(region => <option key={region.id} value={region.id}>{region.id}</option>)}
+            </select>
+            <select
+                value={filters.category}
+                onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value }))}
+                className="border rounded p-1 bg-gray-50"
+            >
+                <option value="">🗂️ 전체 주제</option>
+                {CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.id}</option>)}
             </select>
             <label className="flex items-center cursor-pointer select-none ml-2">
                 <input type="checkbox" checked={useWebSearch} onChange={e => setUseWebSearch(e.target.checked)} className="mr-1" />
@@ -151,7 +279,11 @@ const RAGChat: React.FC<Props> = ({ geminiService, systemInstruction, isEmbed =
                 placeholder="질문을 입력하세요..." 
                 disabled={isLoading}
             />
-            <button type="submit" disabled={isLoading || !input} className="bg-primary text-white px-5 py-3 rounded-lg font-bold hover:bg-teal-800 disabled:opacity-50">전송</button>
+            {isLoading ? (
+                <button type="button" onClick={handleStop} className="bg-gray-500 text-white px-5 py-3 rounded-lg font-bold hover:bg-gray-600">⏹️ 중지</button>
+            ) : (
+                <button type="submit" disabled={!input} className="bg-primary text-white px-5 py-3 rounded-lg font-bold hover:bg-teal-800 disabled:opacity-50">전송</button>
+            )}
         </form>
       </div>
     </div>
@@ -0,0 +1,134 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+// ===========================
+// LLM / 임베딩 / 저장소 검색 녹화·재생 (오프라인 eval)
+// ===========================
+// record: 실제 클라이언트를 호출하고 응답을 요청 해시별로 저장
+// replay: 저장된 응답만 사용 (네트워크/API 키 없이 CI에서 실행)
+// 파일 형식: { recordedAt, settings, prompts, calls: { [hash]: { method, preview, response } } }
+
+export class FixtureMissingError extends Error {
+  constructor(method, preview) {
+    super(`녹화된 응답이 없습니다 (${method}: ${preview}) — --record 로 다시 녹화하세요`);
+    this.name = "FixtureMissingError";
+  }
+}
+
+const requestKey = (method, request) => {
+  const { signal, ...rest } = typeof request === "object" && request ? request : { input: request };
+  const stable = JSON.stringify({ method, request: rest });
+  return createHash("sha256").update(stable).digest("hex").slice(0, 24);
+};
+
+// 로그/리뷰용으로 요청의 마지막 텍스트 앞부분만 남긴다
+const previewOf = (request) => {
+  const text = typeof request === "string"
+    ? request
+    : request?.messages?.[request.messages.length - 1]?.text || JSON.stringify(request);
+  return text.replace(/\s+/g, " ").slice(0, 80);
+};
+
+export function openFixtures(path, { record }) {
+  const file = existsSync(path)
+    ? JSON.parse(readFileSync(path, "utf8"))
+    : { recordedAt: null, settings: {}, prompts: {}, calls: {} };
+  if (!record && !existsSync(path)) {
+    throw new Error(`fixture 파일이 없습니다: ${path} (--record 로 먼저 녹화하세요)`);
+  }
+  if (record) file.recordedAt = new Date().toISOString();
+
+  // 같은 요청을 여러 모드가 공유할 수 있으므로 (질문 재작성 등) 해시 하나에 응답 하나
+  const call = async (method, request, live) => {
+    const key = requestKey(method, request);
+    if (!record) {
+      const hit = file.calls[key];
+      if (!hit) throw new FixtureMissingError(method, previewOf(request));
+      return hit.response;
+    }
+    const response = await live();
+    file.calls[key] = { method, preview: previewOf(request), response };
+    return response;
+  };
+
+  return {
+    file,
+
+    /** LLMProvider 대체: 같은 인터페이스(generate / stream)로 감싼다 */
+    wrapLLM(llm) {
+      return {
+        name: llm?.name || "fixture",
+        chatModel: llm?.chatModel || "fixture",
+        capabilities: llm?.capabilities || { grounding: true, functions: true, json: true },
+
+        generate: (request) =>
+          call("generate", request, () => llm.generate(request)),
+
+        // 스트림은 한 덩어리로 녹화하고 재생할 때 조각 하나짜리 스트림으로 돌려준다
+        async *stream(request) {
+          const response = await call("stream", request, async () => {
+            let text = "";
+            let grounding = [];
+            for await (const chunk of llm.stream(request)) {
+              text += chunk.text || "";
+              if (chunk.grounding?.length) grounding = chunk.grounding;
+            }
+            return { text, grounding };
+          });
+          yield response;
+        },
+      };
+    },
+
+    /** EmbeddingProvider 대체 */
+    wrapEmbedder(embedder) {
+      return {
+        name: embedder?.name || "fixture",
+        embeddingModel: embedder?.embeddingModel || "fixture",
+        embed: (text) => call("embed", text, () => embedder.embed(text)),
+      };
+    },
+
+    /** KnowledgeStore 대체: 검색 전략이 쓰는 읽기 메서드만 녹화한다 */
+    wrapStore(store) {
+      const unsupported = (method) => () => {
+        throw new Error(`eval fixture 모드에서는 store.${method}() 를 지원하지 않습니다 (검색 메서드만 녹화)`);
+      };
+      return {
+        name: store?.name || "fixture",
+        vectorSearch: (embedding, options) =>
+          call("store:vectorSearch", { embedding, options }, () => store.vectorSearch(embedding, options)),
+        // 필터가 없을 때의 키는 필터 도입 전 녹화와 같다
+        keywordSearch: (terms, weights, limit, filter = null) =>
+          call("store:keywordSearch", { terms, weights, limit, ...(filter && { filter }) }, () => store.keywordSearch(terms, weights, limit, filter)),
+        searchFacts: (query) =>
+          call("store:searchFacts", query, () => store.searchFacts(query)),
+        insertChunks: unsupported("insertChunks"),
+        replaceSource: unsupported("replaceSource"),
+        findChunksByMetadata: unsupported("findChunksByMetadata"),
+        listChunks: unsupported("listChunks"),
+        listSources: unsupported("listSources"),
+        getSourceChunks: unsupported("getSourceChunks"),
+        updateChunks: unsupported("updateChunks"),
+        deleteSource: unsupported("deleteSource"),
+        deleteChunk: unsupported("deleteChunk"),
+        replaceFacts: unsupported("replaceFacts"),
+        listEmbeddingModels: unsupported("listEmbeddingModels"),
+        saveShadowEmbeddings: unsupported("saveShadowEmbeddings"),
+        listShadowEmbeddingIds: unsupported("listShadowEmbeddingIds"),
+        shadowVectorSearch: unsupported("shadowVectorSearch"),
+        cutoverEmbeddings: unsupported("cutoverEmbeddings"),
+        deleteShadowEmbeddings: unsupported("deleteShadowEmbeddings"),
+        getVersion: unsupported("getVersion"),
+        getSettings: unsupported("getSettings"),
+        setSetting: unsupported("setSetting"),
+        listPromptVersions: unsupported("listPromptVersions"),
+        addPromptVersion: unsupported("addPromptVersion"),
+      };
+    },
+
+    save() {
+      if (record) writeFileSync(path, JSON.stringify(file, null, 2) + "\n");
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { normalizeUrl } from "../utils/dedup.js";
+
+// ===========================
+// eval 지표 계산
+// ===========================
+// URL은 normalizeUrl 로 비교한다 (youtu.be/ID?t=90 과 watch?v=ID 는 같은 출처).
+
+const MARKDOWN_LINK = /\[[^\]]*\]\((https?:\/\/[^)\s]+)\)/g;
+const BARE_URL = /(?<!\()https?:\/\/[^\s)\]>"']+/g;
+
+export const uniqueUrls = (urls) => [...new Set(urls.filter(Boolean).map(normalizeUrl))];
+
+// 답변 본문에서 인용된 URL (마크다운 링크 + 맨 URL)
+export function extractCitedUrls(answer) {
+  const urls = [...(answer || "").matchAll(MARKDOWN_LINK)].map((match) => match[1]);
+  urls.push(...((answer || "").match(BARE_URL) || []));
+  return uniqueUrls(urls);
+}
+
+// 기대 출처 중 상위 k개 검색 결과에 들어온 비율
+export function recallAtK(retrievedUrls, expectedUrls, k) {
+  if (expectedUrls.length === 0) return null;
+  const top = new Set(retrievedUrls.slice(0, k));
+  return expectedUrls.filter((url) => top.has(url)).length / expectedUrls.length;
+}
+
+// 첫 번째 기대 출처가 나온 순위의 역수 (없으면 0)
+export function reciprocalRank(retrievedUrls, expectedUrls) {
+  if (expectedUrls.length === 0) return null;
+  const expected = new Set(expectedUrls);
+  const index = retrievedUrls.findIndex((url) => expected.has(url));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * valid: 인용한 URL 중 실제 검색/출처 목록에 있던 비율 (없는 URL = 환각 인용)
+ * recall: 기대 출처 중 답변에서 인용한 비율
+ */
+export function citationScores(citedUrls, retrievedUrls, expectedUrls) {
+  const retrieved = new Set(retrievedUrls);
+  const cited = new Set(citedUrls);
+  return {
+    valid: citedUrls.length === 0 ? null : citedUrls.filter((url) => retrieved.has(url)).length / citedUrls.length,
+    recall: expectedUrls.length === 0 ? null : expectedUrls.filter((url) => cited.has(url)).length / expectedUrls.length,
+  };
+}
+
+// 공백/쉼표/대소문자 차이는 무시 ("3,500 페소" == "3500페소")
+const normalizeFact = (text) => (text || "").toLowerCase().replace(/[\s,]/g, "");
+
+/**
+ * 핵심 사실이 답변에 들어간 비율. 사실 하나는 문자열 또는 대체 표현 배열.
+ *
+ * @param {string} answer
+ * @param {(string | string[])[]} keyFacts
+ */
+export function factCoverage(answer, keyFacts) {
+  if (keyFacts.length === 0) return null;
+  const normalized = normalizeFact(answer);
+  const covered = keyFacts.filter((fact) =>
+    (Array.isArray(fact) ? fact : [fact]).some((variant) => normalized.includes(normalizeFact(variant)))
+  );
+  return covered.length / keyFacts.length;
+}
+
+// null(해당 없음)을 뺀 평균
+export const mean = (values) => {
+  const present = values.filter((value) => typeof value === "number");
+  return present.length === 0 ? null : present.reduce((sum, value) => sum + value, 0) / present.length;
+};
+
+export const percentile = (values, p) => {
+  const sorted = values.filter((value) => typeof value === "number").sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
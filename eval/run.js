@@ -0,0 +1,234 @@
+// ===========================
+// 검색 모드 오프라인 평가 (eval)
+// ===========================
+// 골든셋의 질문마다 등록된 검색 모드를 모두 실행해 모드별 지표를 비교한다.
+//
+//   npm run eval -- eval/golden.example.json                       # 실제 LLM/저장소 호출 (LLM_PROVIDER, KNOWLEDGE_STORE 기준)
+//   npm run eval -- golden.json --fixtures eval/fixtures/run.json --record   # 호출 결과 녹화
+//   npm run eval -- golden.json --fixtures eval/fixtures/run.json            # 녹화본으로 오프라인 재생 (CI)
+//
+// 옵션: --modes keyword_all_docs,hybrid_chunk  --k 5  --web  --out report.json
+// YAML 골든셋(.yaml/.yml)은 `yaml` 패키지가 설치되어 있어야 한다.
+
+import dotenv from "dotenv";
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { performance } from "node:perf_hooks";
+import { createProviders, providerConfigFromEnv } from "../providers/index.js";
+import { createKnowledgeStore, storeConfigFromEnv } from "../store/index.js";
+import { jsonFileStorage } from "../store/jsonFile.js";
+import { generateAnswer } from "../server/generation.js";
+import { runRetrieval } from "../server/pipeline.js";
+import { getReinforcement, getSystemPrompt, loadPrompts, setActivePrompt } from "../server/prompts.js";
+import { getStrategy, listStrategies } from "../server/strategies/index.js";
+import { RECENCY_DEFAULTS } from "../utils/freshness.js";
+import { FixtureMissingError, openFixtures } from "./fixtures.js";
+import {
+  citationScores,
+  extractCitedUrls,
+  factCoverage,
+  mean,
+  percentile,
+  reciprocalRank,
+  recallAtK,
+  uniqueUrls,
+} from "./metrics.js";
+
+dotenv.config();
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    modes: { type: "string" },
+    k: { type: "string" },
+    fixtures: { type: "string" },
+    record: { type: "boolean", default: false },
+    web: { type: "boolean", default: false },
+    out: { type: "string" },
+  },
+});
+
+/**
+ * @typedef {Object} GoldenQuestion
+ * @property {string} id
+ * @property {string} question
+ * @property {{ role: 'user' | 'model', text: string }[]} [history]
+ * @property {string[]} [expectedSources]     답변 근거가 되어야 하는 원본 URL
+ * @property {(string | string[])[]} [keyFacts] 답변에 들어가야 하는 사실 (배열 = 대체 표현)
+ * @property {{ region?: string, category?: string, tags?: string[] }} [filters]   채팅 검색 필터 (utils/taxonomy.js)
+ */
+
+async function loadGoldenSet(path) {
+  const text = readFileSync(path, "utf8");
+  if ([".yaml", ".yml"].includes(extname(path).toLowerCase())) {
+    let yaml;
+    try {
+      yaml = await import("yaml");
+    } catch {
+      throw new Error("YAML 골든셋을 읽으려면 `npm install --save-dev yaml` 이 필요합니다 (또는 JSON 사용)");
+    }
+    return yaml.parse(text);
+  }
+  return JSON.parse(text);
+}
+
+// 실제 클라이언트 (replay 모드에서는 만들지 않는다 → API 키 불필요)
+function createLiveClients() {
+  const storeConfig = storeConfigFromEnv(process.env);
+  return {
+    ...createProviders(providerConfigFromEnv(process.env)),
+    store: createKnowledgeStore({ ...storeConfig, local: { ...storeConfig.local, storage: jsonFileStorage(storeConfig.local.path) } }),
+  };
+}
+
+async function loadLiveSettings(store) {
+  const settings = await store.getSettings(["file_search_store_name"]);
+  return { fileSearchStoreName: settings.file_search_store_name || null };
+}
+
+async function evaluateQuestion({ clients, strategy, item, k, settings, recency }) {
+  const expected = uniqueUrls(item.expectedSources || []);
+  const started = performance.now();
+
+  const { retrieval, chatHistory } = await runRetrieval({
+    ...clients,
+    strategy,
+    query: item.question,
+    history: item.history || [],
+    useWebSearch: args.web,
+    settings,
+    recency,
+    filters: item.filters || null,
+  });
+  const retrievedAt = performance.now();
+
+  const { answer, rawAnswer, sources } = await generateAnswer({
+    llm: clients.llm,
+    query: item.question,
+    retrieval,
+    history: chatHistory,
+    useWebSearch: args.web,
+    systemPrompt: getSystemPrompt(),
+    reinforcement: getReinforcement(),
+  });
+  const finished = performance.now();
+
+  // 청크가 없는 모드(File Search)는 grounding 출처 순서를 검색 순위로 본다
+  const retrieved = retrieval.chunks.length > 0
+    ? uniqueUrls(retrieval.chunks.map((chunk) => chunk.metadata?.url))
+    : uniqueUrls(sources.map((source) => source.url));
+  // 인용 = 모델이 직접 쓴 링크 (검증 전 — 없는 URL도 세어야 citationValid가 의미 있다) + [[n]]으로 인용한 출처
+  const cited = uniqueUrls([...extractCitedUrls(rawAnswer), ...sources.map((s) => s.url)]);
+  const citations = citationScores(cited, uniqueUrls([...retrieved, ...sources.map((s) => s.url)]), expected);
+
+  return {
+    id: item.id,
+    recallAtK: recallAtK(retrieved, expected, k),
+    mrr: reciprocalRank(retrieved, expected),
+    citationValid: citations.valid,
+    citationRecall: citations.recall,
+    factCoverage: factCoverage(answer, item.keyFacts || []),
+    retrievalMs: Math.round(retrievedAt - started),
+    totalMs: Math.round(finished - started),
+    retrieved: retrieved.slice(0, k),
+  };
+}
+
+function summarize(results) {
+  const ok = results.filter((result) => !result.error);
+  const round = (value, digits = 3) => (value === null ? null : Number(value.toFixed(digits)));
+  return {
+    questions: results.length,
+    errors: results.length - ok.length,
+    recallAtK: round(mean(ok.map((r) => r.recallAtK))),
+    mrr: round(mean(ok.map((r) => r.mrr))),
+    citationValid: round(mean(ok.map((r) => r.citationValid))),
+    citationRecall: round(mean(ok.map((r) => r.citationRecall))),
+    factCoverage: round(mean(ok.map((r) => r.factCoverage))),
+    latencyAvgMs: round(mean(ok.map((r) => r.totalMs)), 0),
+    latencyP95Ms: percentile(ok.map((r) => r.totalMs), 95),
+    retrievalAvgMs: round(mean(ok.map((r) => r.retrievalMs)), 0),
+  };
+}
+
+async function main() {
+  const goldenPath = positionals[0] || "eval/golden.example.json";
+  const golden = await loadGoldenSet(goldenPath);
+  const questions = golden.questions || [];
+  const k = parseInt(args.k || golden.k || 5, 10);
+
+  const modeIds = args.modes ? args.modes.split(",").map((id) => id.trim()) : listStrategies().map((mode) => mode.id);
+  const modes = modeIds.map((id) => {
+    const strategy = getStrategy(id);
+    if (!strategy) throw new Error(`알 수 없는 검색 모드: ${id}`);
+    return strategy;
+  });
+
+  // 클라이언트 구성: live / record (live + 녹화) / replay (녹화본만)
+  const replay = Boolean(args.fixtures) && !args.record;
+  const live = replay ? { llm: null, embedder: null, store: null } : createLiveClients();
+  const fixtures = args.fixtures ? openFixtures(args.fixtures, { record: args.record }) : null;
+  const clients = fixtures
+    ? {
+      llm: fixtures.wrapLLM(live.llm),
+      embedder: fixtures.wrapEmbedder(live.embedder),
+      store: fixtures.wrapStore(live.store),
+    }
+    : live;
+
+  const settings = replay ? fixtures.file.settings : await loadLiveSettings(live.store);
+  if (fixtures && args.record) fixtures.file.settings = settings;
+
+  // 프롬프트: live/record는 저장소에 적용된 버전, replay는 녹화 당시 프롬프트 (요청 해시가 같아야 하므로)
+  if (replay) {
+    Object.entries(fixtures.file.prompts || {}).forEach(([kind, content]) => {
+      setActivePrompt(kind, { id: 0, kind, version: 0, content, author: "", note: "eval fixture", createdAt: fixtures.file.recordedAt });
+    });
+  } else {
+    await loadPrompts(live.store);
+  }
+  if (fixtures && args.record) fixtures.file.prompts = { system: getSystemPrompt(), reinforcement: getReinforcement() };
+
+  // 최신성 계수가 날짜에 따라 변하지 않도록 재생 시에는 녹화 시각을 기준으로 계산
+  const recency = {
+    weight: parseFloat(process.env.RECENCY_WEIGHT) || RECENCY_DEFAULTS.weight,
+    halfLifeDays: parseFloat(process.env.RECENCY_HALF_LIFE_DAYS) || RECENCY_DEFAULTS.halfLifeDays,
+    now: fixtures?.file.recordedAt ? new Date(fixtures.file.recordedAt) : new Date(),
+  };
+
+  console.log(`\n🧪 eval: ${questions.length}개 질문 × ${modes.length}개 모드 (k=${k}, ${replay ? "replay" : args.record ? "record" : "live"})`);
+
+  const report = { goldenSet: goldenPath, k, mode: replay ? "replay" : args.record ? "record" : "live", modes: {} };
+  let missingFixtures = 0;
+
+  for (const strategy of modes) {
+    const results = [];
+    for (const item of questions) {
+      try {
+        results.push(await evaluateQuestion({ clients, strategy, item, k, settings, recency }));
+      } catch (err) {
+        if (err instanceof FixtureMissingError) missingFixtures++;
+        console.error(`❌ [${strategy.id}] ${item.id}: ${err.message}`);
+        results.push({ id: item.id, error: err.message });
+      }
+    }
+    report.modes[strategy.id] = { label: strategy.label, summary: summarize(results), results };
+  }
+
+  fixtures?.save();
+
+  console.table(Object.fromEntries(Object.entries(report.modes).map(([id, mode]) => [id, mode.summary])));
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`📄 리포트 저장: ${args.out}`);
+  }
+
+  // CI: 녹화본이 모자라면 실패로 처리 (조용히 빈 결과가 나오지 않도록)
+  if (missingFixtures > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error("❌ eval 실패:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+import { GoogleGenAI } from '@google/genai';
+
+// ===========================
+// Gemini 공급자 (@google/genai — 브라우저/Node 공용 SDK)
+// ===========================
+
+export const GEMINI_CHAT_MODEL = 'gemini-2.5-flash';
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// SDK 응답(또는 스트림 조각)의 텍스트. thinking 파트 등으로 .text가 비는 경우 parts를 직접 합친다.
+const responseText = (result) => {
+  if (typeof result?.text === 'string' && result.text) return result.text;
+  const parts = result?.candidates?.[0]?.content?.parts || [];
+  return parts.filter((part) => !part.thought).map((part) => part.text || '').join('');
+};
+
+/**
+ * groundingMetadata.groundingChunks -> [{ title, url, text }]
+ * (웹 검색은 chunk.web, File Search는 chunk.retrievedContext)
+ *
+ * @returns {import('./index.js').GroundingChunk[]}
+ */
+const groundingChunks = (result) =>
+  (result?.candidates?.[0]?.groundingMetadata?.groundingChunks || []).map((chunk) => {
+    const source = chunk.web || chunk.retrievedContext || {};
+    return { title: source.title || '', url: source.uri || '', text: source.text || '' };
+  });
+
+/** @returns {import('./index.js').TokenUsage | undefined} */
+const tokenUsage = (result) => {
+  const total = result?.usageMetadata?.totalTokenCount;
+  return typeof total === 'number' ? { totalTokens: total } : undefined;
+};
+
+/**
+ * @param {{ apiKey?: string, chatModel?: string, embeddingModel?: string }} options
+ * @returns {import('./index.js').LLMProvider & import('./index.js').EmbeddingProvider}
+ */
+export function createGeminiProvider({ apiKey, chatModel, embeddingModel } = {}) {
+  const client = new GoogleGenAI({ apiKey: apiKey || '' });
+  const model = chatModel || GEMINI_CHAT_MODEL;
+
+  /** @param {import('./index.js').GenerateRequest} request */
+  const toSdkRequest = (request) => {
+    const tools = [];
+    if (request.fileSearchStores?.length) tools.push({ fileSearch: { fileSearchStoreNames: request.fileSearchStores } });
+    if (request.googleSearch) tools.push({ googleSearch: {} });
+    if (request.functions?.length) tools.push({ functionDeclarations: request.functions });
+
+    return {
+      model: request.model || model,
+      contents: request.messages.map((turn) => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      config: {
+        systemInstruction: request.system,
+        temperature: request.temperature,
+        topP: request.topP,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: request.json ? 'application/json' : undefined,
+        tools: tools.length > 0 ? tools : undefined,
+        thinkingConfig: request.disableThinking ? { thinkingBudget: 0 } : undefined,
+        abortSignal: request.signal,
+      },
+    };
+  };
+
+  return {
+    name: 'gemini',
+    chatModel: model,
+    embeddingModel: embeddingModel || GEMINI_EMBEDDING_MODEL,
+    capabilities: { grounding: true, functions: true, json: true },
+
+    async generate(request) {
+      const result = await client.models.generateContent(toSdkRequest(request));
+      return {
+        text: responseText(result),
+        functionCalls: (result.functionCalls || []).map((call) => ({ name: call.name, args: call.args || {} })),
+        grounding: groundingChunks(result),
+        usage: tokenUsage(result),
+      };
+    },
+
+    async *stream(request) {
+      const stream = await client.models.generateContentStream(toSdkRequest(request));
+      for await (const chunk of stream) {
+        const grounding = groundingChunks(chunk);
+        // usageMetadata는 누적값 — 마지막 청크가 전체 사용량
+        yield { text: responseText(chunk), grounding: grounding.length > 0 ? grounding : undefined, usage: tokenUsage(chunk) };
+      }
+    },
+
+    async embed(text) {
+      const result = await client.models.embedContent({
+        model: embeddingModel || GEMINI_EMBEDDING_MODEL,
+        contents: text.replace(/\n/g, ' '),
+      });
+      const values = result.embeddings?.[0]?.values || [];
+      if (values.length === 0) throw new Error('빈 임베딩 응답');
+      return values;
+    },
+  };
+}
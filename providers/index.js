@@ -0,0 +1,135 @@
+// LLM / 임베딩 공급자 추상화 — 클라이언트(GeminiService)와 server.js가 같은 인터페이스를 사용한다.
+// 백엔드: gemini (@google/genai), openai (OpenAI 호환 API: OpenAI, Ollama, llama.cpp 서버 등), mock (결정적 테스트용)
+
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+import { createMockProvider } from './mock.js';
+
+/**
+ * @typedef {Object} ChatTurn
+ * @property {'user' | 'model'} role
+ * @property {string} text
+ */
+
+/**
+ * @typedef {Object} FunctionDeclaration
+ * @property {string} name
+ * @property {string} description
+ * @property {Object} parameters     JSON Schema
+ */
+
+/**
+ * @typedef {Object} GenerateRequest
+ * @property {ChatTurn[]} messages               이전 대화 + 마지막 user 프롬프트
+ * @property {string} [system]                   시스템 프롬프트
+ * @property {string} [model]                    공급자 기본 모델 대신 사용할 모델
+ * @property {number} [temperature]
+ * @property {number} [topP]
+ * @property {number} [maxTokens]
+ * @property {boolean} [json]                    JSON 응답 강제
+ * @property {FunctionDeclaration[]} [functions] 함수 호출 후보
+ * @property {boolean} [googleSearch]            웹 검색 grounding (지원하는 공급자만)
+ * @property {string[]} [fileSearchStores]       File Search grounding (지원하는 공급자만)
+ * @property {boolean} [disableThinking]         추론(thinking) 토큰을 쓰지 않음 — 짧은 보조 호출용
+ * @property {AbortSignal} [signal]
+ */
+
+/**
+ * @typedef {Object} GroundingChunk
+ * @property {string} title
+ * @property {string} url
+ * @property {string} text       File Search 청크 본문 (웹 검색 결과는 빈 문자열)
+ */
+
+/**
+ * @typedef {Object} GenerateResult
+ * @property {string} text
+ * @property {{ name: string, args: Object }[]} functionCalls
+ * @property {GroundingChunk[]} grounding
+ * @property {TokenUsage} [usage]   공급자가 알려줄 때만 (없으면 호출 측이 추정)
+ */
+
+/**
+ * @typedef {Object} TokenUsage
+ * @property {number} totalTokens   입력 + 출력
+ */
+
+/**
+ * @typedef {Object} LLMProvider
+ * @property {string} name
+ * @property {string} chatModel
+ * @property {{ grounding: boolean, functions: boolean, json: boolean }} capabilities
+ * @property {(request: GenerateRequest) => Promise<GenerateResult>} generate
+ * @property {(request: GenerateRequest) => AsyncIterable<{ text: string, grounding?: GroundingChunk[], usage?: TokenUsage }>} stream
+ */
+
+/**
+ * @typedef {Object} EmbeddingProvider
+ * @property {string} name
+ * @property {string} embeddingModel
+ * @property {(text: string) => Promise<number[]>} embed   실패하거나 빈 벡터면 throw
+ */
+
+/**
+ * @typedef {Object} ProviderConfig
+ * @property {'gemini' | 'openai' | 'mock'} llm
+ * @property {'gemini' | 'openai' | 'mock'} embedding
+ * @property {string} [chatModel]
+ * @property {string} [embeddingModel]
+ * @property {{ apiKey?: string }} gemini
+ * @property {{ baseUrl?: string, apiKey?: string }} openai
+ */
+
+export const PROVIDERS = ['gemini', 'openai', 'mock'];
+
+/**
+ * Reads provider settings from an env-like object. The browser passes
+ * import.meta.env with prefix 'VITE_', the server passes process.env.
+ *
+ * LLM_PROVIDER / EMBEDDING_PROVIDER (default gemini; embedding follows LLM),
+ * LLM_MODEL / EMBEDDING_MODEL, API_KEY | GEMINI_API_KEY, OPENAI_BASE_URL / OPENAI_API_KEY
+ *
+ * @param {Record<string, any>} env
+ * @param {string} [prefix]
+ * @returns {ProviderConfig}
+ */
+export function providerConfigFromEnv(env, prefix = '') {
+  const read = (key) => env[prefix + key] || undefined;
+  const llm = read('LLM_PROVIDER') || 'gemini';
+  return {
+    llm,
+    embedding: read('EMBEDDING_PROVIDER') || llm,
+    chatModel: read('LLM_MODEL'),
+    embeddingModel: read('EMBEDDING_MODEL'),
+    gemini: { apiKey: read('API_KEY') || read('GEMINI_API_KEY') },
+    openai: { baseUrl: read('OPENAI_BASE_URL'), apiKey: read('OPENAI_API_KEY') },
+  };
+}
+
+const createBackend = (name, config, models) => {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({ ...config.gemini, ...models });
+    case 'openai':
+      return createOpenAICompatibleProvider({ ...config.openai, ...models });
+    case 'mock':
+      return createMockProvider(models);
+    default:
+      throw new Error(`알 수 없는 공급자: ${name} (${PROVIDERS.join(' | ')})`);
+  }
+};
+
+/**
+ * Builds the LLM and embedding providers. They may be different backends
+ * (e.g. a local Ollama chat model with Gemini embeddings).
+ *
+ * @param {ProviderConfig} config
+ * @returns {{ llm: LLMProvider, embedder: EmbeddingProvider }}
+ */
+export function createProviders(config) {
+  const llm = createBackend(config.llm, config, { chatModel: config.chatModel });
+  const embedder = config.embedding === config.llm && !config.embeddingModel
+    ? llm
+    : createBackend(config.embedding, config, { embeddingModel: config.embeddingModel });
+  return { llm, embedder };
+}
@@ -0,0 +1,88 @@
+// ===========================
+// Mock 공급자 (네트워크 없이 결정적으로 동작 — 로컬 개발/eval/CI용)
+// ===========================
+// 같은 입력이면 항상 같은 답과 같은 벡터를 돌려준다.
+
+export const MOCK_DIMENSIONS = 768;
+
+// 32-bit FNV-1a
+const hash = (text) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Default replies: a function call to the first declared function with empty args,
+ * "{}" for JSON requests, otherwise an echo of the last user message.
+ *
+ * @param {import('./index.js').GenerateRequest} request
+ * @returns {import('./index.js').GenerateResult}
+ */
+const defaultRespond = (request) => {
+  const last = request.messages[request.messages.length - 1]?.text || '';
+  if (request.functions?.length) {
+    return { text: '', functionCalls: [{ name: request.functions[0].name, args: {} }], grounding: [] };
+  }
+  return { text: request.json ? '{}' : `[mock] ${last.slice(0, 200)}`, functionCalls: [], grounding: [] };
+};
+
+/**
+ * Hashed bag of character bigrams, L2-normalised: texts sharing words get a
+ * positive cosine similarity, so vector search behaves sensibly on mock data.
+ *
+ * @param {string} text
+ * @param {number} dimensions
+ * @returns {number[]}
+ */
+export const mockEmbedding = (text, dimensions = MOCK_DIMENSIONS) => {
+  const vector = new Array(dimensions).fill(0);
+  const normalized = (text || '').toLowerCase().replace(/\s+/g, ' ');
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const h = hash(normalized.substring(i, i + 2));
+    vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+};
+
+/**
+ * @param {{ chatModel?: string, embeddingModel?: string, dimensions?: number,
+ *           respond?: (request: import('./index.js').GenerateRequest) => import('./index.js').GenerateResult }} [options]
+ * @returns {import('./index.js').LLMProvider & import('./index.js').EmbeddingProvider}
+ */
+export function createMockProvider({ chatModel, embeddingModel, dimensions = MOCK_DIMENSIONS, respond = defaultRespond } = {}) {
+  const checkAborted = (signal) => {
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+  };
+
+  return {
+    name: 'mock',
+    chatModel: chatModel || 'mock-chat',
+    embeddingModel: embeddingModel || `mock-embedding-${dimensions}`,
+    capabilities: { grounding: false, functions: true, json: true },
+
+    async generate(request) {
+      checkAborted(request.signal);
+      return respond(request);
+    },
+
+    // 단어 단위로 쪼개서 흘려보낸다
+    async *stream(request) {
+      const { text, grounding } = respond(request);
+      const pieces = text.match(/\S+\s*/g) || [];
+      for (const piece of pieces) {
+        checkAborted(request.signal);
+        yield { text: piece };
+      }
+      if (grounding.length > 0) yield { text: '', grounding };
+    },
+
+    async embed(text) {
+      return mockEmbedding(text, dimensions);
+    },
+  };
+}
@@ -0,0 +1,112 @@
+// ===========================
+// OpenAI 호환 공급자 (OpenAI, Ollama, llama.cpp server, vLLM 등 /v1/chat/completions 구현체)
+// ===========================
+
+export const OPENAI_DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+export const OPENAI_CHAT_MODEL = 'llama3.1';
+export const OPENAI_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * @param {{ baseUrl?: string, apiKey?: string, chatModel?: string, embeddingModel?: string }} options
+ * @returns {import('./index.js').LLMProvider & import('./index.js').EmbeddingProvider}
+ */
+export function createOpenAICompatibleProvider({ baseUrl, apiKey, chatModel, embeddingModel } = {}) {
+  const root = (baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/$/, '');
+  const model = chatModel || OPENAI_CHAT_MODEL;
+  let warnedGrounding = false;
+
+  const post = async (path, body, signal) => {
+    const res = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      throw new Error(`OpenAI 호환 API 오류 (${res.status}): ${await res.text()}`);
+    }
+    return res;
+  };
+
+  /** @param {import('./index.js').GenerateRequest} request */
+  const toBody = (request) => {
+    // 웹 검색 / File Search grounding은 Gemini 전용 → 무시하고 한 번만 경고
+    if ((request.googleSearch || request.fileSearchStores?.length) && !warnedGrounding) {
+      console.warn(`⚠️ ${root}: grounding(웹 검색/File Search)은 지원하지 않아 무시합니다`);
+      warnedGrounding = true;
+    }
+
+    return {
+      model: request.model || model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages.map((turn) => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+      ],
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      tools: request.functions?.map((fn) => ({ type: 'function', function: fn })),
+    };
+  };
+
+  return {
+    name: 'openai',
+    chatModel: model,
+    embeddingModel: embeddingModel || OPENAI_EMBEDDING_MODEL,
+    capabilities: { grounding: false, functions: true, json: true },
+
+    async generate(request) {
+      const res = await post('/chat/completions', toBody(request), request.signal);
+      const body = await res.json();
+      const message = body.choices?.[0]?.message || {};
+      return {
+        text: message.content || '',
+        functionCalls: (message.tool_calls || []).map((call) => {
+          let args = {};
+          try {
+            args = JSON.parse(call.function?.arguments || '{}');
+          } catch {
+            // 일부 로컬 모델은 arguments를 깨진 JSON으로 돌려준다
+          }
+          return { name: call.function?.name, args };
+        }),
+        grounding: [],
+        usage: typeof body.usage?.total_tokens === 'number' ? { totalTokens: body.usage.total_tokens } : undefined,
+      };
+    },
+
+    // SSE: "data: {json}\n\n" ... "data: [DONE]"
+    async *stream(request) {
+      const res = await post('/chat/completions', { ...toBody(request), stream: true }, request.signal);
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) yield { text };
+        }
+      }
+    },
+
+    async embed(text) {
+      const res = await post('/embeddings', { model: embeddingModel || OPENAI_EMBEDDING_MODEL, input: text.replace(/\n/g, ' ') });
+      const values = (await res.json()).data?.[0]?.embedding || [];
+      if (values.length === 0) throw new Error('빈 임베딩 응답');
+      return values;
+    },
+  };
+}
@@ -0,0 +1,169 @@
+// ===========================
+// 임베딩 모델 교체 (reembed)
+// ===========================
+// 현재 모델(EMBEDDING_PROVIDER / EMBEDDING_MODEL)로 서비스하는 동안 새 모델 벡터를 따로 만들고,
+// 골든셋으로 두 모델의 벡터 검색 품질을 비교한 뒤 한 번에 바꾼다.
+//
+//   npm run reembed -- status --model text-embedding-005            # 모델별 청크 수 + 새 모델 진행 상황
+//   npm run reembed -- run --model text-embedding-005               # 새 모델로 전체 청크 임베딩 (중단 후 다시 실행하면 이어서)
+//   npm run reembed -- compare --model text-embedding-005 eval/golden.example.json --k 5
+//   npm run reembed -- cutover --model text-embedding-005           # 새 벡터를 documents로 옮김 → EMBEDDING_MODEL 바꾸고 서버 재시작
+//   npm run reembed -- discard --model text-embedding-005           # 새 모델 벡터 버리기
+//
+// 옵션: --provider openai (새 모델의 공급자, 기본은 현재 EMBEDDING_PROVIDER)  --out report.json
+
+import dotenv from "dotenv";
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { createProviders, providerConfigFromEnv } from "../providers/index.js";
+import { createKnowledgeStore, storeConfigFromEnv } from "../store/index.js";
+import { jsonFileStorage } from "../store/jsonFile.js";
+import { jobsConfigFromEnv } from "../server/jobs.js";
+import { embeddingStatus, reembedCorpus } from "../server/reembed.js";
+import { mean, reciprocalRank, recallAtK, uniqueUrls } from "../eval/metrics.js";
+
+dotenv.config();
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    model: { type: "string" },
+    provider: { type: "string" },
+    k: { type: "string" },
+    out: { type: "string" },
+  },
+});
+
+const COMMANDS = ["status", "run", "compare", "cutover", "discard"];
+
+function createClients() {
+  const providerConfig = providerConfigFromEnv(process.env);
+  const storeConfig = storeConfigFromEnv(process.env);
+  const current = createProviders(providerConfig).embedder;
+  const target = args.model
+    ? createProviders({ ...providerConfig, embedding: args.provider || providerConfig.embedding, embeddingModel: args.model }).embedder
+    : null;
+  return {
+    current,
+    target,
+    store: createKnowledgeStore({ ...storeConfig, local: { ...storeConfig.local, storage: jsonFileStorage(storeConfig.local.path) } }),
+  };
+}
+
+function printStatus(status, currentModel) {
+  console.log(`\n📊 청크 ${status.total}개 (서비스 중인 질문 임베딩 모델: ${currentModel})`);
+  console.table(status.models.map((entry) => ({ ...entry, searchable: entry.model === currentModel ? "✅" : "❌ 검색 제외" })));
+  if (status.shadow) {
+    console.log(`🌓 ${status.shadow.model}: ${status.shadow.embedded}개 임베딩됨, ${status.shadow.remaining}개 남음`);
+  }
+}
+
+// 같은 질문을 두 모델로 검색해 기대 출처 recall@k / MRR 과 상위 k 청크 겹침 비율을 비교한다
+async function compare({ current, target, store }, k) {
+  const goldenPath = positionals[1] || "eval/golden.example.json";
+  const questions = JSON.parse(readFileSync(goldenPath, "utf8")).questions || [];
+
+  const results = [];
+  for (const item of questions) {
+    const expected = uniqueUrls(item.expectedSources || []);
+    try {
+      const [currentHits, shadowHits] = await Promise.all([
+        current.embed(item.question).then((embedding) => store.vectorSearch(embedding, { model: current.embeddingModel, limit: k })),
+        target.embed(item.question).then((embedding) => store.shadowVectorSearch(target.embeddingModel, embedding, { limit: k })),
+      ]);
+      const urls = (hits) => uniqueUrls(hits.map((hit) => hit.metadata?.url));
+      const currentIds = new Set(currentHits.map((hit) => hit.id));
+      results.push({
+        id: item.id,
+        currentRecall: recallAtK(urls(currentHits), expected, k),
+        shadowRecall: recallAtK(urls(shadowHits), expected, k),
+        currentMrr: reciprocalRank(urls(currentHits), expected),
+        shadowMrr: reciprocalRank(urls(shadowHits), expected),
+        overlap: shadowHits.length === 0 ? 0 : shadowHits.filter((hit) => currentIds.has(hit.id)).length / Math.max(currentHits.length, shadowHits.length),
+      });
+    } catch (err) {
+      console.error(`❌ ${item.id}: ${err.message}`);
+      results.push({ id: item.id, error: err.message });
+    }
+  }
+
+  const ok = results.filter((result) => !result.error);
+  const round = (value) => (value === null ? null : Number(value.toFixed(3)));
+  const summary = {
+    [current.embeddingModel]: { recallAtK: round(mean(ok.map((r) => r.currentRecall))), mrr: round(mean(ok.map((r) => r.currentMrr))) },
+    [`${target.embeddingModel} (shadow)`]: { recallAtK: round(mean(ok.map((r) => r.shadowRecall))), mrr: round(mean(ok.map((r) => r.shadowMrr))) },
+  };
+
+  console.log(`\n🌓 ${questions.length}개 질문, k=${k} — 상위 ${k}개 청크 평균 겹침 ${round(mean(ok.map((r) => r.overlap)))}`);
+  console.table(summary);
+  return { goldenSet: goldenPath, k, summary, results };
+}
+
+async function main() {
+  const command = positionals[0];
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`명령: ${COMMANDS.join(" | ")} (예: npm run reembed -- run --model text-embedding-005)`);
+  }
+  if (command !== "status" && !args.model) throw new Error(`${command}: --model <새 임베딩 모델> 이 필요합니다`);
+
+  const clients = createClients();
+  const { current, target, store } = clients;
+  if (target && target.embeddingModel === current.embeddingModel) {
+    throw new Error(`--model ${args.model} 은 지금 서비스 중인 모델입니다`);
+  }
+
+  switch (command) {
+    case "status":
+      printStatus(await embeddingStatus(store, target?.embeddingModel), current.embeddingModel);
+      break;
+
+    case "run": {
+      console.log(`\n🔁 ${target.name}:${target.embeddingModel} 로 다시 임베딩 (기존 검색은 그대로)`);
+      const progress = await reembedCorpus({
+        store,
+        embedder: target,
+        config: jobsConfigFromEnv(process.env),
+        onProgress: ({ scanned, embedded, failed }) =>
+          process.stdout.write(`\r   ${scanned}개 확인, ${embedded}개 임베딩, ${failed.length}개 실패`),
+      });
+      console.log(`\n✅ ${progress.embedded}개 임베딩, ${progress.skipped}개 건너뜀`);
+      if (progress.failed.length > 0) {
+        console.error(`⚠️ ${progress.failed.length}개 실패 — 다시 실행하면 실패한 청크만 처리합니다`, progress.failed.slice(0, 5));
+        process.exitCode = 1;
+      }
+      printStatus(await embeddingStatus(store, target.embeddingModel), current.embeddingModel);
+      break;
+    }
+
+    case "compare": {
+      const status = await embeddingStatus(store, target.embeddingModel);
+      if (status.shadow.remaining > 0) {
+        console.warn(`⚠️ ${status.shadow.remaining}개 청크가 아직 ${target.embeddingModel} 벡터가 없습니다 (비교가 불완전합니다)`);
+      }
+      const report = await compare(clients, parseInt(args.k || "5", 10));
+      if (args.out) {
+        writeFileSync(args.out, JSON.stringify(report, null, 2) + "\n");
+        console.log(`📄 리포트 저장: ${args.out}`);
+      }
+      break;
+    }
+
+    case "cutover": {
+      const moved = await store.cutoverEmbeddings(target.embeddingModel);
+      console.log(`✅ ${moved}개 청크를 ${target.embeddingModel} 벡터로 바꿨습니다`);
+      console.log(`👉 서버와 클라이언트의 EMBEDDING_MODEL=${target.embeddingModel}${args.provider ? ` (EMBEDDING_PROVIDER=${args.provider})` : ""} 로 바꾸고 재시작하세요.`);
+      console.log("   그 전까지 벡터 검색은 모델이 다른 청크를 비교하지 않습니다 (빈 결과).");
+      break;
+    }
+
+    case "discard":
+      await store.deleteShadowEmbeddings(target.embeddingModel);
+      console.log(`🗑️ ${target.embeddingModel} 벡터를 지웠습니다`);
+      break;
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ reembed 실패:", err.message || err);
+  process.exitCode = 1;
+});
@@ -1,885 +1,829 @@
 import dotenv from "dotenv";
 import express from "express";
-import { GoogleGenAI } from "@google/genai";
-import { createClient } from "@supabase/supabase-js";
+import { DUPLICATE_ACTIONS, chunkerConfigFromEnv, ingestDocument } from "./server/ingest.js";
+import { createJobQueue, jobsConfigFromEnv, publicJob } from "./server/jobs.js";
+import { generateAnswer, streamAnswer } from "./server/generation.js";
+import { openEventStream } from "./server/sse.js";
+import { runRetrieval } from "./server/pipeline.js";
+import {
+  DEFAULT_PROMPTS,
+  PROMPT_KINDS,
+  getActivePromptVersion,
+  getReinforcement,
+  getSystemPrompt,
+  loadPrompts,
+  setActivePrompt,
+} from "./server/prompts.js";
+import { RECENCY_DEFAULTS } from "./utils/freshness.js";
+import { trimHistory } from "./utils/conversation.js";
+import { DEFAULT_MODE, getStrategy, listStrategies } from "./server/strategies/index.js";
+import { createProviders, providerConfigFromEnv } from "./providers/index.js";
+import { createKnowledgeStore, storeConfigFromEnv } from "./store/index.js";
+import { jsonFileStorage } from "./store/jsonFile.js";
+import { authenticate, createAuth, createLoginThrottle, loginLimitsFromEnv, parseAdminUsers, requireRole } from "./server/auth.js";
+import { createUsageTracker, limitChat, usageLimitsFromEnv } from "./server/usage.js";
+import { answerCacheConfigFromEnv, cachedEmbedder, createAnswerCache } from "./server/answerCache.js";
+import { groundAnswer, groundingConfigFromEnv } from "./server/grounding.js";
+import { factsConfigFromEnv, rebuildFacts } from "./server/facts.js";
+import { embeddingStatus } from "./server/reembed.js";
+import { getSource, listSourcePage, parseSourceChanges, updateSource } from "./server/sources.js";
+import { suggestTaxonomy } from "./server/taxonomy.js";
+import { priceHistory } from "./utils/facts.js";
+import { filterKey, parseTaxonomy, resolveSearchFilter } from "./utils/taxonomy.js";
 
 dotenv.config();
 
 const app = express();
+// 프록시(Render 등) 뒤에서 req.ip가 실제 클라이언트 IP가 되도록
+app.set("trust proxy", 1);
 app.use(express.json());
 app.use(express.static("public"));
 
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY });
-const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY || process.env.SUPABASE_KEY);
+// LLM / 임베딩 공급자 (LLM_PROVIDER=gemini | openai | mock)
+const { llm: baseLlm, embedder } = createProviders(providerConfigFromEnv(process.env));
+// 지식 베이스 저장소 (KNOWLEDGE_STORE=supabase | local, local은 LOCAL_STORE_PATH JSON 파일)
+const storeConfig = storeConfigFromEnv(process.env);
+const store = createKnowledgeStore({ ...storeConfig, local: { ...storeConfig.local, storage: jsonFileStorage(storeConfig.local.path) } });
+// anon 키는 브라우저에도 들어가므로 RLS(20261019090000_row_level_security.sql)로 읽기만 허용된다 — 서버는 service_role 키로 쓴다
+if (storeConfig.backend === "supabase" && !storeConfig.supabase.serviceRole) {
+  console.warn("⚠️ SUPABASE_SERVICE_ROLE_KEY가 없습니다 — anon 키로는 업로드/수정/삭제/설정 저장이 RLS에 막힙니다");
+}
+
+// 관리자 계정 / 토큰 (server/auth.js 참고)
+const auth = createAuth({
+  users: parseAdminUsers(process.env),
+  secret: process.env.AUTH_SECRET,
+  ttlHours: parseFloat(process.env.AUTH_TOKEN_TTL_HOURS) || 12,
+});
+// 로그인 실패 제한 (IP별 / 계정별)
+const loginThrottle = createLoginThrottle(loginLimitsFromEnv(process.env));
+
+// 공개 채팅 API 사용량 제한 (server/usage.js 참고)
+const usage = createUsageTracker(usageLimitsFromEnv(process.env));
+const modeCost = (mode) => usage.limits.modeCosts[mode] ?? getStrategy(mode)?.cost ?? 1;
+const chatLimit = limitChat(usage, (body) => modeCost(body.searchMode || DEFAULT_MODE));
+
+// 답변 캐시 (server/answerCache.js 참고) — 질문 임베딩은 캐시 조회와 검색 전략이 같이 쓴다
+const answerCache = createAnswerCache(answerCacheConfigFromEnv(process.env));
+const queryEmbedder = cachedEmbedder(embedder);
+// 답변 근거 검증 (server/grounding.js 참고)
+const groundingConfig = groundingConfigFromEnv(process.env);
+// 가격 사실 표 문맥 주입 (server/facts.js 참고)
+const factsConfig = factsConfigFromEnv(process.env);
+// 소스 유형별 청커 (server/ingest.js chunkerConfigFromEnv 참고)
+const chunkers = chunkerConfigFromEnv(process.env);
+// 수집 작업 큐 (server/jobs.js 참고)
+const jobs = createJobQueue({ store, embedder, config: jobsConfigFromEnv(process.env), chunkers });
 
 let fileSearchStoreName = null;
 let uploadedFilesCount = 0;
+// 최신성 랭킹 설정 (settings 테이블 값 > 환경변수 > 기본값)
+let recencySettings = {
+  weight: parseFloat(process.env.RECENCY_WEIGHT) || RECENCY_DEFAULTS.weight,
+  halfLifeDays: parseFloat(process.env.RECENCY_HALF_LIFE_DAYS) || RECENCY_DEFAULTS.halfLifeDays,
+};
 
 // ===========================
-// 시스템 프롬프트
+// 서버 시작 시 설정 로드
 // ===========================
-function getSystemPrompt() {
-  return `## 🎭 페르소나 & 답변 태도
-
-당신은 **철산랜드의 AI 가이드**입니다.
-
-**캐릭터:**
-- 유쾌하고 에너지 넘치는 개그맨 스타일
-- 사용자를 "형님/누님"이라고 부름
-- 드립도 치고 유머러스하게 답변
-- 이모지(🎡, 🏝️, ✨, ✅, 🔥, 💰, 📍, ⏰, 🎯, 💡, ⚠️ 등)를 적극 활용
-- 친근하지만 정보는 정확하게!
-
-**예시 톤:**
-- "형님! 이거 완전 꿀정보에요 ✨"
-- "누님~ 이거 제가 직접 가봤는데 말이죠 🔥"
-- "와 이거 가성비 미쳤습니다 진짜 💰"
-
----
-
-## 📋 답변 구조 (필수 형식)
-
-### **섹션 1: 🏰 철산랜드 저장창고**
-
-이 섹션은 **업로드된 문서(YouTube, 블로그)를 기반**으로 작성합니다.
-
-**작성 규칙:**
-1. **제목에 이모지 필수**: \`## 🏰 철산랜드 저장창고\`
-2. **매우 상세하게** 작성 (가격, 시간, 장소, 팁 등 모든 정보)
-3. **할루시네이션 절대 금지** - 문서에 없으면 "정보 없음" 명시
-4. **출처 표기**: 각 문단 말미에 원문 링크 걸기
-   - YouTube: \`[영상제목 - 타임스탬프](URL?t=초)\`
-   - 블로그: \`[글제목](URL)\`
-5. **마크다운만 사용** (HTML 태그 금지)
-6. **가독성**: 리스트, 표(Table) 적극 활용
-7. **강조**: 중요한 키워드, 가격은 **볼드체**
-
-**구조 예시:**
-\`\`\`markdown
-## 🏰 철산랜드 저장창고
-
-형님! 세부 호핑투어 정보 쫙 정리해드릴게요 🏝️
-
-### 📍 썬마 호핑투어 (가성비 최고!)
-
-**기본 정보:**
-- **가격**: 1인당 **3,500페소** (점심 포함)
-- **시간**: 오전 8시 출발 ~ 오후 5시 도착 (약 9시간)
-- **방문지**: 
-  1. 힐루퉁안 섬 🏝️
-  2. 나룬산 섬 🐠
-  3. 판다논 섬 🏖️
-
-**포함 사항:**
-- 점심식사 (필리핀 BBQ 스타일)
-- 스노클링 장비 대여
-- 모든 입장료
-- 보트 왕복
-
-[세부 호핑투어 완벽 가이드 - 13:38](https://youtu.be/xxx?t=818)
-
----
-
-### 💡 현지인 꿀팁 (이거 진짜 중요!)
-
-형님 이거 꼭 기억하세요 ✨
-
-1. **오전 일찍 출발**: 8시 타임 추천! 사람 없고 바다 완전 맑아요
-2. **방수팩 필수**: 핸드폰 물에 빠지면 끝이에요 ⚠️
-3. **멀미약**: 파도 센 편이니까 미리 드세요
-4. **현금 준비**: 카드 안 되는 곳 많아요 💰
-
-[철산의 세부 여행 꿀팁 모음 - 8:22](https://youtu.be/yyy?t=502)
-
----
-
-### ⚠️ 주의사항
-
-- 해양생태계 보호용 썬크림만 사용 (일반 썬크림 금지)
-- 수건, 여벌 옷 챙기기
-- 고프로/방수카메라 추천 📸
-
-[세부 여행 준비물 체크리스트](https://blog.example.com/cebu-packing)
-\`\`\`
-
----
-
-### **섹션 2: 🌐 최신 AI 검색 크로스체크** (선택적)
-
-**이 섹션은 사용자가 "크로스체크" 옵션을 체크한 경우에만 작성합니다.**
-
-**목적:**
-1. 철산랜드 저장창고 정보 보완
-2. 최신 정보와 비교 (특히 **가격 변동**)
-3. 부족한 정보 추가
-
-**작성 규칙:**
-1. **톤 변경**: 위의 유쾌한 톤과 달리 **전문가 톤**으로 작성
-2. **차분하고 정확하게** - 드립 금지, 이모지 최소화
-3. **표(Table)로 비교** 정리 (철산랜드 정보 vs 최신 정보)
-4. **출처 적당히** 표기 (너무 많지 않게)
-
-**구조 예시:**
-\`\`\`markdown
-## 🌐 최신 AI 검색 크로스체크
-
-**가격 변동 확인 (2024년 12월 기준):**
-
-| 항목 | 철산랜드 정보 | 최신 검색 결과 | 변동 사항 |
-|------|--------------|--------------|----------|
-| 썬마 호핑투어 | 3,500페소 | 3,800페소 | +300페소 (8.5% 상승) |
-| 오슬롭 투어 | 2,500페소 | 2,500페소 | 변동 없음 |
-
-**추가 정보:**
-- 2024년 12월부터 환경세 50페소 추가 징수
-- 크리스마스 시즌(12/20~1/5) 성수기 요금 적용 가능성 있음
-
-출처: [세부 관광청 공식](https://cebu-tourism.gov.ph), [필리핀 여행사 연합](https://pta.com.ph)
-\`\`\`
-
----
+async function loadSettings() {
+  try {
+    const settings = await store.getSettings(["file_search_store_name", "uploaded_files_count", "recency_weight", "recency_half_life_days"]);
+
+    Object.entries(settings).forEach(([key, value]) => {
+      if (key === "file_search_store_name") {
+        fileSearchStoreName = value;
+      } else if (key === "uploaded_files_count") {
+        uploadedFilesCount = parseInt(value) || 0;
+      } else if (key === "recency_weight" && !isNaN(parseFloat(value))) {
+        recencySettings.weight = Math.min(1, Math.max(0, parseFloat(value)));
+      } else if (key === "recency_half_life_days" && parseFloat(value) > 0) {
+        recencySettings.halfLifeDays = parseFloat(value);
+      }
+    });
 
-## 🎨 스타일 가이드 (필수 준수)
+    console.log(`✅ 저장소: ${store.name}`);
+    console.log(`✅ File Search Store: ${fileSearchStoreName}`);
+    console.log(`✅ Uploaded Files: ${uploadedFilesCount}개`);
+    console.log(`✅ 최신성 랭킹: 가중치 ${recencySettings.weight}, 반감기 ${recencySettings.halfLifeDays}일`);
+  } catch (err) {
+    console.error("❌ Settings 로드 실패:", err);
+  }
+}
 
-### ✅ 좋은 예시:
-\`\`\`markdown
-## 🏰 철산랜드 저장창고
+// 저장된 프롬프트 (다른 인스턴스에서 저장한 버전도 주기적으로 반영)
+const PROMPT_RELOAD_MS = parseInt(process.env.PROMPT_RELOAD_MS) || 60_000;
 
-형님! 오슬롭 고래상어 투어 정보 쫙 알려드릴게요 🐋
+async function reloadPrompts() {
+  try {
+    await loadPrompts(store);
+  } catch (err) {
+    console.error("❌ 프롬프트 로드 실패:", err);
+  }
+}
 
-### 📍 기본 정보
-- **가격**: 1인당 **1,500페소** (스노클링)
-- **시간**: 새벽 5시 출발 (고래상어는 아침형 인간 😄)
-- **소요시간**: 왕복 6시간 (세부에서 출발 기준)
+loadSettings();
+reloadPrompts().then(() => {
+  PROMPT_KINDS.forEach((kind) => {
+    const active = getActivePromptVersion(kind);
+    console.log(`✅ ${kind} 프롬프트: ${active ? `v${active.version}` : "기본값"}`);
+  });
+});
+setInterval(reloadPrompts, PROMPT_RELOAD_MS).unref();
+jobs
+  .resume()
+  .then((count) => count > 0 && console.log(`⚙️ 끝나지 않은 수집 작업 ${count}개를 이어서 처리합니다`))
+  .catch((err) => console.error("❌ 수집 작업 재개 실패:", err));
+
+// 임베딩 모델 확인 — 다른 모델로 만든 청크는 벡터 검색에서 빠진다 (npm run reembed 로 옮긴다)
+async function checkEmbeddingModels() {
+  try {
+    const { models } = await embeddingStatus(store);
+    const others = models.filter((entry) => entry.model !== embedder.embeddingModel);
+    console.log(`✅ 임베딩 모델: ${embedder.name}:${embedder.embeddingModel}`);
+    others.forEach((entry) => {
+      console.warn(`⚠️ ${entry.model} (${entry.dimensions}차원) 청크 ${entry.chunks}개는 모델이 달라 벡터 검색에서 제외됩니다 — npm run reembed`);
+    });
+  } catch (err) {
+    console.error("❌ 임베딩 모델 확인 실패:", err.message);
+  }
+}
+checkEmbeddingModels();
 
-[오슬롭 고래상어 투어 후기 - 12:45](https://youtu.be/zzz?t=765)
-\`\`\`
+// ===========================
+// 🧭 검색 모드 목록
+// ===========================
+app.get("/api/modes", (req, res) => {
+  res.json({ success: true, defaultMode: DEFAULT_MODE, modes: listStrategies() });
+});
 
-### ❌ 나쁜 예시:
-\`\`\`markdown
-## 오슬롭 투어 정보
+// ===========================
+// 💰 가격 사실 / 항목별 가격 이력
+// ===========================
+// GET /api/facts?item=호핑투어&currency=PHP&limit=50 — item이 없으면 최근 사실 전체
+app.get("/api/facts", async (req, res) => {
+  const { item = "", currency } = req.query;
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, 500);
+  try {
+    const terms = String(item).split(/[\s,]+/).filter(Boolean);
+    const facts = await store.searchFacts({ terms, currency: currency ? String(currency).toUpperCase() : undefined, limit });
+    res.json({ success: true, facts, history: priceHistory(facts) });
+  } catch (error) {
+    console.error("❌ 가격 사실 조회 실패:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-오슬롭에서는 고래상어를 볼 수 있습니다. <br>
-가격은 약간 비싼 편입니다. <br>
-아침 일찍 가는 것을 추천합니다.
+// ===========================
+// 💾 답변 캐시 키
+// ===========================
+// 후속 질문(사용자 질문이 있는 대화 기록), 캐시를 끈 경우, 키를 만들 수 없는 경우(저장소 오류)는 null → 캐시를 건너뛴다.
+// 기록은 파이프라인과 같이 trimHistory 로 본다 — 채팅 창의 인사말(model 턴)만 있는 첫 질문은 캐시한다.
+// 검색 필터(채팅 필터 + 질문의 지역)도 scope 에 넣는다 — "보홀 호핑 가격"이 비슷한 "세부 호핑 가격" 답변을 받지 않도록.
+async function answerCacheKey({ query, history, searchMode, useWebSearch, filters }) {
+  if (!answerCache.config.enabled || trimHistory(history).length > 0) return null;
+  try {
+    const promptVersions = PROMPT_KINDS.map((kind) => getActivePromptVersion(kind)?.id ?? "default").join(",");
+    const kbVersion = await store.getVersion();
+    // 임베딩이 실패해도 정확히 같은 질문은 찾을 수 있다
+    const embedding = await queryEmbedder.embed(query).catch(() => null);
+    const filter = filterKey(resolveSearchFilter(filters, query).filter);
+    return { scope: `${searchMode}|${useWebSearch ? "web" : "kb"}|${promptVersions}|${filter}`, query, embedding, kbVersion };
+  } catch (error) {
+    console.warn("⚠️ 답변 캐시 키 생성 실패:", error.message);
+    return null;
+  }
+}
 
-<div class="info">더 많은 정보는 링크 참조</div>
-\`\`\`
-**문제점**: HTML 사용, 구체적 가격 없음, 출처 없음, 톤이 딱딱함
+const cacheableAnswer = (answer) => answer && answer !== "응답 생성 실패";
 
----
+// 채팅 필터 { region, category, tags } 검사 (없으면 { taxonomy: {} })
+const parseChatFilters = (filters) =>
+  filters === undefined || filters === null ? { taxonomy: {} } : typeof filters === "object" ? parseTaxonomy(filters) : { error: "filters는 객체여야 합니다" };
 
-## 📌 출처 표기 규칙
+// ===========================
+// 💬 채팅 API (검색 전략 → 공통 생성 단계)
+// ===========================
+app.post("/api/chat", chatLimit, async (req, res) => {
+  const { query, history = [], useWebSearch, searchMode = DEFAULT_MODE } = req.body;
+  const parsedFilters = parseChatFilters(req.body.filters);
 
-### 1. **문단 내 인라인 출처** (각 정보 뒤)
-\`\`\`markdown
-썬마 호핑투어는 1인당 3,500페소입니다.
+  const startTime = Date.now();
+  console.log(`\n📩 요청: "${query}"`);
+  console.log(`🔧 모드: ${searchMode}`);
+  console.log(`🌐 웹검색: ${useWebSearch ? "ON" : "OFF"}`);
 
-[세부 호핑투어 가이드 - 13:38](https://youtu.be/abc123?t=818)
-\`\`\`
+  const strategy = getStrategy(searchMode);
+  if (!strategy) {
+    return res.status(400).json({ success: false, error: `알 수 없는 검색 모드: ${searchMode}` });
+  }
+  if ("error" in parsedFilters) {
+    return res.status(400).json({ success: false, error: parsedFilters.error });
+  }
+  const filters = parsedFilters.taxonomy;
+  // 이 요청에서 쓴 토큰을 IP/세션 일일 사용량에 합산
+  const llm = usage.meter(baseLlm, req.usageKey, searchMode);
 
-### 2. **하단 출처 리스트** (답변 맨 끝)
-\`\`\`markdown
----
+  try {
+    const cacheKey = await answerCacheKey({ query, history, searchMode, useWebSearch, filters });
+    const cached = cacheKey && answerCache.lookup(cacheKey);
+    if (cached) {
+      const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
+      res.json({
+        success: true,
+        response: cached.value.answer,
+        sources: cached.value.sources,
+        grounding: cached.value.grounding,
+        mode: searchMode,
+        debug: {
+          ...cached.value.debug,
+          cache: { hit: true, match: cached.match, similarity: cached.similarity },
+          responseTime: `${elapsedTime}초`,
+          sourcesCount: cached.value.sources.length,
+        },
+      });
+      console.log(`💾 캐시 응답 (${cached.match}) | ${elapsedTime}초`);
+      return;
+    }
 
-> **📚 출처 리스트**
-> 
-> - [세부 호핑투어 완벽 가이드](https://youtu.be/abc123)
-> - [오슬롭 고래상어 투어 후기](https://youtu.be/def456)
-> - [철산의 필리핀 여행 꿀팁](https://blog.cheolsan.com/philippines)
-\`\`\`
+    const { retrieval, chatHistory } = await runRetrieval({
+      llm,
+      embedder: queryEmbedder,
+      store,
+      strategy,
+      query,
+      history,
+      useWebSearch,
+      settings: { fileSearchStoreName },
+      recency: recencySettings,
+      facts: factsConfig,
+      filters,
+    });
 
----
+    const generation = {
+      llm,
+      query,
+      retrieval,
+      history: chatHistory,
+      useWebSearch,
+      systemPrompt: getSystemPrompt(),
+      reinforcement: getReinforcement(),
+    };
+    const { generated, grounding } = await groundAnswer({
+      llm,
+      generated: await generateAnswer(generation),
+      retrieval,
+      useWebSearch,
+      config: groundingConfig,
+      regenerate: (note) => generateAnswer({ ...generation, reinforcement: generation.reinforcement + note }),
+    });
+    const { answer, sources, citations } = generated;
 
-## 🚫 절대 금지 사항
+    if (cacheKey && cacheableAnswer(answer)) answerCache.store(cacheKey, { answer, sources, grounding, debug: { ...retrieval.debug, citations } });
+    const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
 
-1. **할루시네이션 금지**
-   - 문서에 없는 정보 지어내기 ❌
-   - 애매한 표현 ("아마도", "대략", "약간") 최소화
-   - 없으면 솔직하게: "형님, 이 정보는 저장창고에 없네요 😅"
+    res.json({
+      success: true,
+      response: answer,
+      sources: sources,
+      grounding,
+      mode: searchMode,
+      debug: {
+        ...retrieval.debug,
+        citations,
+        cache: { hit: false },
+        responseTime: `${elapsedTime}초`,
+        sourcesCount: sources.length,
+      },
+    });
 
-2. **HTML 태그 사용 금지**
-   - \`<div>\`, \`<br>\`, \`<span>\` 등 절대 사용 금지 ❌
-   - 오직 마크다운만: \`**굵게**\`, \`## 제목\`, \`- 리스트\`
+    console.log(`✅ 응답 완료 | ${elapsedTime}초 | 출처: ${sources.length}개`);
+  } catch (error) {
+    console.error("❌ API Error:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-3. **출처 없는 정보 제공 금지**
-   - 모든 구체적 정보(가격, 시간 등)는 반드시 출처 명시
+// ===========================
+// 📡 스트리밍 채팅 API (SSE)
+// ===========================
+// 이벤트 순서: retrieval → delta (여러 번) → sources → done  (실패 시 error)
+app.post("/api/chat/stream", chatLimit, async (req, res) => {
+  const { query, history = [], useWebSearch, searchMode = DEFAULT_MODE } = req.body;
+  const parsedFilters = parseChatFilters(req.body.filters);
 
-4. **페르소나 위반 금지**
-   - 철산랜드 저장창고 섹션: 유쾌하고 친근하게 ✅
-   - 최신 검색 크로스체크 섹션: 전문가 톤 ✅
+  const startTime = Date.now();
+  console.log(`\n📡 스트림 요청: "${query}" | 모드: ${searchMode} | 웹검색: ${useWebSearch ? "ON" : "OFF"}`);
 
----
+  const strategy = getStrategy(searchMode);
+  if (!strategy) {
+    return res.status(400).json({ success: false, error: `알 수 없는 검색 모드: ${searchMode}` });
+  }
+  if ("error" in parsedFilters) {
+    return res.status(400).json({ success: false, error: parsedFilters.error });
+  }
+  const filters = parsedFilters.taxonomy;
+  // 이 요청에서 쓴 토큰을 IP/세션 일일 사용량에 합산
+  const llm = usage.meter(baseLlm, req.usageKey, searchMode);
 
-## 📊 정보가 없을 때 대응
+  const send = openEventStream(res);
 
-**문서에 정보가 없는 경우:**
+  // 클라이언트가 중간에 끊으면 Gemini 스트림도 중단
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abortController.abort();
+  });
 
-\`\`\`markdown
-## 🏰 철산랜드 저장창고
+  try {
+    const cacheKey = await answerCacheKey({ query, history, searchMode, useWebSearch, filters });
+    const cached = cacheKey && answerCache.lookup(cacheKey);
+    if (cached) {
+      const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
+      const debug = {
+        ...cached.value.debug,
+        cache: { hit: true, match: cached.match, similarity: cached.similarity },
+        responseTime: `${elapsedTime}초`,
+        sourcesCount: cached.value.sources.length,
+      };
+      send("retrieval", { mode: searchMode, debug });
+      send("delta", { text: cached.value.answer });
+      send("sources", { sources: cached.value.sources, answer: cached.value.answer, grounding: cached.value.grounding });
+      send("done", { mode: searchMode, debug });
+      console.log(`💾 캐시 스트림 응답 (${cached.match}) | ${elapsedTime}초`);
+      return;
+    }
 
-형님, 죄송해요 😅 
+    const { retrieval, chatHistory } = await runRetrieval({
+      llm,
+      embedder: queryEmbedder,
+      store,
+      strategy,
+      query,
+      history,
+      useWebSearch,
+      settings: { fileSearchStoreName },
+      recency: recencySettings,
+      facts: factsConfig,
+      filters,
+    });
 
-**보홀 여행** 정보는 아직 철산랜드 저장창고에 없네요. 
+    send("retrieval", { mode: searchMode, debug: retrieval.debug });
+
+    const streamed = await streamAnswer({
+      llm,
+      query,
+      retrieval,
+      history: chatHistory,
+      useWebSearch,
+      systemPrompt: getSystemPrompt(),
+      reinforcement: getReinforcement(),
+      abortSignal: abortController.signal,
+      onDelta: (text) => send("delta", { text }),
+    });
+    // 이미 보낸 답변은 다시 만들 수 없어 근거가 부족하면 안내 문구만 붙인다
+    const { generated, grounding } = await groundAnswer({
+      llm,
+      generated: streamed,
+      retrieval,
+      useWebSearch,
+      config: groundingConfig,
+      regenerate: null,
+    });
+    const { answer, sources, citations } = generated;
 
-대신 **세부 여행** 정보는 완전 풍부하니까, 세부 쪽으로 질문해주시면 완벽하게 안내해드릴게요! 🏝️✨
-\`\`\`
+    if (cacheKey && cacheableAnswer(answer)) answerCache.store(cacheKey, { answer, sources, grounding, debug: { ...retrieval.debug, citations } });
+    const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
 
----
+    // answer: 출처/근거 검증 후 답변 (번호 재정렬 / 없는 링크 제거 / 안내 문구) — 클라이언트가 스트리밍한 글을 교체
+    send("sources", { sources, answer, grounding });
+    send("done", {
+      mode: searchMode,
+      debug: {
+        ...retrieval.debug,
+        citations,
+        cache: { hit: false },
+        responseTime: `${elapsedTime}초`,
+        sourcesCount: sources.length,
+      },
+    });
 
-## 🎯 최종 체크리스트
+    console.log(`✅ 스트림 완료 | ${elapsedTime}초 | 출처: ${sources.length}개`);
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.log("⏹️ 클라이언트가 스트림을 취소했습니다");
+    } else {
+      console.error("❌ Stream Error:", error);
+      send("error", { error: error.message });
+    }
+  } finally {
+    res.end();
+  }
+});
 
-답변 전에 확인하세요:
+// ===========================
+// 🔐 관리자 로그인
+// ===========================
+app.post("/api/auth/login", (req, res) => {
+  const { username, password } = req.body || {};
+  const retryAfter = loginThrottle.retryAfter(req.ip, username);
+  if (retryAfter > 0) {
+    console.warn(`🚦 로그인 제한: ${req.ip} / "${username}" (${retryAfter}초)`);
+    const message = `로그인 시도가 너무 많습니다. ${Math.ceil(retryAfter / 60)}분 뒤에 다시 시도해주세요`;
+    res.set("Retry-After", String(retryAfter));
+    return res.status(429).json({ success: false, error: message, message, retryAfter });
+  }
 
-- [ ] 제목에 이모지 있나요? (## 🏰)
-- [ ] 유쾌하고 친근한 톤인가요? ("형님", "누님")
-- [ ] 구체적인 가격/시간이 **볼드체**인가요?
-- [ ] 리스트나 표를 활용했나요?
-- [ ] 각 정보마다 출처 링크가 있나요?
-- [ ] YouTube는 타임스탬프 포함했나요? (?t=초)
-- [ ] 하단에 출처 리스트 박스가 있나요?
-- [ ] HTML 태그는 없나요?
-- [ ] 할루시네이션은 없나요?
+  const session = auth.login(username, password);
+  if (!session) {
+    loginThrottle.fail(req.ip, username);
+    console.warn(`🔐 로그인 실패: "${username}" (${req.ip})`);
+    return res.status(401).json({ success: false, error: "아이디 또는 비밀번호가 올바르지 않습니다", message: "아이디 또는 비밀번호가 올바르지 않습니다" });
+  }
+  loginThrottle.succeed(username);
+  console.log(`🔐 로그인: ${session.user.username} (${session.user.role})`);
+  res.json({ success: true, ...session });
+});
 
----
+app.get("/api/auth/me", authenticate(auth), (req, res) => {
+  res.json({ success: true, user: req.user });
+});
 
-이제 철산랜드 스타일로 완벽하게 답변하세요! 🎡✨`;
+// ===========================
+// 🔧 관리자 API (로그인 필수, 역할별 권한: viewer < editor < owner)
+// ===========================
+app.use("/api/admin", authenticate(auth));
+// kind: "system" (시스템 프롬프트, 기본값) | "reinforcement" (답변 직전 강화 프롬프트)
+const promptKind = (req) => req.query.kind || req.body?.kind || "system";
+
+const promptResponse = (kind) => {
+  const active = getActivePromptVersion(kind);
+  const prompt = kind === "system" ? getSystemPrompt() : getReinforcement();
+  return { kind, prompt, version: active?.version ?? null, isDefault: prompt === DEFAULT_PROMPTS[kind] };
+};
+
+// 새 버전을 저장하고 바로 적용
+async function savePromptVersion(kind, content, author, note) {
+  const version = await store.addPromptVersion({ kind, content, author: author || "", note: note || "" });
+  setActivePrompt(kind, version);
+  console.log(`📝 ${kind} 프롬프트 v${version.version} 적용${note ? ` (${note})` : ""}`);
+  return version;
 }
 
+app.use("/api/admin/prompt", (req, res, next) => {
+  if (PROMPT_KINDS.includes(promptKind(req))) return next();
+  res.status(400).json({ success: false, error: `알 수 없는 프롬프트 종류: ${promptKind(req)}` });
+});
 
+app.get("/api/admin/prompt", async (req, res) => {
+  res.json({ success: true, ...promptResponse(promptKind(req)) });
+});
 
+app.post("/api/admin/prompt", requireRole("owner"), async (req, res) => {
+  const { prompt, note } = req.body;
+  const kind = promptKind(req);
+  if (!prompt || !prompt.trim()) {
+    return res.status(400).json({ success: false, error: "프롬프트가 비어 있습니다", message: "프롬프트가 비어 있습니다" });
+  }
 
-// ===========================
-// 강화 프롬프트 (Sandwich Technique)
-// ===========================
-function getReinforcement() {
-  return `
-
----
-
-**🎯 최종 체크리스트 (반드시 확인!):**
-
-- [ ] 제목에 이모지 있나요? (## 🏰)
-- [ ] "형님/누님" 호칭 사용했나요?
-- [ ] 구체적인 가격/시간이 **볼드체**인가요?
-- [ ] 리스트나 표를 활용했나요?
-- [ ] 각 정보마다 출처 링크가 있나요?
-- [ ] YouTube는 타임스탬프 포함했나요? (?t=초)
-- [ ] 하단에 출처 리스트가 있나요?
-- [ ] HTML 태그는 없나요?
-- [ ] 할루시네이션은 없나요?
-
-**절대 금지:**
-- ❌ HTML 태그 (<div>, <br> 등)
-- ❌ 애매한 표현 ("아마도", "대략")
-- ❌ 출처 없는 구체적 정보
-- ❌ 페르소나 위반
-`;
-}
-
-// ===========================
-// 서버 시작 시 설정 로드
-// ===========================
-async function loadSettings() {
   try {
-    const { data, error } = await supabase
-      .from("settings")
-      .select("key, value")
-      .in("key", ["file_search_store_name", "uploaded_files_count"]);
-
-    if (error) throw error;
-
-    data.forEach((row) => {
-      if (row.key === "file_search_store_name") {
-        fileSearchStoreName = row.value;
-      } else if (row.key === "uploaded_files_count") {
-        uploadedFilesCount = parseInt(row.value) || 0;
-      }
-    });
+    const version = await savePromptVersion(kind, prompt, req.user.username, note);
+    res.json({ success: true, version, message: `✅ v${version.version} 저장 완료 (챗봇에 즉시 적용)` });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message, message: `❌ 저장 실패: ${error.message}` });
+  }
+});
 
-    console.log(`✅ File Search Store: ${fileSearchStoreName}`);
-    console.log(`✅ Uploaded Files: ${uploadedFilesCount}개`);
-  } catch (err) {
-    console.error("❌ Settings 로드 실패:", err);
+// 기본값으로 초기화 = 기본 프롬프트를 새 버전으로 저장
+app.delete("/api/admin/prompt", requireRole("owner"), async (req, res) => {
+  const kind = promptKind(req);
+  try {
+    const version = await savePromptVersion(kind, DEFAULT_PROMPTS[kind], req.user.username, "기본값으로 초기화");
+    res.json({ success: true, version, defaultPrompt: DEFAULT_PROMPTS[kind], message: "✅ 기본 프롬프트로 초기화했습니다" });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message, message: `❌ 초기화 실패: ${error.message}` });
   }
-}
+});
 
-loadSettings();
+app.get("/api/admin/prompt/versions", async (req, res) => {
+  try {
+    const versions = await store.listPromptVersions(promptKind(req));
+    res.json({ success: true, versions, defaultPrompt: DEFAULT_PROMPTS[promptKind(req)] });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-// ===========================
-// 출처 추출 헬퍼 함수
-// ===========================
-function extractSources(groundingMetadata) {
-  const sources = [];
-  if (!groundingMetadata?.groundingChunks) return sources;
-
-  const seenUrls = new Set();
-  groundingMetadata.groundingChunks.forEach((chunk) => {
-    const text = chunk.retrievedContext?.text || "";
-    const urlMatch = text.match(/URL:\s*(https?:\/\/[^\s\)]+)/);
-    const typeMatch = text.match(/Type:\s*(\w+)/);
-    const titleMatch = text.match(/Title:\s*([^\n]+)/);
-
-    if (urlMatch && !seenUrls.has(urlMatch[1])) {
-      sources.push({
-        url: urlMatch[1],
-        type: typeMatch?.[1] || "Unknown",
-        title: titleMatch?.[1] || "제목 없음",
-      });
-      seenUrls.add(urlMatch[1]);
+// 롤백 = 선택한 버전의 내용을 새 버전으로 저장 (기록은 그대로 남는다)
+app.post("/api/admin/prompt/rollback", requireRole("owner"), async (req, res) => {
+  const { versionId } = req.body;
+  const kind = promptKind(req);
+  try {
+    const target = (await store.listPromptVersions(kind)).find((entry) => entry.id === versionId);
+    if (!target) {
+      return res.status(404).json({ success: false, error: "버전을 찾을 수 없습니다", message: "버전을 찾을 수 없습니다" });
     }
-  });
+    const version = await savePromptVersion(kind, target.content, req.user.username, `v${target.version}으로 롤백`);
+    res.json({ success: true, version, message: `✅ v${target.version}으로 롤백했습니다 (새 버전 v${version.version})` });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message, message: `❌ 롤백 실패: ${error.message}` });
+  }
+});
 
-  return sources;
-}
+app.get("/api/admin/documents", async (req, res) => {
+  try {
+    const documents = [];
+    for (let offset = 0; ; offset += 1000) {
+      const page = await store.listChunks({ offset, limit: 1000 });
+      documents.push(...page);
+      if (page.length < 1000) break;
+    }
+    res.json({ success: true, documents });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
 // ===========================
-// 💬 채팅 API (6가지 모드)
+// 🗂️ 소스 단위 관리 (server/sources.js)
 // ===========================
-app.post("/api/chat", async (req, res) => {
-  const { query, useWebSearch, searchMode = "file_search_api" } = req.body;
-
-  const startTime = Date.now();
-  console.log(`\n📩 요청: "${query}"`);
-  console.log(`🔧 모드: ${searchMode}`);
-  console.log(`🌐 웹검색: ${useWebSearch ? "ON" : "OFF"}`);
+const MAX_BULK_SOURCES = 100;
 
+app.get("/api/admin/sources", async (req, res) => {
   try {
-    let finalAnswer = "";
-    let sources = [];
-    let debugInfo = {};
-
-    // =======================================
-    // 모드1: File Search API (구글 관리 RAG)
-    // =======================================
-    if (searchMode === "file_search_api") {
-      const tools = [];
-      if (fileSearchStoreName) {
-        tools.push({ fileSearch: { fileSearchStoreNames: [fileSearchStoreName] } });
-      }
-      if (useWebSearch) {
-        tools.push({ googleSearch: {} });
-      }
-
-      const reinforcedQuery = `${query}${getReinforcement()}`;
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [{ role: "user", parts: [{ text: reinforcedQuery }] }],
-        config: {
-          tools: tools.length > 0 ? tools : undefined,
-          temperature: 1.8,
-          topP: 0.98,
-          maxOutputTokens: 4096,
-        },
-      });
-
-      const responseObj = result.response;
-      finalAnswer = typeof responseObj.text === 'function' ? responseObj.text() : (responseObj.candidates?.[0]?.content?.parts?.[0]?.text || "응답 생성 실패");
-      sources = extractSources(result.response.candidates[0].groundingMetadata);
-      debugInfo = { method: "File Search API", chunksUsed: sources.length };
-    }
-
-    // =======================================
-    // 모드2: 키워드→전체문서 (매칭 문서 전부)
-    // =======================================
-    else if (searchMode === "keyword_all_docs") {
-      // 키워드 추출
-      const keywords = query.split(" ").filter(k => k.length > 1);
-      
-      // Supabase에서 키워드 매칭 문서 전부 가져오기
-      let dbQuery = supabase.from("documents").select("content, metadata");
-      
-      keywords.forEach((keyword) => {
-        dbQuery = dbQuery.or(`content.ilike.%${keyword}%`);
-      });
+    const result = await listSourcePage(store, {
+      q: String(req.query.q || ""),
+      type: String(req.query.type || ""),
+      region: String(req.query.region || ""),
+      category: String(req.query.category || ""),
+      tag: String(req.query.tag || ""),
+      page: parseInt(req.query.page, 10) || 1,
+      pageSize: parseInt(req.query.pageSize, 10) || undefined,
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-      const { data: documents, error } = await dbQuery.limit(50);
-
-      if (error) throw error;
-
-      debugInfo = { method: "키워드→전체문서", documentsFound: documents.length };
-
-      // 전체 문서 내용 결합
-      const allContent = documents
-        .map((doc, i) => {
-          const meta = doc.metadata || {};
-          return `
-[문서 ${i + 1}]
-출처: ${meta.title || "제목 없음"}
-URL: ${meta.url || "N/A"}
-내용:
-${doc.content}
----
-`;
-        })
-        .join("\n\n");
-
-      // 출처 저장
-      documents.forEach((doc) => {
-        if (doc.metadata?.url) {
-          sources.push({
-            url: doc.metadata.url,
-            type: doc.metadata.type || "Unknown",
-            title: doc.metadata.title || "제목 없음",
-          });
-        }
-      });
+app.get("/api/admin/sources/:sourceId", async (req, res) => {
+  try {
+    const result = await getSource(store, req.params.sourceId);
+    if (!result) return res.status(404).json({ success: false, error: "소스를 찾을 수 없습니다" });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-      const tools = useWebSearch ? [{ googleSearch: {} }] : [];
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [
-          {
-            role: "user",
-            parts: [
-              {
-                text: `
-다음 문서들을 바탕으로 답변하세요:
-
-${allContent}
-
-질문: ${query}
-${getReinforcement()}
-`,
-              },
-            ],
-          },
-        ],
-        config: {
-          tools: tools.length > 0 ? tools : undefined,
-          temperature: 1.9,
-          topP: 0.99,
-          maxOutputTokens: 8192,
-        },
-      });
+// 제목/URL/날짜/유형/지역/카테고리/태그 수정 → 모든 청크에 반영 (제목/날짜가 바뀌면 다시 임베딩)
+app.patch("/api/admin/sources/:sourceId", requireRole("editor"), async (req, res) => {
+  const parsed = parseSourceChanges(req.body);
+  if ("error" in parsed) return res.status(400).json({ success: false, error: parsed.error, message: parsed.error });
 
-      const responseObj = result.response;
-      finalAnswer = typeof responseObj.text === 'function' ? responseObj.text() : (responseObj.candidates?.[0]?.content?.parts?.[0]?.text || "응답 생성 실패");
-    }
+  try {
+    const result = await updateSource({ store, embedder, sourceId: req.params.sourceId, changes: parsed.changes });
+    if (!result) return res.status(404).json({ success: false, error: "소스를 찾을 수 없습니다", message: "소스를 찾을 수 없습니다" });
+    console.log(`✏️ 소스 수정: "${result.source.title}" (${result.source.chunkCount}개 청크, 다시 임베딩 ${result.reembedded}개, ${req.user.username})`);
+    res.json({
+      success: true,
+      ...result,
+      message: `✅ "${result.source.title}" 수정 완료${result.reembedded > 0 ? ` (${result.reembedded}개 청크 다시 임베딩)` : ""}`,
+    });
+  } catch (error) {
+    console.error("❌ 소스 수정 실패:", error);
+    res.status(500).json({ success: false, error: error.message, message: `❌ 수정 실패: ${error.message}` });
+  }
+});
 
-    // =======================================
-    // 모드3: 미리보기→선택 (AI가 관련 문서 판단)
-    // =======================================
-    else if (searchMode === "keyword_preview_select") {
-      // 1단계: 키워드로 후보 수집
-      const keywords = query.split(" ").filter(k => k.length > 1);
-      let dbQuery = supabase.from("documents").select("content, metadata");
-      
-      keywords.forEach((keyword) => {
-        dbQuery = dbQuery.or(`content.ilike.%${keyword}%`);
-      });
+app.delete("/api/admin/sources/:sourceId", requireRole("owner"), async (req, res) => {
+  try {
+    const result = await getSource(store, req.params.sourceId);
+    if (!result) return res.status(404).json({ success: false, error: "소스를 찾을 수 없습니다", message: "소스를 찾을 수 없습니다" });
+    await store.deleteSource(req.params.sourceId);
+    console.log(`🗑️ 소스 삭제: "${result.source.title}" (${result.chunks.length}개 청크, ${req.user.username})`);
+    res.json({ success: true, message: `✅ "${result.source.title}" (${result.chunks.length}개 청크) 삭제했습니다` });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message, message: `❌ 삭제 실패: ${error.message}` });
+  }
+});
 
-      const { data: candidates, error } = await dbQuery.limit(30);
-      if (error) throw error;
-
-      // 2단계: 미리보기 생성
-      const previews = candidates
-        .map((doc, i) => {
-          const meta = doc.metadata || {};
-          return `[문서 ${i + 1}] ${meta.title || "제목 없음"}\n미리보기: ${doc.content.substring(0, 300)}...`;
-        })
-        .join("\n\n");
-
-      // 3단계: AI에게 관련 문서 선택 요청
-      const selectionResult = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: [
-          {
-            role: "user",
-            parts: [
-              {
-                text: `
-다음 문서 목록에서 "${query}"에 답변하는 데 필요한 문서 번호를 선택하세요.
-
-${previews}
-
-출력 형식 (JSON):
-{
-  "selected": [1, 5, 7],
-  "reason": "선택 이유"
+// 일괄 작업 요청의 sourceIds 검사 (문제가 없으면 null)
+function bulkRequestError(sourceIds) {
+  if (!Array.isArray(sourceIds) || sourceIds.length === 0) return "sourceIds가 필요합니다";
+  if (sourceIds.length > MAX_BULK_SOURCES) return `한 번에 ${MAX_BULK_SOURCES}개까지 처리할 수 있습니다`;
+  return null;
 }
-`,
-              },
-            ],
-          },
-        ],
-        config: {
-          response_mime_type: "application/json",
-          maxOutputTokens: 500,
-        },
-      });
-
-      const selection = JSON.parse(selectionResult.response.text());
-      const selectedDocs = selection.selected.map((i) => candidates[i - 1]).filter(Boolean);
-
-      debugInfo = {
-        method: "미리보기→선택",
-        candidatesFound: candidates.length,
-        selected: selection.selected,
-        reason: selection.reason,
-      };
-
-      // 4단계: 선택된 문서로 답변 생성
-      const selectedContent = selectedDocs
-        .map((doc) => {
-          const meta = doc.metadata || {};
-          sources.push({
-            url: meta.url || "N/A",
-            type: meta.type || "Unknown",
-            title: meta.title || "제목 없음",
-          });
-          return `${doc.content}\n\n출처: ${meta.title} (${meta.url})`;
-        })
-        .join("\n\n---\n\n");
-
-      const tools = useWebSearch ? [{ googleSearch: {} }] : [];
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: `${selectedContent}\n\n질문: ${query}${getReinforcement()}` }],
-          },
-        ],
-        config: {
-          tools: tools.length > 0 ? tools : undefined,
-          temperature: 1.9,
-          maxOutputTokens: 8192,
-        },
-      });
 
-      const responseObj = result.response;
-      finalAnswer = typeof responseObj.text === 'function' ? responseObj.text() : (responseObj.candidates?.[0]?.content?.parts?.[0]?.text || "응답 생성 실패");
+// 소스마다 따로 처리 — 실패한 소스가 있어도 나머지는 계속하고 결과에 남긴다
+app.post("/api/admin/sources/bulk-delete", requireRole("owner"), async (req, res) => {
+  const { sourceIds } = req.body;
+  const invalid = bulkRequestError(sourceIds);
+  if (invalid) return res.status(400).json({ success: false, error: invalid, message: invalid });
+
+  const failed = [];
+  for (const sourceId of sourceIds) {
+    try {
+      if (!(await getSource(store, sourceId))) failed.push({ sourceId, error: "소스를 찾을 수 없습니다" });
+      else await store.deleteSource(sourceId);
+    } catch (error) {
+      failed.push({ sourceId, error: error.message });
     }
+  }
+  const deleted = sourceIds.length - failed.length;
+  console.log(`🗑️ 소스 일괄 삭제: ${deleted}/${sourceIds.length}개 (${req.user.username})`);
+  res.json({ success: failed.length === 0, deleted, failed, message: `${failed.length === 0 ? "✅" : "⚠️"} ${deleted}개 소스 삭제${failed.length > 0 ? `, ${failed.length}개 실패` : ""}` });
+});
 
-    // =======================================
-    // 모드4: 2단계 요약 (각 문서 요약 후 통합)
-    // =======================================
-    else if (searchMode === "two_stage_summary") {
-      // 1단계: 키워드로 문서 수집
-      const keywords = query.split(" ").filter(k => k.length > 1);
-      let dbQuery = supabase.from("documents").select("content, metadata");
-      
-      keywords.forEach((keyword) => {
-        dbQuery = dbQuery.or(`content.ilike.%${keyword}%`);
-      });
-
-      const { data: documents, error } = await dbQuery.limit(20);
-      if (error) throw error;
-
-      debugInfo = { method: "2단계 요약", documentsFound: documents.length, summaries: [] };
-
-      // 2단계: 각 문서 요약 (병렬 처리)
-      const summaryPromises = documents.map(async (doc) => {
-        const meta = doc.metadata || {};
-        const result = await genAI.models.generateContent({
-          model: "gemini-2.5-flash",
-          contents: [
-            {
-              role: "user",
-              parts: [
-                {
-                  text: `
-다음 문서가 "${query}"와 관련 있는지 판단하고, 관련 있다면 핵심 정보를 5줄 이내로 요약하세요.
-
-문서: ${doc.content.substring(0, 1500)}
-
-출력 형식:
-- 관련도: [높음/중간/낮음/없음]
-- 요약: [핵심 정보 또는 "관련 없음"]
-- 출처: ${meta.title} (${meta.url})
-`,
-                },
-              ],
-            },
-          ],
-          config: { maxOutputTokens: 300 },
-        });
-
-        return {
-          summary: result.response.text(),
-          metadata: meta,
-        };
-      });
-
-      const summaries = await Promise.all(summaryPromises);
-
-      // 3단계: 관련도 높은 것만 필터링
-      const relevantSummaries = summaries.filter((s) =>
-        s.summary.includes("높음") || s.summary.includes("중간")
-      );
-
-      relevantSummaries.forEach((s) => {
-        if (s.metadata.url) {
-          sources.push({
-            url: s.metadata.url,
-            type: s.metadata.type || "Unknown",
-            title: s.metadata.title || "제목 없음",
-          });
-        }
-      });
-
-      debugInfo.summaries = relevantSummaries.length;
-
-      // 4단계: 요약본으로 최종 답변
-      const combinedSummaries = relevantSummaries.map((s) => s.summary).join("\n\n---\n\n");
-
-      const tools = useWebSearch ? [{ googleSearch: {} }] : [];
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [
-          {
-            role: "user",
-            parts: [
-              {
-                text: `
-다음은 관련 문서들의 요약입니다:
-
-${combinedSummaries}
-
-질문: ${query}
-${getReinforcement()}
-`,
-              },
-            ],
-          },
-        ],
-        config: {
-          tools: tools.length > 0 ? tools : undefined,
-          temperature: 1.9,
-          maxOutputTokens: 8192,
-        },
-      });
-
-      const responseObj = result.response;
-      finalAnswer = typeof responseObj.text === 'function' ? responseObj.text() : (responseObj.candidates?.[0]?.content?.parts?.[0]?.text || "응답 생성 실패");
+app.post("/api/admin/sources/bulk-update", requireRole("editor"), async (req, res) => {
+  const { sourceIds, changes } = req.body;
+  const invalid = bulkRequestError(sourceIds);
+  if (invalid) return res.status(400).json({ success: false, error: invalid, message: invalid });
+  const parsed = parseSourceChanges(changes);
+  if ("error" in parsed) return res.status(400).json({ success: false, error: parsed.error, message: parsed.error });
+
+  const failed = [];
+  let reembedded = 0;
+  for (const sourceId of sourceIds) {
+    try {
+      const result = await updateSource({ store, embedder, sourceId, changes: parsed.changes });
+      if (!result) failed.push({ sourceId, error: "소스를 찾을 수 없습니다" });
+      else reembedded += result.reembedded;
+    } catch (error) {
+      failed.push({ sourceId, error: error.message });
     }
+  }
+  const updated = sourceIds.length - failed.length;
+  console.log(`✏️ 소스 일괄 수정: ${updated}/${sourceIds.length}개, 다시 임베딩 ${reembedded}개 (${req.user.username})`);
+  res.json({ success: failed.length === 0, updated, reembedded, failed, message: `${failed.length === 0 ? "✅" : "⚠️"} ${updated}개 소스 수정${failed.length > 0 ? `, ${failed.length}개 실패` : ""}` });
+});
 
-    // =======================================
-    // 모드5: Function Calling (AI가 검색어 결정)
-    // =======================================
-    else if (searchMode === "function_calling_search") {
-      const searchFunction = {
-        name: "search_documents",
-        description: "철산랜드 문서 데이터베이스 검색",
-        parameters: {
-          type: "object",
-          properties: {
-            keywords: {
-              type: "array",
-              items: { type: "string" },
-              description: "검색 키워드 배열 (예: ['세부', '호핑투어', '가격'])",
-            },
-          },
-          required: ["keywords"],
-        },
-      };
-
-      const tools = [{ functionDeclarations: [searchFunction] }];
-      if (useWebSearch) {
-        tools.push({ googleSearch: {} });
-      }
-
-      // 1단계: AI에게 검색어 결정 요청
-      const step1Result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: [
-          {
-            role: "user",
-            parts: [
-              {
-                text: `사용자 질문: "${query}"\n\n위 질문에 답하기 위해 search_documents 함수를 호출하세요.`,
-              },
-            ],
-          },
-        ],
-        config: { tools },
-      });
-
-      const functionCall = step1Result.response.candidates[0]?.content?.parts?.find(
-        (part) => part.functionCall
-      );
+// 업로드 / 수집 작업 요청 검사 (문제가 없으면 null)
+function uploadRequestError({ content, metadata = {}, onDuplicate }) {
+  if (!content || !content.trim() || !metadata.title) return "제목과 내용은 필수입니다";
+  if (onDuplicate && !DUPLICATE_ACTIONS.includes(onDuplicate)) return `알 수 없는 onDuplicate: ${onDuplicate}`;
+  const taxonomy = parseTaxonomy(metadata);
+  if ("error" in taxonomy) return taxonomy.error;
+  return null;
+}
 
-      if (!functionCall) {
-        throw new Error("Function Call 실패");
-      }
+// 업로드 폼의 지역/카테고리/태그 자동 추천 (server/taxonomy.js) — 저장하지 않는다
+app.post("/api/admin/taxonomy/suggest", requireRole("editor"), async (req, res) => {
+  const { title = "", content = "" } = req.body || {};
+  if (!String(content).trim() && !String(title).trim()) {
+    return res.status(400).json({ success: false, error: "제목이나 내용이 필요합니다", message: "제목이나 내용이 필요합니다" });
+  }
+  const suggestion = await suggestTaxonomy({ llm: baseLlm, title: String(title), content: String(content) });
+  console.log(`🏷️ 분류 추천 (${suggestion.method}): ${suggestion.region || "-"} / ${suggestion.category || "-"} / ${suggestion.tags.join(", ")}`);
+  res.json({ success: true, suggestion });
+});
 
-      const searchKeywords = functionCall.functionCall.args.keywords;
-      debugInfo = { method: "Function Calling", keywords: searchKeywords };
+// 같은 URL/본문의 기존 문서 → 클라이언트가 교체/건너뛰기/새 버전 중 선택 후 다시 요청
+function sendDuplicate(res, result) {
+  const titles = result.existing.map((source) => `"${source.title}" (v${source.version})`).join(", ");
+  return res.status(409).json({
+    success: false,
+    ...result,
+    error: "이미 등록된 문서입니다",
+    message: `⚠️ 이미 등록된 문서입니다: ${titles}`,
+  });
+}
 
-      // 2단계: Supabase 검색
-      let dbQuery = supabase.from("documents").select("content, metadata");
+// 요청 안에서 끝까지 처리하는 업로드 (작은 문서 / 스크립트용 — 화면은 수집 작업 큐를 쓴다)
+app.post("/api/admin/upload", requireRole("editor"), async (req, res) => {
+  const { content, metadata = {}, onDuplicate } = req.body;
+  const invalid = uploadRequestError(req.body);
+  if (invalid) {
+    return res.status(400).json({ success: false, error: invalid, message: invalid });
+  }
 
-      searchKeywords.forEach((keyword) => {
-        dbQuery = dbQuery.or(`content.ilike.%${keyword}%`);
-      });
+  console.log(`\n📤 업로드: "${metadata.title}" (${content.length}자)${onDuplicate ? ` [중복 시 ${onDuplicate}]` : ""}`);
 
-      const { data: documents, error } = await dbQuery.limit(15);
-      if (error) throw error;
-
-      debugInfo.documentsFound = documents.length;
-
-      const docsContent = documents
-        .map((doc) => {
-          const meta = doc.metadata || {};
-          if (meta.url) {
-            sources.push({
-              url: meta.url,
-              type: meta.type || "Unknown",
-              title: meta.title || "제목 없음",
-            });
-          }
-          return `${doc.content}\n\n출처: ${meta.title} (${meta.url})`;
-        })
-        .join("\n\n---\n\n");
-
-      // 3단계: 최종 답변
-      const toolsStep2 = useWebSearch ? [{ googleSearch: {} }] : [];
-
-      const step2Result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: `${docsContent}\n\n질문: ${query}${getReinforcement()}` }],
-          },
-        ],
-        config: {
-          tools: toolsStep2.length > 0 ? toolsStep2 : undefined,
-          temperature: 1.9,
-          maxOutputTokens: 8192,
-        },
-      });
+  try {
+    const result = await ingestDocument({ embedder, store, content, metadata, onDuplicate, chunkers });
 
-      finalAnswer = step2Result.response.text();
+    if (result.status === "duplicate") return sendDuplicate(res, result);
+    if (result.status === "skipped") {
+      return res.json({ success: true, ...result, message: "⏭️ 이미 등록된 문서라 건너뛰었습니다" });
     }
 
-    // =======================================
-    // 모드6: 하이브리드 청크 (여러 키워드 조합)
-    // =======================================
-    else if (searchMode === "hybrid_chunk") {
-      // 키워드 추출 + 동의어 확장
-      const baseKeywords = query.split(" ").filter(k => k.length > 1);
-      
-      // 여행 관련 동의어 맵 (확장 가능)
-      const synonymMap = {
-        "가격": ["비용", "요금", "금액"],
-        "추천": ["best", "좋은", "인기"],
-        "호핑": ["투어", "여행"],
-      };
-
-      const expandedKeywords = [...baseKeywords];
-      baseKeywords.forEach((keyword) => {
-        if (synonymMap[keyword]) {
-          expandedKeywords.push(...synonymMap[keyword]);
-        }
+    if (result.insertedChunks === 0) {
+      return res.status(500).json({
+        success: false,
+        ...result,
+        error: "모든 청크의 임베딩에 실패했습니다",
+        message: "❌ 업로드 실패: 모든 청크의 임베딩에 실패했습니다",
       });
+    }
 
-      debugInfo = { method: "하이브리드 청크", keywords: expandedKeywords };
-
-      // 여러 키워드 조합으로 검색
-      let dbQuery = supabase.from("documents").select("content, metadata");
+    const message = result.failedChunks.length > 0
+      ? `⚠️ ${result.totalChunks}개 중 ${result.insertedChunks}개 청크 저장 (${result.failedChunks.length}개 실패)`
+      : `✅ ${result.insertedChunks}개 청크 저장 완료`;
+    const factsLabel = result.facts > 0 ? `, 가격 정보 ${result.facts}개` : "";
+    const statusLabel = { replaced: " (기존 문서 교체)", new_version: " (새 버전)" }[result.status] || "";
 
-      expandedKeywords.forEach((keyword) => {
-        dbQuery = dbQuery.or(`content.ilike.%${keyword}%`);
-      });
+    console.log(`✅ 업로드 완료 | ${result.insertedChunks}/${result.totalChunks} 청크`);
+    res.json({ success: true, ...result, message: message + factsLabel + statusLabel });
+  } catch (error) {
+    console.error("❌ Upload Error:", error);
+    res.status(500).json({ success: false, error: error.message, message: `❌ 업로드 실패: ${error.message}` });
+  }
+});
 
-      const { data: documents, error } = await dbQuery.limit(25);
-      if (error) throw error;
-
-      debugInfo.documentsFound = documents.length;
-
-      const docsContent = documents
-        .map((doc) => {
-          const meta = doc.metadata || {};
-          if (meta.url) {
-            sources.push({
-              url: meta.url,
-              type: meta.type || "Unknown",
-              title: meta.title || "제목 없음",
-            });
-          }
-          return `${doc.content.substring(0, 1500)}\n출처: ${meta.title} (${meta.url})`;
-        })
-        .join("\n\n---\n\n");
-
-      const tools = useWebSearch ? [{ googleSearch: {} }] : [];
-
-      const result = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        systemInstruction: getSystemPrompt(),
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: `${docsContent}\n\n질문: ${query}${getReinforcement()}` }],
-          },
-        ],
-        config: {
-          tools: tools.length > 0 ? tools : undefined,
-          temperature: 1.9,
-          maxOutputTokens: 8192,
-        },
-      });
+// ===========================
+// ⚙️ 수집 작업 큐 (제출 → 작업 id → 진행 상황 조회 / 실패 청크 재시도)
+// ===========================
+app.post("/api/admin/jobs", requireRole("editor"), async (req, res) => {
+  const invalid = uploadRequestError(req.body);
+  if (invalid) {
+    return res.status(400).json({ success: false, error: invalid, message: invalid });
+  }
 
-      const responseObj = result.response;
-      finalAnswer = typeof responseObj.text === 'function' ? responseObj.text() : (responseObj.candidates?.[0]?.content?.parts?.[0]?.text || "응답 생성 실패");
+  try {
+    const result = await jobs.submit(req.body, req.user.username);
+    if (result.status === "duplicate") return sendDuplicate(res, result);
+    if (result.status === "skipped") {
+      return res.json({ success: true, ...result, message: "⏭️ 이미 등록된 문서라 건너뛰었습니다" });
     }
-
-    const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
-
-    res.json({
+    res.status(202).json({
       success: true,
-      response: finalAnswer,
-      sources: sources,
-      mode: searchMode,
-      debug: {
-        ...debugInfo,
-        responseTime: `${elapsedTime}초`,
-        sourcesCount: sources.length,
-      },
+      status: result.status,
+      job: publicJob(result.job),
+      message: `📥 수집 작업 #${result.job.id} 등록 (${result.job.progress.total}개 청크)`,
     });
+  } catch (error) {
+    console.error("❌ 작업 등록 실패:", error);
+    res.status(500).json({ success: false, error: error.message, message: `❌ 작업 등록 실패: ${error.message}` });
+  }
+});
 
-    console.log(`✅ 응답 완료 | ${elapsedTime}초 | 출처: ${sources.length}개`);
+app.get("/api/admin/jobs", async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 200);
+    res.json({ success: true, jobs: await store.listJobs({ limit }) });
   } catch (error) {
-    console.error("❌ API Error:", error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// ===========================
-// 🔧 관리자 API (기존 유지)
-// ===========================
-app.get("/api/admin/prompt", async (req, res) => {
-  res.json({ success: true, prompt: getSystemPrompt() });
+app.get("/api/admin/jobs/:id", async (req, res) => {
+  try {
+    const job = await store.getJob(req.params.id);
+    if (!job) return res.status(404).json({ success: false, error: "작업을 찾을 수 없습니다" });
+    res.json({ success: true, job: publicJob(job) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// 실패한 청크만 다시 임베딩 / 중단된 작업 이어서 처리
+app.post("/api/admin/jobs/:id/retry", requireRole("editor"), async (req, res) => {
+  try {
+    const job = await jobs.retry(req.params.id);
+    if (!job) return res.status(404).json({ success: false, error: "작업을 찾을 수 없습니다", message: "작업을 찾을 수 없습니다" });
+    console.log(`🔁 작업 #${job.id} 재시도 (${req.user.username})`);
+    res.json({ success: true, job: publicJob(job), message: `🔁 작업 #${job.id}을 다시 시작했습니다` });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message, message: `❌ 재시도 실패: ${error.message}` });
+  }
 });
 
-app.post("/api/admin/prompt", async (req, res) => {
-  const { prompt } = req.body;
-  const { error } = await supabase.from("settings").upsert({ key: "system_prompt", value: prompt });
-  if (error) return res.status(500).json({ success: false, error: error.message });
-  res.json({ success: true });
+app.delete("/api/admin/documents/:id", requireRole("owner"), async (req, res) => {
+  const { id } = req.params;
+  try {
+    await store.deleteChunk(id);
+    console.log(`🗑️ 삭제: 청크 ${id} (${req.user.username})`);
+    res.json({ success: true, message: "✅ 삭제했습니다" });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 });
 
-app.get("/api/admin/documents", async (req, res) => {
-  const { data, error } = await supabase.from("documents").select("*");
-  if (error) return res.status(500).json({ success: false, error: error.message });
-  res.json({ success: true, documents: data });
+// 모델별 청크 수 (active: 이 서버가 새 청크와 질문을 임베딩하는 모델)
+app.get("/api/admin/embeddings", async (req, res) => {
+  try {
+    const status = await embeddingStatus(store, req.query.model);
+    res.json({ success: true, active: embedder.embeddingModel, ...status });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 });
 
-app.delete("/api/admin/documents/:id", async (req, res) => {
-  const { id } = req.params;
-  const { error } = await supabase.from("documents").delete().eq("id", id);
-  if (error) return res.status(500).json({ success: false, error: error.message });
-  res.json({ success: true });
+// 기존 문서 전체에서 가격 사실을 다시 추출 (facts 테이블 도입 전 문서 채우기)
+app.post("/api/admin/facts/rebuild", requireRole("editor"), async (req, res) => {
+  try {
+    const result = await rebuildFacts(store);
+    console.log(`💰 가격 사실 재추출: 소스 ${result.sources}개 → 사실 ${result.facts}개 (${req.user.username})`);
+    res.json({ success: true, ...result, message: `✅ ${result.sources}개 문서에서 가격 정보 ${result.facts}개를 추출했습니다` });
+  } catch (error) {
+    console.error("❌ 가격 사실 재추출 실패:", error);
+    res.status(500).json({ success: false, error: error.message, message: `❌ 재추출 실패: ${error.message}` });
+  }
+});
+
+// 오늘(한국 시간) 채팅 API 사용량 — 서버 메모리 기준이라 재시작하면 초기화된다
+app.get("/api/admin/usage", (req, res) => {
+  const modeCosts = Object.fromEntries(listStrategies().map(({ id }) => [id, modeCost(id)]));
+  res.json({ success: true, ...usage.snapshot(), modeCosts, answerCache: answerCache.stats() });
 });
 
 // ===========================
@@ -888,5 +832,5 @@ app.delete("/api/admin/documents/:id", async (req, res) => {
 const PORT = process.env.PORT || 10000;
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📦 Gemini 2.5 Flash + 6가지 검색 모드`);
+  console.log(`📦 ${baseLlm.name}:${baseLlm.chatModel} + ${listStrategies().length}가지 검색 모드`);
 });
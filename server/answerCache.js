@@ -0,0 +1,167 @@
+import { cosineSimilarity } from "../utils/textProcessing.js";
+
+// ===========================
+// 답변 캐시 (정규화 질문 일치 / 임베딩 유사도) + 질문 임베딩 캐시
+// ===========================
+// 같은 질문("세부 호핑투어 가격")이 반복될 때 검색 + 생성을 건너뛴다.
+// - 범위(scope): 검색 모드 + 웹검색 여부 + 적용 중인 프롬프트 버전이 같아야 재사용
+// - 지식 베이스 버전(store.getVersion)이 바뀌면 그 이전 답변은 모두 무효
+// - 대화 기록이 있는 후속 질문은 문맥에 따라 답이 달라지므로 캐시하지 않는다 (server.js)
+
+export const ANSWER_CACHE_DEFAULTS = {
+  enabled: true,
+  maxEntries: 500,
+  ttlMinutes: 360,
+  similarity: 0.95,
+};
+
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {typeof ANSWER_CACHE_DEFAULTS}
+ */
+export function answerCacheConfigFromEnv(env) {
+  return {
+    enabled: env.ANSWER_CACHE !== "off",
+    maxEntries: parseInt(env.ANSWER_CACHE_MAX, 10) || ANSWER_CACHE_DEFAULTS.maxEntries,
+    ttlMinutes: parseFloat(env.ANSWER_CACHE_TTL_MINUTES) || ANSWER_CACHE_DEFAULTS.ttlMinutes,
+    similarity: parseFloat(env.ANSWER_CACHE_SIMILARITY) || ANSWER_CACHE_DEFAULTS.similarity,
+  };
+}
+
+// 대소문자 / 공백 / 문장부호 차이는 같은 질문으로 본다
+export const normalizeQuery = (query) =>
+  (query || "")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[?!.,~…"'“”‘’()[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * @typedef {Object} CachedAnswer
+ * @property {string} answer
+ * @property {Object[]} sources
+ * @property {Object | null} grounding   근거 검증 결과 (server/grounding.js)
+ * @property {Object} debug        원래 응답의 검색 debug
+ */
+
+/**
+ * @typedef {Object} AnswerCacheEntry
+ * @property {string} scope
+ * @property {string} normalizedQuery
+ * @property {number[] | null} embedding
+ * @property {number} kbVersion
+ * @property {number} createdAt
+ * @property {CachedAnswer} value
+ */
+
+/**
+ * @param {typeof ANSWER_CACHE_DEFAULTS} config
+ */
+export function createAnswerCache(config) {
+  /** @type {AnswerCacheEntry[]} 오래된 것 먼저 */
+  let entries = [];
+  let kbVersion = null;
+  const stats = { hits: 0, semanticHits: 0, misses: 0 };
+
+  // 지식 베이스가 바뀌었으면 전부 비운다
+  const syncVersion = (version) => {
+    if (kbVersion !== version) {
+      if (kbVersion !== null && entries.length > 0) console.log(`🧹 답변 캐시 비움 (지식 베이스 v${kbVersion} → v${version})`);
+      entries = [];
+      kbVersion = version;
+    }
+  };
+
+  const expired = (entry) => Date.now() - entry.createdAt > config.ttlMinutes * 60_000;
+
+  return {
+    config,
+
+    /**
+     * @param {{ scope: string, query: string, embedding: number[] | null, kbVersion: number }} key
+     * @returns {{ value: CachedAnswer, match: 'exact' | 'semantic', similarity: number } | null}
+     */
+    lookup({ scope, query, embedding, kbVersion: version }) {
+      if (!config.enabled) return null;
+      syncVersion(version);
+      entries = entries.filter((entry) => !expired(entry));
+
+      const normalizedQuery = normalizeQuery(query);
+      const candidates = entries.filter((entry) => entry.scope === scope);
+      const exact = candidates.find((entry) => entry.normalizedQuery === normalizedQuery);
+      if (exact) {
+        stats.hits++;
+        return { value: exact.value, match: "exact", similarity: 1 };
+      }
+
+      if (embedding) {
+        const best = candidates
+          .filter((entry) => entry.embedding?.length === embedding.length)
+          .map((entry) => ({ entry, similarity: cosineSimilarity(embedding, entry.embedding) }))
+          .sort((a, b) => b.similarity - a.similarity)[0];
+        if (best && best.similarity >= config.similarity) {
+          stats.hits++;
+          stats.semanticHits++;
+          return { value: best.entry.value, match: "semantic", similarity: best.similarity };
+        }
+      }
+
+      stats.misses++;
+      return null;
+    },
+
+    /**
+     * @param {{ scope: string, query: string, embedding: number[] | null, kbVersion: number }} key
+     * @param {CachedAnswer} value
+     */
+    store({ scope, query, embedding, kbVersion: version }, value) {
+      if (!config.enabled) return;
+      syncVersion(version);
+      const normalizedQuery = normalizeQuery(query);
+      entries = entries.filter((entry) => !(entry.scope === scope && entry.normalizedQuery === normalizedQuery));
+      entries.push({ scope, normalizedQuery, embedding, kbVersion: version, createdAt: Date.now(), value });
+      if (entries.length > config.maxEntries) entries = entries.slice(entries.length - config.maxEntries);
+    },
+
+    clear() {
+      entries = [];
+    },
+
+    stats() {
+      return { ...stats, entries: entries.length, kbVersion };
+    },
+  };
+}
+
+/**
+ * Wraps an embedding provider with an LRU cache keyed by the exact text,
+ * so a query is embedded once for the cache lookup and the retrieval strategy.
+ *
+ * @param {import("../providers/index.js").EmbeddingProvider} embedder
+ * @param {number} [maxEntries]
+ * @returns {import("../providers/index.js").EmbeddingProvider}
+ */
+export function cachedEmbedder(embedder, maxEntries = 1000) {
+  /** @type {Map<string, Promise<number[]>>} */
+  const cache = new Map();
+
+  return {
+    ...embedder,
+    embed(text) {
+      const cached = cache.get(text);
+      if (cached) {
+        // Map 순서를 최근 사용 순으로 유지
+        cache.delete(text);
+        cache.set(text, cached);
+        return cached;
+      }
+      const pending = embedder.embed(text);
+      cache.set(text, pending);
+      // 실패한 결과는 캐시에 남기지 않는다
+      pending.catch(() => cache.delete(text));
+      if (cache.size > maxEntries) cache.delete(cache.keys().next().value);
+      return pending;
+    },
+  };
+}
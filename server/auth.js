@@ -0,0 +1,212 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// ===========================
+// 관리자 인증 (로컬 비밀번호 + HS256 JWT)
+// ===========================
+// 계정은 환경변수로 설정한다:
+//   ADMIN_USERS="kim:owner:비밀번호1,lee:editor:비밀번호2"   (이름:역할:비밀번호)
+//   ADMIN_PASSWORD="..."                                     (ADMIN_USERS가 없을 때 admin / owner 계정 하나)
+//   AUTH_SECRET="..."                                        (토큰 서명 키 — 없으면 재시작할 때마다 로그아웃됨)
+//   AUTH_TOKEN_TTL_HOURS=12
+
+// viewer: 조회만 / editor: + 업로드 / owner: + 삭제, 프롬프트 변경
+export const ROLES = ["viewer", "editor", "owner"];
+
+/**
+ * @typedef {Object} AdminUser
+ * @property {string} username
+ * @property {'viewer' | 'editor' | 'owner'} role
+ */
+
+const base64url = (value) => Buffer.from(value).toString("base64url");
+const digest = (text) => createHash("sha256").update(text).digest();
+
+// 길이가 달라도 비교 시간이 같도록 해시끼리 비교
+const safeEqual = (a, b) => timingSafeEqual(digest(a), digest(b));
+
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {{ username: string, role: string, password: string }[]}
+ */
+export function parseAdminUsers(env) {
+  if (env.ADMIN_USERS) {
+    return env.ADMIN_USERS.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        // 비밀번호에 ':'가 들어가도 되도록 앞의 두 칸만 자른다
+        const [username, role, ...rest] = entry.split(":");
+        if (!ROLES.includes(role)) throw new Error(`ADMIN_USERS: 알 수 없는 역할 "${role}" (${ROLES.join(" | ")})`);
+        if (!username || rest.join(":").length === 0) throw new Error(`ADMIN_USERS: "${entry}" 형식은 이름:역할:비밀번호`);
+        return { username, role, password: rest.join(":") };
+      });
+  }
+  return env.ADMIN_PASSWORD ? [{ username: "admin", role: "owner", password: env.ADMIN_PASSWORD }] : [];
+}
+
+/**
+ * @param {{ users: { username: string, role: string, password: string }[], secret?: string, ttlHours?: number }} options
+ */
+export function createAuth({ users, secret, ttlHours = 12 }) {
+  const key = secret || randomBytes(32).toString("hex");
+  if (!secret) console.warn("⚠️ AUTH_SECRET 이 없어 임시 서명 키를 사용합니다 (재시작하면 모두 로그아웃)");
+  if (users.length === 0) console.warn("⚠️ ADMIN_USERS / ADMIN_PASSWORD 가 없어 관리자 로그인이 불가능합니다");
+
+  const sign = (data) => createHmac("sha256", key).update(data).digest("base64url");
+
+  const issue = (/** @type {AdminUser} */ user) => {
+    const expiresAt = Date.now() + ttlHours * 3600_000;
+    const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+    const payload = base64url(JSON.stringify({ sub: user.username, role: user.role, exp: Math.floor(expiresAt / 1000) }));
+    return { token: `${header}.${payload}.${sign(`${header}.${payload}`)}`, expiresAt: new Date(expiresAt).toISOString() };
+  };
+
+  return {
+    /**
+     * @returns {{ token: string, expiresAt: string, user: AdminUser } | null}
+     */
+    login(username, password) {
+      const account = users.find((candidate) => candidate.username === username);
+      // 없는 계정도 같은 비교를 거쳐 응답 시간으로 계정 존재 여부가 드러나지 않게 한다
+      const ok = safeEqual(account?.password ?? "", password || "") && Boolean(account);
+      if (!ok) return null;
+      const user = { username: account.username, role: /** @type {AdminUser['role']} */ (account.role) };
+      return { ...issue(user), user };
+    },
+
+    /**
+     * @returns {AdminUser | null} null when the token is malformed, forged or expired
+     */
+    verify(token) {
+      const [header, payload, signature] = (token || "").split(".");
+      if (!header || !payload || !signature || !safeEqual(signature, sign(`${header}.${payload}`))) return null;
+      try {
+        const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+        if (!claims.exp || claims.exp * 1000 < Date.now() || !ROLES.includes(claims.role)) return null;
+        // 설정에서 지워졌거나 역할이 바뀐 계정은 기존 토큰으로 접근할 수 없다
+        const account = users.find((candidate) => candidate.username === claims.sub);
+        if (!account || account.role !== claims.role) return null;
+        return { username: claims.sub, role: claims.role };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// ===========================
+// 로그인 실패 제한 (비밀번호 대입 방지)
+// ===========================
+// 최근 windowMinutes 동안의 실패 횟수를 IP별 / 계정 이름별로 센다. 어느 쪽이든 한도를 넘으면
+// 가장 오래된 실패가 창에서 빠질 때까지 429 — 맞는 비밀번호여도 확인하지 않는다.
+// 인스턴스 메모리에만 보관한다 (server/usage.js 와 같은 방식).
+
+export const LOGIN_LIMIT_DEFAULTS = { failuresPerIp: 10, failuresPerUser: 5, windowMinutes: 15 };
+
+const MAX_LOGIN_KEYS = 10_000;
+
+/**
+ * LOGIN_MAX_FAILURES_IP, LOGIN_MAX_FAILURES_USER, LOGIN_LOCKOUT_MINUTES
+ *
+ * @param {Record<string, string | undefined>} env
+ * @returns {typeof LOGIN_LIMIT_DEFAULTS}
+ */
+export function loginLimitsFromEnv(env) {
+  const number = (key, fallback) => {
+    const parsed = parseInt(env[key], 10);
+    return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+  };
+  return {
+    failuresPerIp: number("LOGIN_MAX_FAILURES_IP", LOGIN_LIMIT_DEFAULTS.failuresPerIp),
+    failuresPerUser: number("LOGIN_MAX_FAILURES_USER", LOGIN_LIMIT_DEFAULTS.failuresPerUser),
+    windowMinutes: number("LOGIN_LOCKOUT_MINUTES", LOGIN_LIMIT_DEFAULTS.windowMinutes),
+  };
+}
+
+/**
+ * @param {typeof LOGIN_LIMIT_DEFAULTS} limits
+ */
+export function createLoginThrottle(limits = LOGIN_LIMIT_DEFAULTS) {
+  const windowMs = limits.windowMinutes * 60_000;
+  /** @type {Map<string, number[]>} 실패 시각 (키: "ip:..." / "user:...") */
+  const failures = new Map();
+
+  const recent = (key, now) => {
+    const times = (failures.get(key) || []).filter((at) => now - at < windowMs);
+    if (times.length > 0) failures.set(key, times);
+    else failures.delete(key);
+    return times;
+  };
+
+  // 만료된 키를 지우고, 그래도 많으면 가장 오래된 키부터 버린다 (Map 은 삽입 순서)
+  const prune = (now) => {
+    if (failures.size < MAX_LOGIN_KEYS) return;
+    [...failures.keys()].forEach((key) => recent(key, now));
+    for (const key of failures.keys()) {
+      if (failures.size < MAX_LOGIN_KEYS) break;
+      failures.delete(key);
+    }
+  };
+
+  const keysOf = (ip, username) => [
+    [`ip:${ip || "unknown"}`, limits.failuresPerIp],
+    [`user:${String(username || "").toLowerCase().slice(0, 64)}`, limits.failuresPerUser],
+  ];
+
+  return {
+    /**
+     * @returns {number} 다시 시도할 수 있을 때까지 남은 초 (0 = 시도 가능)
+     */
+    retryAfter(ip, username) {
+      const now = Date.now();
+      let wait = 0;
+      for (const [key, limit] of keysOf(ip, username)) {
+        const times = recent(key, now);
+        if (times.length >= limit) wait = Math.max(wait, Math.ceil((times[0] + windowMs - now) / 1000));
+      }
+      return wait;
+    },
+
+    fail(ip, username) {
+      const now = Date.now();
+      prune(now);
+      keysOf(ip, username).forEach(([key]) => {
+        // 다시 넣어서 최근에 실패한 키가 Map 끝으로 가게 한다
+        const times = recent(key, now);
+        failures.delete(key);
+        failures.set(key, [...times, now]);
+      });
+    },
+
+    // 성공하면 그 계정의 실패 기록만 지운다 (IP 기록은 다른 계정 대입 시도를 막기 위해 유지)
+    succeed(username) {
+      failures.delete(keysOf("", username)[1][0]);
+    },
+  };
+}
+
+/**
+ * Express middleware: "Authorization: Bearer <token>" → req.user, otherwise 401.
+ *
+ * @param {ReturnType<typeof createAuth>} auth
+ */
+export const authenticate = (auth) => (req, res, next) => {
+  const token = (req.headers.authorization || "").replace(/^Bearer\s+/i, "");
+  const user = auth.verify(token);
+  if (!user) {
+    return res.status(401).json({ success: false, error: "로그인이 필요합니다", message: "로그인이 필요합니다" });
+  }
+  req.user = user;
+  next();
+};
+
+/**
+ * Express middleware: allows the given role and every role above it, otherwise 403.
+ *
+ * @param {'viewer' | 'editor' | 'owner'} role
+ */
+export const requireRole = (role) => (req, res, next) => {
+  if (ROLES.indexOf(req.user?.role) >= ROLES.indexOf(role)) return next();
+  const message = `권한이 없습니다 (${role} 이상 필요)`;
+  res.status(403).json({ success: false, error: message, message });
+};
@@ -0,0 +1,22 @@
+import { buildCondensePrompt, parseCondensedQuery } from "../utils/conversation.js";
+
+// ===========================
+// 후속 질문 → 독립 검색 질문 (Condense)
+// ===========================
+// 대화 기록이 없으면 LLM 호출 없이 원래 질문을 그대로 쓴다. 실패해도 원래 질문으로 검색한다.
+export async function condenseQuery({ llm, query, history }) {
+  if (history.length === 0) return query;
+
+  try {
+    const result = await llm.generate({
+      messages: [{ role: "user", text: buildCondensePrompt(query, history) }],
+      temperature: 0,
+      maxTokens: 200,
+      disableThinking: true,
+    });
+    return parseCondensedQuery(result.text, query);
+  } catch (err) {
+    console.error("❌ 질문 재작성 실패:", err);
+    return query;
+  }
+}
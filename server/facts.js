@@ -0,0 +1,74 @@
+import { factsFromChunks } from "../utils/facts.js";
+import { extractKeywords } from "../utils/keywordSearch.js";
+
+// ===========================
+// 가격 사실 (수집 시 추출 → facts 테이블 → 채팅 문맥의 가격 표)
+// ===========================
+// 추출/저장은 항상 한다. FACTS_CONTEXT=off 면 답변 문맥에 넣지 않고,
+// FACTS_CONTEXT_LIMIT 은 문맥에 넣을 최대 사실 수.
+
+export const FACTS_DEFAULTS = {
+  enabled: true,
+  limit: 12,
+};
+
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {typeof FACTS_DEFAULTS}
+ */
+export function factsConfigFromEnv(env) {
+  return {
+    enabled: env.FACTS_CONTEXT !== "off",
+    limit: parseInt(env.FACTS_CONTEXT_LIMIT, 10) || FACTS_DEFAULTS.limit,
+  };
+}
+
+// 수집 직후 추출 — 실패해도 문서 저장은 그대로 둔다
+export async function saveSourceFacts(store, sourceId, chunks) {
+  try {
+    const facts = factsFromChunks(chunks);
+    await store.replaceFacts(sourceId, facts);
+    return facts.length;
+  } catch (error) {
+    console.error(`❌ 가격 사실 저장 실패 (${sourceId}):`, error.message);
+    return 0;
+  }
+}
+
+// 기존 문서 전체에서 다시 추출 (facts 테이블 도입 전 문서 / 추출 규칙 변경 후)
+export async function rebuildFacts(store) {
+  const sources = await store.listSources();
+  let facts = 0;
+  for (const source of sources) {
+    const extracted = factsFromChunks(await store.getSourceChunks(source.sourceId));
+    await store.replaceFacts(source.sourceId, extracted);
+    facts += extracted.length;
+  }
+  return { sources: sources.length, facts };
+}
+
+/**
+ * Facts whose item matches the question's keywords: items matching more keywords
+ * first, then the most recently observed. With a search filter only facts from
+ * sources in its regions / category / tags are returned.
+ *
+ * @returns {Promise<import("../utils/facts.js").PriceFact[]>}   꺼져 있거나 조회에 실패하면 []
+ */
+export async function lookupFacts({ store, query, config = FACTS_DEFAULTS, filter = null }) {
+  if (!config.enabled) return [];
+  const terms = extractKeywords(query).filter((term) => term.length >= 2);
+  if (terms.length === 0) return [];
+
+  try {
+    const facts = await store.searchFacts({ terms, limit: config.limit * 3, ...(filter && { filter }) });
+    const matches = (fact) => terms.filter((term) => fact.itemKey.includes(term)).length;
+    return facts
+      .map((fact) => ({ fact, matches: matches(fact) }))
+      .sort((a, b) => b.matches - a.matches || (b.fact.observedAt || "").localeCompare(a.fact.observedAt || ""))
+      .slice(0, config.limit)
+      .map(({ fact }) => fact);
+  } catch (error) {
+    console.warn("⚠️ 가격 사실 조회 실패:", error.message);
+    return [];
+  }
+}
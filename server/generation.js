@@ -0,0 +1,143 @@
+import { citationUrl } from "../utils/youtube.js";
+import { detectStaleFacts, formatStaleNotice } from "../utils/freshness.js";
+import { verifyCitations } from "../utils/citations.js";
+import { formatFactsTable } from "../utils/facts.js";
+
+// 답변 생성 기본값 (전략의 generationConfig가 덮어쓸 수 있음)
+const DEFAULT_GENERATION_CONFIG = {
+  temperature: 1.9,
+  topP: 0.99,
+  maxTokens: 8192,
+};
+
+// ===========================
+// 출처 추출 (File Search grounding)
+// ===========================
+// File Search 청크 본문에 업로드 시 넣어둔 "URL: / Type: / Title:" 줄에서 출처를 꺼낸다
+export function extractGroundingSources(grounding = []) {
+  const sources = [];
+  const seenUrls = new Set();
+
+  grounding.forEach((chunk) => {
+    const text = chunk.text || "";
+    const urlMatch = text.match(/URL:\s*(https?:\/\/[^\s\)]+)/);
+    const typeMatch = text.match(/Type:\s*(\w+)/);
+    const titleMatch = text.match(/Title:\s*([^\n]+)/);
+
+    if (urlMatch && !seenUrls.has(urlMatch[1])) {
+      sources.push({
+        url: urlMatch[1],
+        type: typeMatch?.[1] || "Unknown",
+        title: titleMatch?.[1] || "제목 없음",
+        text,
+      });
+      seenUrls.add(urlMatch[1]);
+    }
+  });
+
+  return sources;
+}
+
+// ===========================
+// 인용 후보 (buildContext의 [문서 n] 순서 그대로)
+// ===========================
+// 타임스탬프가 있는 YouTube 청크는 LLM이 추측하지 않도록 정확한 ?t= 링크를 만든다
+export function citationCandidates(chunks) {
+  return chunks.map(({ content, metadata = {} }) => ({
+    url: citationUrl(metadata),
+    type: metadata.type || "Unknown",
+    title: metadata.startTime ? `${metadata.title || "제목 없음"} - ${metadata.startTime}` : metadata.title || "제목 없음",
+    date: metadata.date || "",
+    startTime: metadata.startTime,
+    text: content,
+  }));
+}
+
+export function buildContext(chunks) {
+  // 같은 주제의 더 최신 가격이 있는 문서에는 기준 시점 경고를 붙인다
+  const staleFacts = detectStaleFacts(chunks);
+
+  return chunks
+    .map((chunk, i) => {
+      const meta = chunk.metadata || {};
+      const stale = staleFacts.get(i);
+      return `[문서 ${i + 1}]
+출처: ${meta.title || "제목 없음"}
+URL: ${citationUrl(meta) || "N/A"}${meta.startTime ? `\n타임스탬프: ${meta.startTime}` : ""}
+날짜: ${meta.date || "N/A"}${stale ? `\n${formatStaleNotice(stale)}` : ""}
+내용:
+${chunk.content}
+---`;
+    })
+    .join("\n\n");
+}
+
+// 질문과 맞는 가격 사실 표 (server/facts.js lookupFacts) — 여러 문서에 흩어진 가격 이력을 한눈에
+export function buildFactsContext(facts = []) {
+  const table = formatFactsTable(facts);
+  return table ? `[가격 정보 표] 문서에서 추출한 가격입니다. 최근 가격을 우선하고, 기준일을 함께 알려주세요.\n${table}` : "";
+}
+
+// ===========================
+// 공통 생성 단계 (모든 검색 전략 공용)
+// ===========================
+function buildGenerationRequest({ query, retrieval, useWebSearch, systemPrompt, reinforcement, abortSignal, history = [] }) {
+  const facts = buildFactsContext(retrieval.facts);
+  const prompt = retrieval.chunks.length > 0
+    ? `다음 문서들을 바탕으로 답변하세요:\n\n${facts ? `${facts}\n\n` : ""}${buildContext(retrieval.chunks)}\n\n질문: ${query}${reinforcement}`
+    : `${facts ? `${facts}\n\n` : ""}${query}${reinforcement}`;
+
+  return {
+    // 이전 대화 턴을 그대로 넣고, 문서 컨텍스트는 마지막 user 턴에만 붙인다
+    messages: [...history, { role: "user", text: prompt }],
+    system: systemPrompt,
+    fileSearchStores: retrieval.fileSearchStores,
+    googleSearch: useWebSearch,
+    signal: abortSignal,
+    ...DEFAULT_GENERATION_CONFIG,
+    ...retrieval.generationConfig,
+  };
+}
+
+// ===========================
+// 출처 검증 (답변의 [[n]] / 링크 → 실제 검색 결과)
+// ===========================
+// 청크가 있으면 답변이 인용한 문서만 출처로 돌려준다.
+// 청크가 없는 전략(File Search)은 Gemini가 근거로 붙인 grounding 청크를 모두 출처로 본다.
+function verifyAnswer(answer, retrieval, grounding) {
+  const webUrls = grounding.map((chunk) => chunk.url).filter(Boolean);
+  const verified = retrieval.chunks.length > 0
+    ? verifyCitations(answer, citationCandidates(retrieval.chunks), { allowedUrls: webUrls })
+    : verifyCitations(answer, extractGroundingSources(grounding), { allowedUrls: webUrls, citeAll: true });
+
+  const { invalidMarkers, removedLinks } = verified.citations;
+  if (invalidMarkers.length > 0 || removedLinks.length > 0) {
+    console.warn(`⚠️ 출처 정리: 없는 번호 ${invalidMarkers.length}개, 검색 결과에 없는 링크 ${removedLinks.length}개`);
+  }
+  return verified;
+}
+
+// answer: 출처 검증을 거친 답변, rawAnswer: 모델이 쓴 그대로 (평가용)
+export async function generateAnswer(options) {
+  const result = await options.llm.generate(buildGenerationRequest(options));
+  const rawAnswer = result.text || "응답 생성 실패";
+
+  return { rawAnswer, ...verifyAnswer(rawAnswer, options.retrieval, result.grounding) };
+}
+
+// 스트리밍 버전: 토큰 조각마다 onDelta(text)를 호출하고, 끝나면 검증된 전체 답변과 출처를 돌려준다
+// (출처 번호가 바뀔 수 있어 클라이언트는 스트리밍한 글을 answer로 교체한다)
+export async function streamAnswer({ onDelta, ...options }) {
+  let answer = "";
+  let grounding = [];
+  for await (const chunk of options.llm.stream(buildGenerationRequest(options))) {
+    if (chunk.text) {
+      answer += chunk.text;
+      onDelta(chunk.text);
+    }
+    grounding = chunk.grounding || grounding;
+  }
+
+  const rawAnswer = answer || "응답 생성 실패";
+  return { rawAnswer, ...verifyAnswer(rawAnswer, options.retrieval, grounding) };
+}
@@ -0,0 +1,118 @@
+import {
+  GROUNDING_DEFAULTS,
+  applyJudgeResult,
+  buildJudgePrompt,
+  checkClaimsLexically,
+  extractClaims,
+  summarizeGrounding,
+} from "../utils/grounding.js";
+import { formatFactsTable } from "../utils/facts.js";
+
+// ===========================
+// 답변 근거 검증 단계 (생성 → 출처 검증 → 근거 검증)
+// ===========================
+// GROUNDING_CHECK=lexical (기본, 숫자 대조) | llm (LLM 판정 1회 추가) | off
+// 근거 비율이 GROUNDING_MIN_SUPPORT 미만이면 GROUNDING_ACTION 에 따라
+//   disclaimer (기본): 답변 끝에 확인 안내 문구를 붙인다
+//   regenerate: 근거 없는 주장을 알려주고 한 번 다시 생성한다 (/api/chat 만 — 스트림은 이미 보낸 뒤라 disclaimer)
+
+export const GROUNDING_CHECKS = ["lexical", "llm", "off"];
+export const GROUNDING_ACTIONS = ["disclaimer", "regenerate"];
+
+export const GROUNDING_DISCLAIMER =
+  "\n\n> ⚠️ 형님, 답변의 일부 가격/시간 정보는 자료에서 확인되지 않았어요. 예약 전에 꼭 한 번 더 확인해 주세요!";
+
+/**
+ * @param {Record<string, string | undefined>} env
+ */
+export function groundingConfigFromEnv(env) {
+  const check = GROUNDING_CHECKS.includes(env.GROUNDING_CHECK) ? env.GROUNDING_CHECK : "lexical";
+  const action = GROUNDING_ACTIONS.includes(env.GROUNDING_ACTION) ? env.GROUNDING_ACTION : "disclaimer";
+  const minSupport = parseFloat(env.GROUNDING_MIN_SUPPORT);
+  return { check, action, minSupport: Number.isNaN(minSupport) ? GROUNDING_DEFAULTS.minSupport : minSupport };
+}
+
+// 모델이 본 문서 그대로 (buildContext 처럼 제목/날짜 포함) — 청크가 없는 전략은 grounding 출처의 근거 구절.
+// 문맥에 넣은 가격 표도 근거다.
+function evidenceOf(retrieval, sources) {
+  const facts = retrieval.facts?.length ? [formatFactsTable(retrieval.facts)] : [];
+  if (retrieval.chunks.length > 0) {
+    return [...retrieval.chunks.map(({ content, metadata = {} }) => `${metadata.title || ""}\n${metadata.date || ""}\n${content}`), ...facts];
+  }
+  return [...sources.flatMap((source) => source.passages || []), ...facts];
+}
+
+/**
+ * Checks an answer against the retrieved documents.
+ *
+ * @returns {Promise<import("../utils/grounding.js").GroundingReport | null>}
+ *          null when off, with web search (web pages are not in the evidence) or without evidence
+ */
+export async function checkGrounding({ llm, answer, retrieval, sources, useWebSearch, config }) {
+  if (config.check === "off" || useWebSearch) return null;
+  const evidence = evidenceOf(retrieval, sources);
+  if (evidence.length === 0) return null;
+
+  const claims = extractClaims(answer, { includeText: config.check === "llm" });
+  const lexical = checkClaimsLexically(claims, evidence);
+  if (config.check !== "llm" || claims.length === 0) return summarizeGrounding("lexical", lexical);
+
+  try {
+    const result = await llm.generate({
+      messages: [{ role: "user", text: buildJudgePrompt(claims, evidence) }],
+      temperature: 0,
+      json: true,
+      disableThinking: true,
+    });
+    return summarizeGrounding("llm", applyJudgeResult(result.text, lexical));
+  } catch (error) {
+    console.error("❌ 근거 판정 실패 (숫자 대조로 대체):", error.message);
+    return summarizeGrounding("lexical", lexical);
+  }
+}
+
+const belowThreshold = (report, config) => report?.supportRatio != null && report.supportRatio < config.minSupport;
+
+// 재생성 요청에 덧붙일 안내
+const regenerateNote = (report) => {
+  const claims = report.claims
+    .filter((claim) => claim.status === "unsupported" || claim.status === "partial")
+    .map((claim) => `- ${claim.text}`)
+    .join("\n");
+  return `\n\n[검증 결과] 이전 답변의 다음 내용은 제공된 문서에서 확인되지 않았습니다:\n${claims}\n문서에 적힌 가격/시간/장소만 사용해서 다시 답변하세요. 문서에 없으면 "자료에 없다"고 말하세요.`;
+};
+
+/**
+ * Runs the grounding check on a generated answer and applies the low-support action.
+ *
+ * @param {Object} options
+ * @param {{ answer: string, sources: Object[] }} options.generated   generateAnswer / streamAnswer 결과
+ * @param {((note: string) => Promise<{ answer: string, sources: Object[] }>) | null} options.regenerate
+ *        재생성 함수 (스트림처럼 재생성할 수 없으면 null)
+ * @returns {Promise<{ generated: Object, grounding: (import("../utils/grounding.js").GroundingReport & { action: string | null }) | null }>}
+ */
+export async function groundAnswer({ llm, generated, retrieval, useWebSearch, config, regenerate }) {
+  const check = (candidate) =>
+    checkGrounding({ llm, answer: candidate.answer, retrieval, sources: candidate.sources, useWebSearch, config });
+
+  let report = await check(generated);
+  if (!belowThreshold(report, config)) return { generated, grounding: report && { ...report, action: null } };
+
+  if (config.action === "regenerate" && regenerate) {
+    console.log(`🔁 근거 부족 (${report.supportRatio.toFixed(2)}) → 재생성`);
+    const retried = await regenerate(regenerateNote(report));
+    const retriedReport = await check(retried);
+    // 다시 만든 답변이 더 나을 때만 바꾼다
+    if ((retriedReport?.supportRatio ?? 1) > report.supportRatio) {
+      generated = retried;
+      report = retriedReport;
+    }
+    if (!belowThreshold(report, config)) return { generated, grounding: report && { ...report, action: "regenerated" } };
+  }
+
+  console.log(`⚠️ 근거 부족 (${report.supportRatio.toFixed(2)}) → 안내 문구 추가`);
+  return {
+    generated: { ...generated, answer: generated.answer + GROUNDING_DISCLAIMER },
+    grounding: { ...report, action: "disclaimer" },
+  };
+}
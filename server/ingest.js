@@ -0,0 +1,233 @@
+import { CHUNKERS, DEFAULT_CHUNKERS, chunkBySourceType } from "../utils/textProcessing.js";
+import { contentHash, findExistingSources, normalizeUrl } from "../utils/dedup.js";
+import { parseTaxonomy, suggestTaxonomyByKeywords } from "../utils/taxonomy.js";
+import { saveSourceFacts } from "./facts.js";
+
+// ===========================
+// 메타데이터 정규화
+// ===========================
+// Admin 업로드 폼은 source: 'youtube' | 'blog', type: 'YouTube 영상' | '네이버 블로그'를 보내지만
+// documents 테이블에는 IngestionPanel과 같은 SourceType 값(YOUTUBE/BLOG)으로 저장한다.
+export function normalizeSourceType(metadata = {}) {
+  const raw = `${metadata.source || ""} ${metadata.type || ""}`.toLowerCase();
+  return raw.includes("youtube") || raw.includes("유튜브") ? "YOUTUBE" : "BLOG";
+}
+
+// 소스 유형별 청커: CHUNKER_BLOG=markdown|smart, CHUNKER_YOUTUBE=transcript|smart (utils/textProcessing.js CHUNKERS)
+// 이미 저장된 문서는 다시 나누지 않는다 — 바꾼 청커는 새로 수집하거나 교체(replace)한 소스부터 적용된다.
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {Record<string, string>}
+ */
+export function chunkerConfigFromEnv(env) {
+  const pick = (name, fallback) => (name && CHUNKERS[name] ? name : fallback);
+  return {
+    YOUTUBE: pick(env.CHUNKER_YOUTUBE, DEFAULT_CHUNKERS.YOUTUBE),
+    BLOG: pick(env.CHUNKER_BLOG, DEFAULT_CHUNKERS.BLOG),
+  };
+}
+
+// 지역/카테고리/태그: 요청에 준 값 > 같은 문서의 이전 버전 값 > 제목/본문 키워드 추천 (애매하면 비워 둔다).
+// '' 를 주면 추천 없이 비운다. 요청 값 검사는 server.js uploadRequestError (parseTaxonomy).
+/**
+ * @param {Object} metadata
+ * @param {string} content
+ * @param {import("../store/index.js").SourceSummary[]} existing
+ * @returns {{ region: string, category: string, tags: string[] }}
+ */
+function ingestTaxonomy(metadata, content, existing = []) {
+  const parsed = parseTaxonomy(metadata);
+  const given = "taxonomy" in parsed ? parsed.taxonomy : {};
+  const previous = existing[0];
+  const suggested = suggestTaxonomyByKeywords({ title: metadata.title, content });
+  return {
+    region: given.region ?? (previous?.region || suggested.region),
+    category: given.category ?? (previous?.category || suggested.category),
+    tags: given.tags ?? previous?.tags ?? [],
+  };
+}
+
+// 같은 URL/본문이 이미 있을 때의 처리: 교체 / 건너뛰기 / 새 버전으로 추가
+export const DUPLICATE_ACTIONS = ["replace", "skip", "new_version"];
+
+// ===========================
+// 수집 계획 (중복 확인 → 버전 / 청크 결정, 임베딩 전)
+// ===========================
+// /api/admin/upload (ingestDocument) 와 수집 작업 큐(server/jobs.js)가 함께 사용한다.
+// 기존 소스가 발견됐는데 onDuplicate가 없으면 status: "duplicate", skip이면 "skipped" — 둘 다 아무것도 저장하지 않는다.
+export async function planIngest({ store, content, metadata = {}, onDuplicate, chunkers = DEFAULT_CHUNKERS }) {
+  // 같은 ms에 들어온 제출끼리도 겹치지 않게 (recheckDuplicates 는 자기 sourceId를 빼고 비교한다)
+  const sourceId = `source_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const url = metadata.url || "";
+  const type = normalizeSourceType(metadata);
+
+  const normalizedUrl = normalizeUrl(url);
+  const hash = await contentHash(content);
+  const existing = await findExistingSources(store, { url, normalizedUrl, contentHash: hash });
+
+  if (existing.length > 0 && !onDuplicate) return { status: "duplicate", existing };
+  if (existing.length > 0 && onDuplicate === "skip") return { status: "skipped", existing };
+
+  const replacing = existing.length > 0 && onDuplicate === "replace";
+  const latestVersion = Math.max(0, ...existing.map((source) => source.version));
+  const version = existing.length === 0 ? 1 : replacing ? latestVersion : latestVersion + 1;
+
+  return {
+    status: replacing ? "replaced" : existing.length > 0 ? "new_version" : "inserted",
+    existing,
+    sourceId,
+    // 저장 직전 중복 재확인(recheckDuplicates)에서 같은 규칙을 다시 적용한다
+    onDuplicate: onDuplicate || "",
+    // 교체할 기존 소스 (일부 청크라도 실패하면 지우지 않는다)
+    replaceSourceIds: replacing ? existing.map((source) => source.sourceId) : [],
+    metadata: {
+      sourceId,
+      title: metadata.title || "",
+      url,
+      date: metadata.date || "",
+      type,
+      ...ingestTaxonomy(metadata, content, existing),
+      normalizedUrl,
+      contentHash: hash,
+      version,
+    },
+    // YouTube 자막은 타임스탬프 큐 단위로 분할 (chunk.startTime / startSeconds),
+    // 블로그 글은 제목 구조 단위로 분할 (chunk.section: 제목 경로)
+    chunks: chunkBySourceType(content, sourceId, type, chunkers).map((chunk, i) => ({
+      chunkIndex: i,
+      text: chunk.text,
+      startTime: chunk.startTime,
+      startSeconds: chunk.startSeconds,
+      section: chunk.section,
+    })),
+  };
+}
+
+// [Contextual Embedding] IngestionPanel과 동일하게 제목/날짜를 포함해 임베딩
+export const embeddingText = (plan, chunk) => `Title: ${plan.metadata.title}\nDate: ${plan.metadata.date}\nContent: ${chunk.text}`;
+
+// embeddingModel: 벡터를 만든 모델 — 검색은 같은 모델의 청크끼리만 비교한다 (store/embeddings.js)
+export const chunkRow = (plan, chunk, embedding, embeddingModel) => ({
+  content: chunk.text,
+  embedding,
+  metadata: {
+    ...plan.metadata,
+    chunkIndex: chunk.chunkIndex,
+    startTime: chunk.startTime,
+    startSeconds: chunk.startSeconds,
+    section: chunk.section,
+    embeddingModel,
+    embeddingDimensions: embedding?.length,
+  },
+});
+
+// 저장 직전에 같은 소스가 먼저 저장된 경우 (동시에 제출된 같은 URL/본문) — status: "duplicate" | "skipped"
+export class DuplicateSourceError extends Error {
+  constructor(status, existing) {
+    super("같은 소스가 먼저 저장되어 저장하지 않았습니다");
+    this.status = status;
+    this.existing = existing;
+  }
+}
+
+/**
+ * Repeats planIngest's duplicate check right before saving. Embedding takes a while,
+ * so the same URL/content submitted twice passes planIngest both times; whichever
+ * saves second sees the first here and gets the plan's onDuplicate rule applied
+ * again (replace → also replaces the newcomer, new_version → next version number).
+ *
+ * @throws {DuplicateSourceError} onDuplicate가 없거나 skip일 때
+ * @returns {Promise<Object>} 새로 생긴 소스를 반영한 plan (없으면 그대로)
+ */
+export async function recheckDuplicates(store, plan) {
+  const { url, normalizedUrl, contentHash: hash } = plan.metadata;
+  const known = new Set([plan.sourceId, ...plan.existing.map((source) => source.sourceId)]);
+  const newcomers = (await findExistingSources(store, { url, normalizedUrl, contentHash: hash }))
+    .filter((source) => !known.has(source.sourceId));
+  if (newcomers.length === 0) return plan;
+
+  const existing = [...plan.existing, ...newcomers];
+  if (!plan.onDuplicate || plan.onDuplicate === "skip") {
+    throw new DuplicateSourceError(plan.onDuplicate ? "skipped" : "duplicate", existing);
+  }
+  const replacing = plan.onDuplicate === "replace";
+  const latestVersion = Math.max(0, ...existing.map((source) => source.version));
+  return {
+    ...plan,
+    status: replacing ? "replaced" : "new_version",
+    existing,
+    replaceSourceIds: replacing ? existing.map((source) => source.sourceId) : [],
+    metadata: { ...plan.metadata, version: replacing ? latestVersion : latestVersion + 1 },
+  };
+}
+
+/**
+ * Saves embedded rows: replaces the old sources in one transaction when the plan
+ * replaces, inserts otherwise. allRows (default rows) are every stored chunk of the
+ * source, for re-extracting its price facts. Unless plan.appending (the rest of a
+ * source that is already stored), duplicates are checked again first.
+ *
+ * @throws {DuplicateSourceError}
+ * @returns {Promise<{ facts: number, plan: Object }>} 저장한 가격 사실 수, 실제로 적용한 plan
+ */
+export async function commitRows(store, plan, rows, allRows = rows) {
+  const checked = plan.appending ? plan : await recheckDuplicates(store, plan);
+  const versioned = (list) =>
+    checked === plan ? list : list.map((row) => ({ ...row, metadata: { ...row.metadata, version: checked.metadata.version } }));
+
+  if (checked.replaceSourceIds.length > 0) {
+    await store.replaceSource(checked.replaceSourceIds, versioned(rows));
+  } else if (rows.length > 0) {
+    await store.insertChunks(versioned(rows));
+  }
+  // 교체된 기존 청크의 사실은 청크와 함께 지워졌다 (store.replaceFacts 참고)
+  const facts = allRows.length > 0 ? await saveSourceFacts(store, checked.sourceId, versioned(allRows)) : 0;
+  return { facts, plan: checked };
+}
+
+// ===========================
+// 문서 수집 파이프라인 (청킹 → 임베딩 → documents 저장 → 가격 사실 추출)
+// ===========================
+// 요청 안에서 끝까지 처리한다. 큰 문서는 수집 작업 큐(POST /api/admin/jobs)를 쓴다.
+export async function ingestDocument({ embedder, store, content, metadata = {}, onDuplicate, chunkers }) {
+  const plan = await planIngest({ store, content, metadata, onDuplicate, chunkers });
+  if (plan.status === "duplicate" || plan.status === "skipped") {
+    return { status: plan.status, sourceId: "", totalChunks: 0, insertedChunks: 0, failedChunks: [], facts: 0, existing: plan.existing };
+  }
+
+  const rowsToInsert = [];
+  const failedChunks = [];
+
+  for (const chunk of plan.chunks) {
+    try {
+      rowsToInsert.push(chunkRow(plan, chunk, await embedder.embed(embeddingText(plan, chunk)), embedder.embeddingModel));
+    } catch (err) {
+      console.error(`❌ 청크 ${chunk.chunkIndex} 임베딩 실패:`, err);
+      failedChunks.push({ chunkIndex: chunk.chunkIndex, error: err.message });
+    }
+  }
+
+  // 일부라도 실패하면 기존 문서를 지우지 않는다 (반쪽짜리 교체 방지)
+  if (plan.replaceSourceIds.length > 0 && failedChunks.length > 0) {
+    throw new Error(`${failedChunks.length}개 청크 임베딩 실패로 기존 문서를 교체하지 않았습니다`);
+  }
+  let committed;
+  try {
+    committed = await commitRows(store, plan, rowsToInsert);
+  } catch (err) {
+    if (!(err instanceof DuplicateSourceError)) throw err;
+    console.warn(`⚠️ "${plan.metadata.title}" 저장 직전 같은 소스 발견 (${err.status})`);
+    return { status: err.status, sourceId: "", totalChunks: 0, insertedChunks: 0, failedChunks: [], facts: 0, existing: err.existing };
+  }
+  const { facts, plan: saved } = committed;
+
+  return {
+    status: saved.status,
+    existing: saved.existing,
+    sourceId: plan.sourceId,
+    totalChunks: plan.chunks.length,
+    insertedChunks: rowsToInsert.length,
+    failedChunks,
+    facts,
+  };
+}
@@ -0,0 +1,330 @@
+import { DuplicateSourceError, chunkRow, commitRows, embeddingText, planIngest } from "./ingest.js";
+
+// ===========================
+// 수집 작업 큐 (소스 제출 → 작업 id → 워커가 배치 임베딩 → documents 저장)
+// ===========================
+// - 작업은 한 번에 하나씩, 작업 안의 청크는 JOBS_CONCURRENCY 개씩 병렬로 임베딩
+// - 429 / 5xx 는 지수 백오프로 JOBS_MAX_ATTEMPTS 번까지 재시도, 다른 오류는 바로 실패 처리
+// - 배치마다 새로 만든 임베딩(job_embeddings)과 진행률만 저장 → 서버가 재시작돼도 남은 청크부터 이어서 처리
+//   (작업 행에는 임베딩을 싣지 않는다 — 배치마다 작업 전체를 다시 쓰지 않도록)
+// - 교체(replace) 작업은 모든 청크가 성공해야 기존 문서를 바꾼다. 그 외에는 성공한 청크를 먼저 저장하고
+//   실패한 청크만 나중에 다시 시도한다 (POST /api/admin/jobs/:id/retry)
+
+/**
+ * @typedef {'pending' | 'embedded' | 'stored' | 'failed'} JobChunkStatus
+ */
+
+/**
+ * @typedef {Object} JobChunk
+ * @property {number} chunkIndex
+ * @property {string} text
+ * @property {string} [startTime]
+ * @property {number} [startSeconds]
+ * @property {string} [section]
+ * @property {JobChunkStatus} status
+ * @property {number} attempts
+ * @property {string} error
+ * @property {number[] | null} embedding   메모리에만 — 저장은 store.saveJobEmbeddings, documents에 저장되면 비운다
+ * @property {string} [embeddingModel]      embedding을 만든 모델
+ */
+
+/**
+ * @typedef {Object} IngestJob
+ * @property {number} id
+ * @property {'queued' | 'running' | 'completed' | 'partial' | 'failed'} status
+ *           partial: 일부 청크만 저장됨 (실패한 청크 재시도 가능)
+ * @property {string} title
+ * @property {string} createdBy
+ * @property {{ content: string, metadata: Object, onDuplicate?: string }} input
+ * @property {Object} plan           planIngest() 결과 (chunks 제외)
+ * @property {JobChunk[]} chunks
+ * @property {{ total: number, embedded: number, stored: number, failed: number }} progress
+ * @property {string} error
+ * @property {{ status: string, sourceId: string, insertedChunks: number, facts: number } | null} result
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ * @property {string | null} finishedAt
+ */
+
+export const JOBS_DEFAULTS = {
+  concurrency: 4,
+  maxAttempts: 5,
+  retryBaseMs: 1000,
+  retryMaxMs: 30_000,
+};
+
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {typeof JOBS_DEFAULTS}
+ */
+export function jobsConfigFromEnv(env) {
+  return {
+    concurrency: parseInt(env.JOBS_CONCURRENCY, 10) || JOBS_DEFAULTS.concurrency,
+    maxAttempts: parseInt(env.JOBS_MAX_ATTEMPTS, 10) || JOBS_DEFAULTS.maxAttempts,
+    retryBaseMs: parseInt(env.JOBS_RETRY_BASE_MS, 10) || JOBS_DEFAULTS.retryBaseMs,
+    retryMaxMs: parseInt(env.JOBS_RETRY_MAX_MS, 10) || JOBS_DEFAULTS.retryMaxMs,
+  };
+}
+
+// Gemini SDK는 error.status, OpenAI 호환 공급자는 메시지에 "(429)" 처럼 상태 코드를 싣는다
+const RETRYABLE_STATUS = [429, 500, 502, 503, 504];
+export const isRetryable = (error) =>
+  RETRYABLE_STATUS.includes(error?.status) ||
+  /\((429|5\d\d)\)|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|ECONNRESET|ETIMEDOUT|fetch failed/i.test(error?.message || "");
+
+// 지수 백오프 + 지터 (1초, 2초, 4초 ... 최대 retryMaxMs)
+const backoffMs = (attempt, config) =>
+  Math.min(config.retryMaxMs, config.retryBaseMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One embedding with the queue's retry policy, for callers outside a job
+ * (re-embedding, source edits). Throws the last error.
+ *
+ * @param {import("../providers/index.js").EmbeddingProvider} embedder
+ * @param {string} text
+ * @param {typeof JOBS_DEFAULTS} [config]
+ * @returns {Promise<number[]>}
+ */
+export async function embedWithRetry(embedder, text, config = JOBS_DEFAULTS) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await embedder.embed(text);
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= config.maxAttempts) throw error;
+      await sleep(backoffMs(attempt, config));
+    }
+  }
+}
+
+const TERMINAL = ["completed", "partial", "failed"];
+
+export const jobProgress = (chunks) => ({
+  total: chunks.length,
+  embedded: chunks.filter((chunk) => chunk.status === "embedded" || chunk.status === "stored").length,
+  stored: chunks.filter((chunk) => chunk.status === "stored").length,
+  failed: chunks.filter((chunk) => chunk.status === "failed").length,
+});
+
+// API 응답용 — 본문과 임베딩은 빼고 청크 상태만
+export const publicJob = ({ input, chunks, ...job }) => ({
+  ...job,
+  chunks: chunks?.map(({ text, embedding, ...chunk }) => chunk),
+});
+
+/**
+ * @param {Object} options
+ * @param {import("../store/index.js").KnowledgeStore} options.store
+ * @param {import("../providers/index.js").EmbeddingProvider} options.embedder
+ * @param {typeof JOBS_DEFAULTS} options.config
+ * @param {Record<string, string>} [options.chunkers]   소스 유형별 청커 (chunkerConfigFromEnv)
+ */
+export function createJobQueue({ store, embedder, config, chunkers }) {
+  /** @type {number[]} */
+  const waiting = [];
+  let active = null;
+
+  const save = async (job) => {
+    job.progress = jobProgress(job.chunks);
+    await store.updateJob({ ...job, chunks: job.chunks.map(({ embedding, ...chunk }) => chunk) });
+  };
+
+  // 배치 하나가 끝날 때: 그 배치의 임베딩과 진행률만
+  const saveBatch = async (job, batch) => {
+    const rows = batch
+      .filter((chunk) => chunk.status === "embedded")
+      .map((chunk) => ({ chunkIndex: chunk.chunkIndex, embedding: chunk.embedding, model: chunk.embeddingModel }));
+    if (rows.length > 0) await store.saveJobEmbeddings(job.id, rows);
+    job.progress = jobProgress(job.chunks);
+    await store.updateJobProgress(job.id, job.progress);
+  };
+
+  // 이전 실행에서 저장한 임베딩을 청크에 붙인다 (임베딩이 없는 embedded 청크는 다시 임베딩)
+  const loadEmbeddings = async (job) => {
+    const saved = new Map((await store.getJobEmbeddings(job.id)).map((row) => [row.chunkIndex, row]));
+    job.chunks.forEach((chunk) => {
+      if (chunk.status === "stored") return;
+      const row = saved.get(chunk.chunkIndex);
+      if (row) Object.assign(chunk, { status: "embedded", embedding: row.embedding, embeddingModel: row.model, error: "" });
+      else if (chunk.status === "embedded" && !chunk.embedding) chunk.status = "pending";
+    });
+  };
+
+  const embedChunk = async (job, chunk) => {
+    while (true) {
+      chunk.attempts++;
+      try {
+        chunk.embedding = await embedder.embed(embeddingText(job.plan, chunk));
+        chunk.embeddingModel = embedder.embeddingModel;
+        chunk.status = "embedded";
+        chunk.error = "";
+        return;
+      } catch (error) {
+        chunk.error = error.message;
+        if (!isRetryable(error) || chunk.attempts >= config.maxAttempts) {
+          console.error(`❌ 작업 #${job.id} 청크 ${chunk.chunkIndex} 임베딩 실패 (${chunk.attempts}회):`, error.message);
+          chunk.status = "failed";
+          return;
+        }
+        const delay = backoffMs(chunk.attempts, config);
+        console.warn(`⏳ 작업 #${job.id} 청크 ${chunk.chunkIndex} 재시도 ${chunk.attempts}/${config.maxAttempts} (${Math.round(delay)}ms 후)`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  // 임베딩이 끝난 청크를 documents에 저장 — 교체 작업은 전부 성공했을 때만
+  const commit = async (job) => {
+    const failed = job.chunks.filter((chunk) => chunk.status === "failed");
+    const ready = job.chunks.filter((chunk) => chunk.status === "embedded");
+    const replacing = job.plan.replaceSourceIds.length > 0;
+
+    if (replacing && failed.length > 0) {
+      return `${failed.length}개 청크 임베딩 실패로 기존 문서를 교체하지 않았습니다`;
+    }
+    if (ready.length > 0) {
+      const stored = job.chunks.filter((chunk) => chunk.status === "stored");
+      const { facts, plan } = await commitRows(
+        store,
+        job.plan,
+        ready.map((chunk) => chunkRow(job.plan, chunk, chunk.embedding, chunk.embeddingModel)),
+        [...stored, ...ready].map((chunk) => chunkRow(job.plan, chunk, null))
+      );
+      ready.forEach((chunk) => {
+        chunk.status = "stored";
+        chunk.embedding = null;
+      });
+      // 이어서 저장하는 청크는 추가만 한다 (기존 문서 교체와 중복 재확인은 이미 끝났다)
+      job.plan = { ...plan, replaceSourceIds: [], appending: true };
+      job.result = {
+        status: plan.status,
+        sourceId: job.plan.sourceId,
+        insertedChunks: jobProgress(job.chunks).stored,
+        facts,
+      };
+    }
+    return failed.length > 0 ? `${failed.length}개 청크 임베딩 실패` : "";
+  };
+
+  const run = async (id) => {
+    const job = await store.getJob(id);
+    if (!job || TERMINAL.includes(job.status)) return;
+
+    console.log(`⚙️ 작업 #${job.id} 시작: "${job.title}" (${job.chunks.length}개 청크)`);
+    await loadEmbeddings(job);
+    job.status = "running";
+    await save(job);
+
+    const pending = job.chunks.filter((chunk) => chunk.status === "pending");
+    for (let i = 0; i < pending.length; i += config.concurrency) {
+      const batch = pending.slice(i, i + config.concurrency);
+      await Promise.all(batch.map((chunk) => embedChunk(job, chunk)));
+      await saveBatch(job, batch);
+    }
+
+    try {
+      job.error = await commit(job);
+    } catch (error) {
+      if (error instanceof DuplicateSourceError) {
+        console.warn(`⚠️ 작업 #${job.id}: ${error.message} (${error.status})`);
+        job.error = error.message;
+        job.result = { status: error.status, sourceId: "", insertedChunks: 0, facts: 0 };
+        job.chunks.forEach((chunk) => {
+          chunk.embedding = null;
+        });
+      } else {
+        console.error(`❌ 작업 #${job.id} 저장 실패:`, error);
+        job.error = `저장 실패: ${error.message}`;
+      }
+    }
+    // 남은 임베딩이 없으면 (모두 저장됐거나 중복으로 버렸으면) 지운다 — 교체 보류된 임베딩은 재시도용으로 남긴다
+    if (!job.chunks.some((chunk) => chunk.embedding)) await store.deleteJobEmbeddings(job.id);
+    const progress = jobProgress(job.chunks);
+    job.status = progress.stored === progress.total ? "completed" : progress.stored > 0 ? "partial" : "failed";
+    job.finishedAt = new Date().toISOString();
+    await save(job);
+    console.log(`${job.status === "completed" ? "✅" : "⚠️"} 작업 #${job.id} ${job.status} | ${progress.stored}/${progress.total} 청크`);
+  };
+
+  const next = async () => {
+    if (active !== null || waiting.length === 0) return;
+    active = waiting.shift();
+    try {
+      await run(active);
+    } catch (error) {
+      // 진행 상황 저장 자체가 실패 — queued/running 으로 남아 재시작 시 이어서 처리된다
+      console.error(`❌ 작업 #${active} 처리 중단:`, error);
+    } finally {
+      active = null;
+      next();
+    }
+  };
+
+  const enqueue = (id) => {
+    if (active === id || waiting.includes(id)) return;
+    waiting.push(id);
+    next();
+  };
+
+  return {
+    /**
+     * Plans the source and queues a job. Duplicates (without onDuplicate) and skips
+     * return without a job, like ingestDocument.
+     *
+     * @returns {Promise<{ status: string, existing: Object[], job?: IngestJob }>}
+     */
+    async submit({ content, metadata = {}, onDuplicate }, createdBy = "") {
+      const { chunks, ...plan } = await planIngest({ store, content, metadata, onDuplicate, chunkers });
+      if (plan.status === "duplicate" || plan.status === "skipped") return { status: plan.status, existing: plan.existing };
+
+      const jobChunks = chunks.map((chunk) => ({ ...chunk, status: "pending", attempts: 0, error: "", embedding: null }));
+      const job = await store.createJob({
+        status: "queued",
+        title: plan.metadata.title,
+        createdBy,
+        input: { content, metadata, onDuplicate },
+        plan,
+        chunks: jobChunks,
+        progress: jobProgress(jobChunks),
+        error: "",
+        result: null,
+        finishedAt: null,
+      });
+      console.log(`📥 작업 #${job.id} 등록: "${job.title}" (${jobChunks.length}개 청크)`);
+      enqueue(job.id);
+      return { status: plan.status, existing: plan.existing, job };
+    },
+
+    /**
+     * Puts the failed chunks of a finished job back in the queue, or resumes a job
+     * that stopped mid-run (e.g. the server restarted).
+     *
+     * @returns {Promise<IngestJob | null>}   null: 없는 작업
+     */
+    async retry(id) {
+      const job = await store.getJob(id);
+      if (!job) return null;
+      if (job.status === "completed" || active === job.id || waiting.includes(job.id)) return job;
+
+      job.chunks.forEach((chunk) => {
+        if (chunk.status === "failed") Object.assign(chunk, { status: "pending", attempts: 0, error: "" });
+      });
+      job.status = "queued";
+      job.error = "";
+      job.finishedAt = null;
+      await save(job);
+      enqueue(job.id);
+      return job;
+    },
+
+    // 서버 시작 시: 끝나지 않은 작업을 이어서 처리
+    async resume() {
+      const unfinished = (await store.listJobs({ limit: 200 }))
+        .filter((job) => job.status === "queued" || job.status === "running")
+        .reverse();
+      unfinished.forEach((job) => enqueue(job.id));
+      return unfinished.length;
+    },
+  };
+}
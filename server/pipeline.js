@@ -0,0 +1,52 @@
+import { condenseQuery } from "./conversation.js";
+import { trimHistory } from "../utils/conversation.js";
+import { applyRecency, detectStaleFacts } from "../utils/freshness.js";
+import { FACTS_DEFAULTS, lookupFacts } from "./facts.js";
+import { resolveSearchFilter } from "../utils/taxonomy.js";
+
+// ===========================
+// 검색 단계 (대화 기록 → 독립 질문 → 지역/카테고리 필터 → 전략 실행 → 최신성 랭킹 → 가격 사실)
+// ===========================
+// server.js 의 /api/chat, /api/chat/stream 과 eval/run.js 가 함께 사용한다.
+// filters: 채팅 필터에서 고른 지역/카테고리/태그 (parseTaxonomy 결과). 지역을 고르지 않으면 독립 질문에서 지역을 찾는다.
+export async function runRetrieval({ llm, embedder, store, strategy, query, history, useWebSearch, settings, recency, facts = FACTS_DEFAULTS, filters = null }) {
+  const chatHistory = trimHistory(history);
+  const searchQuery = await condenseQuery({ llm, query, history: chatHistory });
+  if (searchQuery !== query) {
+    console.log(`🔁 질문 재작성: "${searchQuery}"`);
+  }
+  // "거기 호텔은?" 같은 후속 질문도 재작성된 질문에서 지역을 찾는다
+  const { filter, source: filterSource } = resolveSearchFilter(filters, searchQuery);
+  if (filter) {
+    console.log(`🏷️ 검색 필터 (${filterSource}): ${JSON.stringify(filter)}`);
+  }
+
+  const retrieval = await strategy.retrieve({
+    query: searchQuery,
+    useWebSearch,
+    llm,
+    embedder,
+    store,
+    settings,
+    filter,
+  });
+
+  // 랭킹 단계: 검색 점수에 문서 날짜 기반 최신성 감쇠를 섞어 재정렬
+  retrieval.chunks = applyRecency(retrieval.chunks, recency);
+  const staleFacts = detectStaleFacts(retrieval.chunks).size;
+  // 생성 단계가 문맥에 붙일 가격 표 (buildFactsContext)
+  // 검색과 같은 필터로 — 보홀 질문에 세부 가격이 섞이지 않도록
+  retrieval.facts = await lookupFacts({ store, query: searchQuery, config: facts, filter });
+
+  retrieval.debug = {
+    ...retrieval.debug,
+    searchQuery,
+    historyTurns: chatHistory.length,
+    recency,
+    staleFacts,
+    facts: retrieval.facts.length,
+    filter: filter && { ...filter, source: filterSource, applied: strategy.filters !== false },
+  };
+
+  return { retrieval, chatHistory };
+}
@@ -0,0 +1,88 @@
+import { chunkEmbeddingModel } from "../store/embeddings.js";
+import { embeddingText } from "./ingest.js";
+import { JOBS_DEFAULTS, embedWithRetry } from "./jobs.js";
+
+// ===========================
+// 임베딩 모델 교체 (전체 청크 다시 임베딩 → 검색 품질 비교 → cutover)
+// ===========================
+// 새 모델 벡터는 documents가 아니라 섀도 저장소(store.saveShadowEmbeddings)에 쌓이므로
+// 다시 임베딩하는 동안에도 서비스 검색은 기존 벡터 그대로다. 중단돼도 다시 실행하면 남은 청크부터 이어서 한다.
+// 사용법은 scripts/reembed.js
+
+const PAGE_SIZE = 500;
+
+/**
+ * @typedef {Object} ReembedProgress
+ * @property {number} scanned     훑어본 청크 수
+ * @property {number} embedded    이번 실행에서 새로 임베딩한 청크 수
+ * @property {number} skipped     이미 새 모델 벡터가 있거나 새 모델로 만든 청크
+ * @property {{ id: number, error: string }[]} failed
+ */
+
+/**
+ * Embeds every stored chunk with `embedder` into the shadow store, JOBS_CONCURRENCY
+ * chunks at a time, saving after each batch. Chunks that already have a shadow vector
+ * (an earlier, interrupted run) or were embedded with the new model are skipped.
+ *
+ * @param {Object} options
+ * @param {import("../store/index.js").KnowledgeStore} options.store
+ * @param {import("../providers/index.js").EmbeddingProvider} options.embedder   새 모델
+ * @param {typeof JOBS_DEFAULTS} [options.config]
+ * @param {(progress: ReembedProgress) => void} [options.onProgress]
+ * @returns {Promise<ReembedProgress>}
+ */
+export async function reembedCorpus({ store, embedder, config = JOBS_DEFAULTS, onProgress }) {
+  const model = embedder.embeddingModel;
+  const done = new Set(await store.listShadowEmbeddingIds(model));
+  /** @type {ReembedProgress} */
+  const progress = { scanned: 0, embedded: 0, skipped: 0, failed: [] };
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await store.listChunks({ offset, limit: PAGE_SIZE });
+    const pending = page.filter((chunk) => !done.has(chunk.id) && chunkEmbeddingModel(chunk.metadata) !== model);
+    progress.scanned += page.length;
+    progress.skipped += page.length - pending.length;
+
+    for (let i = 0; i < pending.length; i += config.concurrency) {
+      const batch = pending.slice(i, i + config.concurrency);
+      const results = await Promise.all(batch.map(async (chunk) => {
+        // 수집 때와 같은 문맥(제목/날짜)을 붙여 임베딩한다
+        const text = embeddingText({ metadata: chunk.metadata }, { text: chunk.content });
+        try {
+          return { id: chunk.id, embedding: await embedWithRetry(embedder, text, config) };
+        } catch (error) {
+          progress.failed.push({ id: chunk.id, error: error.message });
+          return null;
+        }
+      }));
+      const rows = results.filter(Boolean);
+      await store.saveShadowEmbeddings(model, rows);
+      progress.embedded += rows.length;
+      onProgress?.(progress);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+  return progress;
+}
+
+/**
+ * Chunk counts per embedding model, plus how far the shadow vectors of `targetModel`
+ * have got (chunks still on another model without a shadow vector = remaining).
+ *
+ * @param {import("../store/index.js").KnowledgeStore} store
+ * @param {string} [targetModel]
+ */
+export async function embeddingStatus(store, targetModel) {
+  const models = await store.listEmbeddingModels();
+  const total = models.reduce((sum, entry) => sum + entry.chunks, 0);
+  if (!targetModel) return { total, models, shadow: null };
+
+  const onTarget = models.filter((entry) => entry.model === targetModel).reduce((sum, entry) => sum + entry.chunks, 0);
+  const shadowed = (await store.listShadowEmbeddingIds(targetModel)).length;
+  return {
+    total,
+    models,
+    shadow: { model: targetModel, embedded: shadowed, remaining: Math.max(0, total - onTarget - shadowed) },
+  };
+}
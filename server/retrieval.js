@@ -0,0 +1,44 @@
+// ===========================
+// 검색 전략 공통 타입 & 헬퍼
+// ===========================
+
+/**
+ * @typedef {Object} RankedChunk
+ * @property {string} content       청크 본문 (또는 전략이 가공한 요약문)
+ * @property {Object} metadata      documents.metadata (sourceId, title, url, date, type, chunkIndex)
+ * @property {number} score         전략 내부 랭킹 점수 (높을수록 관련도 높음)
+ */
+
+/**
+ * @typedef {Object} RetrievalContext
+ * @property {string} query
+ * @property {boolean} useWebSearch
+ * @property {import("../providers/index.js").LLMProvider} llm
+ * @property {import("../providers/index.js").EmbeddingProvider} embedder
+ * @property {import("../store/index.js").KnowledgeStore} store
+ * @property {{ fileSearchStoreName: string | null }} settings
+ * @property {import("../utils/taxonomy.js").SourceFilter | null} filter   지역/카테고리/태그 (키워드 검색에 그대로 넘긴다)
+ */
+
+/**
+ * @typedef {Object} RetrievalResult
+ * @property {RankedChunk[]} chunks           점수 내림차순으로 정렬된 청크
+ * @property {Object} debug                   /api/chat 응답의 debug 필드에 그대로 합쳐짐
+ * @property {string[]} [fileSearchStores]    생성 단계에서 grounding에 쓸 File Search 스토어
+ * @property {Object} [generationConfig]      생성 단계 설정 덮어쓰기 (temperature, topP, maxTokens)
+ * @property {import("../utils/facts.js").PriceFact[]} [facts]   질문과 맞는 가격 사실 (runRetrieval이 채운다)
+ */
+
+/**
+ * @typedef {Object} RetrievalStrategy
+ * @property {string} id                      요청의 searchMode 값
+ * @property {string} label                   모드 선택 UI에 표시할 이름
+ * @property {string} description             속도/특징 설명
+ * @property {number} order                   /api/modes 정렬 순서
+ * @property {number} [cost]                  요청 제한에서 한 번의 질문이 차지하는 비용 단위 (기본 1, MODE_COST_WEIGHTS로 덮어쓰기)
+ * @property {boolean} [filters]               false: ctx.filter 를 적용할 수 없는 전략 (debug.filter.applied)
+ * @property {(ctx: RetrievalContext) => Promise<RetrievalResult>} retrieve
+ */
+
+// 키워드 검색은 클라이언트 RAG와 공용 (KnowledgeStore BM25 + 한국어 n-gram 확장)
+export { extractKeywords, keywordSearch } from "../utils/keywordSearch.js";
@@ -0,0 +1,140 @@
+import { normalizeUrl } from "../utils/dedup.js";
+import { summarizeSources } from "../store/sources.js";
+import { facetCounts, parseTaxonomy } from "../utils/taxonomy.js";
+import { saveSourceFacts } from "./facts.js";
+import { embeddingText } from "./ingest.js";
+import { JOBS_DEFAULTS, embedWithRetry } from "./jobs.js";
+
+// ===========================
+// 소스 단위 관리 (관리자 DB 탭 — 목록 / 수정 / 삭제)
+// ===========================
+// 소스 = 같은 metadata.sourceId 를 가진 청크 묶음. 수정한 값은 모든 청크에 반영하고,
+// 임베딩 문맥(embeddingText 의 제목/날짜)이 바뀌면 청크를 다시 임베딩한다. 지역/카테고리/태그는 검색 필터에만 쓰여
+// 다시 임베딩하지 않는다 (utils/taxonomy.js).
+
+export const SOURCE_TYPES = ["BLOG", "YOUTUBE"];
+export const SOURCE_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * @typedef {Object} SourceChanges
+ * @property {string} [title]
+ * @property {string} [url]
+ * @property {string} [date]
+ * @property {'BLOG' | 'YOUTUBE'} [type]
+ * @property {string} [region]
+ * @property {string} [category]
+ * @property {string[]} [tags]
+ */
+
+/**
+ * Filters and pages the source summaries (title / URL contain q, optional type, region,
+ * category and tag). `facets` counts regions / categories / tags over the sources that
+ * match q and type, so the taxonomy filters show how many sources each choice leaves.
+ *
+ * @param {import("../store/index.js").KnowledgeStore} store
+ * @param {{ q?: string, type?: string, region?: string, category?: string, tag?: string, page?: number, pageSize?: number }} query
+ *        region: "none" = 지역 미분류 소스
+ */
+export async function listSourcePage(store, { q = "", type = "", region = "", category = "", tag = "", page = 1, pageSize = SOURCE_PAGE_SIZE } = {}) {
+  const needle = q.trim().toLowerCase();
+  const size = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE);
+  const searched = (await store.listSources()).filter(
+    (source) =>
+      (!type || source.type === type) &&
+      (!needle || source.title.toLowerCase().includes(needle) || source.url.toLowerCase().includes(needle))
+  );
+  const matching = searched.filter(
+    (source) =>
+      (!region || source.region === (region === "none" ? "" : region)) &&
+      (!category || source.category === category) &&
+      (!tag || source.tags.includes(tag))
+  );
+  const pages = Math.max(1, Math.ceil(matching.length / size));
+  const current = Math.min(Math.max(page, 1), pages);
+  return {
+    sources: matching.slice((current - 1) * size, current * size),
+    total: matching.length,
+    page: current,
+    pageSize: size,
+    pages,
+    facets: facetCounts(searched),
+  };
+}
+
+/**
+ * @returns {Promise<{ source: import("../store/index.js").SourceSummary, chunks: import("../store/index.js").StoredChunk[] } | null>}
+ */
+export async function getSource(store, sourceId) {
+  const chunks = await store.getSourceChunks(sourceId);
+  if (chunks.length === 0) return null;
+  return { source: summarizeSources(chunks)[0], chunks };
+}
+
+/**
+ * Validates a PATCH body: title / url / date / type as strings (type one of SOURCE_TYPES),
+ * region / category / tags as in parseTaxonomy.
+ *
+ * @returns {{ changes: SourceChanges } | { error: string }}
+ */
+export function parseSourceChanges(body = {}) {
+  const changes = {};
+  for (const key of ["title", "url", "date", "type"]) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== "string") return { error: `${key}는 문자열이어야 합니다` };
+    changes[key] = body[key].trim();
+  }
+  const taxonomy = parseTaxonomy(body);
+  if ("error" in taxonomy) return taxonomy;
+  Object.assign(changes, taxonomy.taxonomy);
+
+  if (Object.keys(changes).length === 0) return { error: "바꿀 항목(title, url, date, type, region, category, tags)이 없습니다" };
+  if (changes.title === "") return { error: "제목은 비울 수 없습니다" };
+  if (changes.type !== undefined && !SOURCE_TYPES.includes(changes.type)) {
+    return { error: `알 수 없는 type: ${changes.type} (${SOURCE_TYPES.join(" | ")})` };
+  }
+  return { changes };
+}
+
+/**
+ * Applies changes to every chunk of a source in one store update. When the title or
+ * date changes the chunks are re-embedded first (all or nothing — an embedding failure
+ * leaves the source untouched). Price facts are re-extracted since they carry the
+ * title, URL and date.
+ *
+ * @param {Object} options
+ * @param {import("../store/index.js").KnowledgeStore} options.store
+ * @param {import("../providers/index.js").EmbeddingProvider} options.embedder
+ * @param {string} options.sourceId
+ * @param {SourceChanges} options.changes
+ * @param {typeof JOBS_DEFAULTS} [options.config]
+ * @returns {Promise<{ source: import("../store/index.js").SourceSummary, reembedded: number } | null>}   null: 없는 소스
+ */
+export async function updateSource({ store, embedder, sourceId, changes, config = JOBS_DEFAULTS }) {
+  const chunks = await store.getSourceChunks(sourceId);
+  if (chunks.length === 0) return null;
+
+  const current = chunks[0].metadata;
+  const patch = { ...changes };
+  if (changes.url !== undefined) patch.normalizedUrl = normalizeUrl(changes.url);
+  const headerChanged =
+    (changes.title !== undefined && changes.title !== current.title) ||
+    (changes.date !== undefined && changes.date !== current.date);
+
+  const updates = chunks.map((chunk) => ({ id: chunk.id, metadata: { ...chunk.metadata, ...patch }, embedding: null }));
+  if (headerChanged) {
+    for (let i = 0; i < updates.length; i += config.concurrency) {
+      await Promise.all(updates.slice(i, i + config.concurrency).map(async (update, j) => {
+        const text = embeddingText({ metadata: update.metadata }, { text: chunks[i + j].content });
+        update.embedding = await embedWithRetry(embedder, text, config);
+        update.metadata.embeddingModel = embedder.embeddingModel;
+        update.metadata.embeddingDimensions = update.embedding.length;
+      }));
+    }
+  }
+
+  await store.updateChunks(updates);
+  const rows = updates.map((update, i) => ({ content: chunks[i].content, metadata: update.metadata }));
+  await saveSourceFacts(store, sourceId, rows);
+  return { source: summarizeSources(rows)[0], reembedded: headerChanged ? updates.length : 0 };
+}
@@ -0,0 +1,18 @@
+// ===========================
+// Server-Sent Events 헬퍼
+// ===========================
+// POST 응답을 SSE 스트림으로 열고, send(event, data)로 JSON 이벤트를 흘려보낸다.
+export function openEventStream(res) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Render/nginx 프록시 버퍼링 방지
+  });
+  res.flushHeaders?.();
+
+  return (event, data) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
@@ -0,0 +1,24 @@
+// ===========================
+// 모드1: File Search API (구글 관리 RAG)
+// ===========================
+// 검색을 Gemini File Search 도구에 맡기므로 청크는 비워두고 스토어 이름만 생성 단계에 넘긴다.
+// File Search 스토어에는 지역/카테고리 metadata가 없어 검색 필터를 적용하지 못한다.
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "file_search_api",
+  label: "모드1: File Search API",
+  description: "구글 관리 RAG (빠름, 3-5초)",
+  order: 1,
+  cost: 1,
+  filters: false,
+
+  async retrieve({ settings }) {
+    return {
+      chunks: [],
+      fileSearchStores: settings.fileSearchStoreName ? [settings.fileSearchStoreName] : [],
+      generationConfig: { temperature: 1.8, topP: 0.98, maxTokens: 4096 },
+      debug: { method: "File Search API", fileSearchStore: settings.fileSearchStoreName },
+    };
+  },
+};
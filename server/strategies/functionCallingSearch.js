@@ -0,0 +1,54 @@
+import { keywordSearch } from "../retrieval.js";
+
+// ===========================
+// 모드5: Function Calling (AI가 검색어 결정)
+// ===========================
+
+const searchFunction = {
+  name: "search_documents",
+  description: "철산랜드 문서 데이터베이스 검색",
+  parameters: {
+    type: "object",
+    properties: {
+      keywords: {
+        type: "array",
+        items: { type: "string" },
+        description: "검색 키워드 배열 (예: ['세부', '호핑투어', '가격'])",
+      },
+    },
+    required: ["keywords"],
+  },
+};
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "function_calling_search",
+  label: "모드5: Function Calling",
+  description: "AI가 검색어 결정 (중간, 8-12초)",
+  order: 5,
+  cost: 2,
+
+  async retrieve({ query, llm, store, filter }) {
+    // 1단계: AI에게 검색어 결정 요청
+    const step1Result = await llm.generate({
+      messages: [
+        { role: "user", text: `사용자 질문: "${query}"\n\n위 질문에 답하기 위해 search_documents 함수를 호출하세요.` },
+      ],
+      functions: [searchFunction],
+    });
+
+    const functionCall = step1Result.functionCalls.find((call) => call.name === searchFunction.name);
+    if (!functionCall) {
+      throw new Error("Function Call 실패");
+    }
+
+    // 2단계: Supabase 검색
+    const keywords = functionCall.args?.keywords || [];
+    const chunks = await keywordSearch(store, keywords, 15, filter);
+
+    return {
+      chunks,
+      debug: { method: "Function Calling", keywords, documentsFound: chunks.length },
+    };
+  },
+};
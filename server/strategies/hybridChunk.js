@@ -0,0 +1,40 @@
+import { extractKeywords, keywordSearch } from "../retrieval.js";
+
+// ===========================
+// 모드6: 하이브리드 청크 (여러 키워드 조합)
+// ===========================
+
+// 여행 관련 동의어 맵 (확장 가능)
+const synonymMap = {
+  "가격": ["비용", "요금", "금액"],
+  "추천": ["best", "좋은", "인기"],
+  "호핑": ["투어", "여행"],
+};
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "hybrid_chunk",
+  label: "모드6: 하이브리드 청크",
+  description: "여러 키워드 조합 (빠름, 5-8초)",
+  order: 6,
+  cost: 1,
+
+  async retrieve({ query, store, filter }) {
+    // 키워드 추출 + 동의어 확장
+    const baseKeywords = extractKeywords(query);
+    const keywords = [...baseKeywords];
+    baseKeywords.forEach((keyword) => {
+      if (synonymMap[keyword]) {
+        keywords.push(...synonymMap[keyword]);
+      }
+    });
+
+    const documents = await keywordSearch(store, keywords, 25, filter);
+    const chunks = documents.map((doc) => ({ ...doc, content: doc.content.substring(0, 1500) }));
+
+    return {
+      chunks,
+      debug: { method: "하이브리드 청크", keywords, documentsFound: chunks.length },
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import { readdirSync } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+// ===========================
+// 검색 전략 레지스트리
+// ===========================
+// 이 디렉터리의 *.js 파일(index.js 제외)이 각각 하나의 RetrievalStrategy를 default export 한다.
+// 새 모드는 파일 하나만 추가하면 /api/chat 과 /api/modes 에 자동 등록된다.
+
+/** @typedef {import("../retrieval.js").RetrievalStrategy} RetrievalStrategy */
+
+export const DEFAULT_MODE = "file_search_api";
+
+/** @type {Map<string, RetrievalStrategy>} */
+const registry = new Map();
+
+/** @param {RetrievalStrategy} strategy */
+export function registerStrategy(strategy) {
+  if (!strategy?.id || typeof strategy.retrieve !== "function") {
+    throw new Error("잘못된 검색 전략: id와 retrieve()가 필요합니다");
+  }
+  if (registry.has(strategy.id)) {
+    throw new Error(`중복된 검색 전략 id: ${strategy.id}`);
+  }
+  registry.set(strategy.id, strategy);
+}
+
+export function getStrategy(id) {
+  return registry.get(id) || null;
+}
+
+export function listStrategies() {
+  return [...registry.values()]
+    .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+    .map(({ id, label, description }) => ({ id, label, description }));
+}
+
+const strategiesDir = path.dirname(fileURLToPath(import.meta.url));
+const strategyFiles = readdirSync(strategiesDir)
+  .filter((file) => file.endsWith(".js") && file !== "index.js")
+  .sort();
+
+for (const file of strategyFiles) {
+  const mod = await import(pathToFileURL(path.join(strategiesDir, file)).href);
+  registerStrategy(mod.default);
+}
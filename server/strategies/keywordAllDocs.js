@@ -0,0 +1,24 @@
+import { extractKeywords, keywordSearch } from "../retrieval.js";
+
+// ===========================
+// 모드2: 키워드→전체문서 (매칭 문서 전부)
+// ===========================
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "keyword_all_docs",
+  label: "모드2: 키워드→전체문서",
+  description: "매칭 문서 전부 전달 (느림, 30-60초)",
+  order: 2,
+  cost: 3,
+
+  async retrieve({ query, store, filter }) {
+    const keywords = extractKeywords(query);
+    const chunks = await keywordSearch(store, keywords, 50, filter);
+
+    return {
+      chunks,
+      debug: { method: "키워드→전체문서", keywords, documentsFound: chunks.length },
+    };
+  },
+};
@@ -0,0 +1,89 @@
+import { extractKeywords, keywordSearch } from "../retrieval.js";
+
+// ===========================
+// 모드3: 미리보기→선택 (AI가 관련 문서 판단)
+// ===========================
+
+// 선택 결과 JSON을 읽지 못하면 키워드 순위 상위 문서로 대신한다
+const FALLBACK_COUNT = 10;
+
+// 코드 블록(```json ... ```)이나 앞뒤 설명이 붙어도 첫 { 부터 마지막 } 까지만 읽는다
+const parseSelection = (text) => {
+  const match = (text || "").match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed.selected) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "keyword_preview_select",
+  label: "모드3: 미리보기→선택",
+  description: "AI가 관련 문서 판단 (중간, 10-15초)",
+  order: 3,
+  cost: 2,
+
+  async retrieve({ query, llm, store, filter }) {
+    // 1단계: 키워드로 후보 수집
+    const candidates = await keywordSearch(store, extractKeywords(query), 30, filter);
+
+    // 2단계: 미리보기 생성
+    const previews = candidates
+      .map((doc, i) => `[문서 ${i + 1}] ${doc.metadata.title || "제목 없음"}\n미리보기: ${doc.content.substring(0, 300)}...`)
+      .join("\n\n");
+
+    // 3단계: AI에게 관련 문서 선택 요청
+    const selectionResult = await llm.generate({
+      messages: [
+        {
+          role: "user",
+          text: `
+다음 문서 목록에서 "${query}"에 답변하는 데 필요한 문서 번호를 선택하세요.
+
+${previews}
+
+출력 형식 (JSON):
+{
+  "selected": [1, 5, 7],
+  "reason": "선택 이유"
+}
+`,
+        },
+      ],
+      json: true,
+      maxTokens: 500,
+    });
+
+    const selection = parseSelection(selectionResult.text);
+    if (!selection) {
+      console.warn("⚠️ 문서 선택 결과를 읽지 못해 키워드 순위로 대체:", (selectionResult.text || "").slice(0, 100));
+      const chunks = candidates.slice(0, FALLBACK_COUNT);
+      return {
+        chunks,
+        debug: { method: "미리보기→선택 (키워드 순위 대체)", candidatesFound: candidates.length, documentsFound: chunks.length },
+      };
+    }
+    const selected = selection.selected;
+
+    // 선택 순서를 랭킹으로 사용
+    const chunks = selected
+      .map((n) => candidates[n - 1])
+      .filter(Boolean)
+      .map((doc, rank) => ({ ...doc, score: 1 - rank / Math.max(selected.length, 1) }));
+
+    return {
+      chunks,
+      debug: {
+        method: "미리보기→선택",
+        candidatesFound: candidates.length,
+        selected,
+        reason: selection.reason,
+        documentsFound: chunks.length,
+      },
+    };
+  },
+};
@@ -0,0 +1,58 @@
+import { extractKeywords, keywordSearch } from "../retrieval.js";
+
+// ===========================
+// 모드4: 2단계 요약 (각 문서 요약 후 통합)
+// ===========================
+
+const RELEVANCE_SCORES = { 높음: 1, 중간: 0.5 };
+
+/** @type {import("../retrieval.js").RetrievalStrategy} */
+export default {
+  id: "two_stage_summary",
+  label: "모드4: 2단계 요약",
+  description: "각 문서 요약→통합 (느림, 30-45초)",
+  order: 4,
+  cost: 5,
+
+  async retrieve({ query, llm, store, filter }) {
+    // 1단계: 키워드로 문서 수집
+    const documents = await keywordSearch(store, extractKeywords(query), 20, filter);
+
+    // 2단계: 각 문서 요약 (병렬 처리)
+    const summaries = await Promise.all(
+      documents.map(async (doc) => {
+        const meta = doc.metadata;
+        const result = await llm.generate({
+          messages: [
+            {
+              role: "user",
+              text: `
+다음 문서가 "${query}"와 관련 있는지 판단하고, 관련 있다면 핵심 정보를 5줄 이내로 요약하세요.
+
+문서: ${doc.content.substring(0, 1500)}
+
+출력 형식:
+- 관련도: [높음/중간/낮음/없음]
+- 요약: [핵심 정보 또는 "관련 없음"]
+- 출처: ${meta.title} (${meta.url})
+`,
+            },
+          ],
+          maxTokens: 300,
+        });
+
+        const summary = result.text;
+        const relevance = Object.keys(RELEVANCE_SCORES).find((level) => summary.includes(level));
+        return { content: summary, metadata: meta, score: relevance ? RELEVANCE_SCORES[relevance] : 0 };
+      })
+    );
+
+    // 3단계: 관련도 높은 것만 필터링
+    const chunks = summaries.filter((s) => s.score > 0).sort((a, b) => b.score - a.score);
+
+    return {
+      chunks,
+      debug: { method: "2단계 요약", documentsFound: documents.length, summaries: chunks.length },
+    };
+  },
+};
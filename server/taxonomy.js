@@ -0,0 +1,40 @@
+import { buildTaxonomyPrompt, parseTaxonomySuggestion, suggestTaxonomyByKeywords } from "../utils/taxonomy.js";
+
+// ===========================
+// 분류 자동 추천 (관리자 업로드 폼의 🏷️ 자동 추천)
+// ===========================
+// LLM이 목록 안에서 지역/카테고리/태그를 고르고, 비워 둔 항목은 키워드 추천으로 채운다.
+// LLM 호출이나 JSON 파싱이 실패하면 키워드 추천만 돌려준다. 추천은 폼에 채워 줄 뿐 저장은 사람이 한다.
+
+const PROMPT_CHARS = 4000;
+
+/**
+ * @param {Object} options
+ * @param {import("../providers/index.js").LLMProvider} options.llm
+ * @param {string} options.title
+ * @param {string} options.content
+ * @returns {Promise<{ region: string, category: string, tags: string[], method: "llm" | "keyword" }>}
+ */
+export async function suggestTaxonomy({ llm, title = "", content = "" }) {
+  const keyword = suggestTaxonomyByKeywords({ title, content });
+
+  try {
+    const result = await llm.generate({
+      messages: [{ role: "user", text: buildTaxonomyPrompt({ title, content }, PROMPT_CHARS) }],
+      temperature: 0,
+      json: true,
+      disableThinking: true,
+    });
+    const suggestion = parseTaxonomySuggestion(result.text);
+    if (!suggestion) return { ...keyword, method: "keyword" };
+    return {
+      region: suggestion.region || keyword.region,
+      category: suggestion.category || keyword.category,
+      tags: suggestion.tags.length > 0 ? suggestion.tags : keyword.tags,
+      method: "llm",
+    };
+  } catch (err) {
+    console.error("❌ 분류 추천 실패 (키워드 추천으로 대체):", err.message);
+    return { ...keyword, method: "keyword" };
+  }
+}
@@ -0,0 +1,306 @@
+// ===========================
+// 공개 채팅 API 사용량 제한 (요청 속도 / 일일 토큰 / 질문 길이)
+// ===========================
+// 인스턴스 메모리에만 보관한다 → 재시작하면 초기화되고, 여러 인스턴스는 각자 센다.
+// 요청 속도는 "비용 단위"로 센다: 검색 모드마다 LLM 호출 수가 달라 strategy.cost 가중치를 곱한다.
+
+export const USAGE_DEFAULTS = {
+  maxQueryLength: 500,
+  costPerMinuteIp: 20,
+  costPerMinuteSession: 10,
+  dailyTokensIp: 300_000,
+  dailyTokensSession: 150_000,
+  dailyTokensTotal: 0, // 0 = 제한 없음
+};
+
+const WINDOW_MS = 60_000;
+const MAX_TRACKED_KEYS = 10_000;
+// sessionId는 클라이언트가 정한다 — IP 하나가 하루에 쓸 수 있는 세션 수를 넘으면 IP 키로 합쳐 센다
+const MAX_SESSIONS_PER_IP = 20;
+
+// 한국어는 대략 1~2자당 1토큰 → 공급자가 사용량을 주지 않을 때의 보수적 추정
+export const estimateTokens = (text) => Math.ceil((text || "").length / 2);
+
+// 일일 한도는 한국 날짜 기준으로 초기화
+const today = () => new Date().toLocaleDateString("sv-SE", { timeZone: "Asia/Seoul" });
+
+/**
+ * @param {Record<string, string | undefined>} env
+ * @returns {typeof USAGE_DEFAULTS & { modeCosts: Record<string, number> }}
+ */
+export function usageLimitsFromEnv(env) {
+  const number = (key, fallback) => {
+    const parsed = parseInt(env[key], 10);
+    return Number.isNaN(parsed) ? fallback : parsed;
+  };
+  // MODE_COST_WEIGHTS="two_stage_summary:8,function_calling_search:3" → strategy.cost 덮어쓰기
+  const modeCosts = Object.fromEntries(
+    (env.MODE_COST_WEIGHTS || "")
+      .split(",")
+      .map((entry) => entry.split(":").map((part) => part.trim()))
+      .filter(([mode, cost]) => mode && !Number.isNaN(parseFloat(cost)))
+      .map(([mode, cost]) => [mode, parseFloat(cost)])
+  );
+
+  return {
+    maxQueryLength: number("MAX_QUERY_LENGTH", USAGE_DEFAULTS.maxQueryLength),
+    costPerMinuteIp: number("RATE_LIMIT_PER_MINUTE_IP", USAGE_DEFAULTS.costPerMinuteIp),
+    costPerMinuteSession: number("RATE_LIMIT_PER_MINUTE_SESSION", USAGE_DEFAULTS.costPerMinuteSession),
+    dailyTokensIp: number("DAILY_TOKEN_QUOTA_IP", USAGE_DEFAULTS.dailyTokensIp),
+    dailyTokensSession: number("DAILY_TOKEN_QUOTA_SESSION", USAGE_DEFAULTS.dailyTokensSession),
+    dailyTokensTotal: number("DAILY_TOKEN_BUDGET", USAGE_DEFAULTS.dailyTokensTotal),
+    modeCosts,
+  };
+}
+
+/**
+ * @typedef {Object} UsageKey
+ * @property {string} ip
+ * @property {string} session   클라이언트가 보낸 sessionId (없거나 IP의 세션 수 한도를 넘으면 IP와 같게 취급)
+ */
+
+/**
+ * @typedef {Object} LimitVerdict
+ * @property {'rate' | 'quota' | 'budget'} reason
+ * @property {number} retryAfter   초
+ */
+
+/**
+ * @param {ReturnType<typeof usageLimitsFromEnv>} limits
+ */
+export function createUsageTracker(limits) {
+  let day = today();
+  /** @type {Map<string, { at: number, cost: number }[]>} 최근 1분 요청 (키: "ip:..." / "session:...") */
+  const windows = new Map();
+  /** @type {Map<string, { tokens: number, requests: number, blocked: number }>} 오늘 사용량 (최근 사용 순) */
+  const daily = new Map();
+  /** @type {Map<string, Set<string>>} 오늘 IP별로 본 sessionId (최근 사용 순) */
+  const sessionsByIp = new Map();
+  const totals = { tokens: 0, requests: 0, blocked: 0 };
+  /** @type {Record<string, { requests: number, tokens: number }>} */
+  const byMode = {};
+
+  const rollDay = () => {
+    if (today() === day) return;
+    day = today();
+    daily.clear();
+    sessionsByIp.clear();
+    Object.assign(totals, { tokens: 0, requests: 0, blocked: 0 });
+    Object.keys(byMode).forEach((mode) => delete byMode[mode]);
+  };
+
+  const recent = (key, now) => {
+    const entries = (windows.get(key) || []).filter((entry) => now - entry.at < WINDOW_MS);
+    if (entries.length > 0) windows.set(key, entries);
+    else windows.delete(key);
+    return entries;
+  };
+
+  // 다시 넣어 Map 끝(최근)으로 옮기고, MAX_TRACKED_KEYS를 넘으면 가장 오래 안 쓴 키부터 버린다
+  const touch = (map, key, create) => {
+    const value = map.get(key) ?? create();
+    map.delete(key);
+    map.set(key, value);
+    while (map.size > MAX_TRACKED_KEYS) map.delete(map.keys().next().value);
+    return value;
+  };
+
+  const dailyOf = (key) => touch(daily, key, () => ({ tokens: 0, requests: 0, blocked: 0 }));
+
+  // 오래된 키가 쌓이지 않도록 가끔 전체 정리
+  const prune = (now) => {
+    if (windows.size < MAX_TRACKED_KEYS) return;
+    [...windows.keys()].forEach((key) => recent(key, now));
+  };
+
+  const keysOf = (/** @type {UsageKey} */ key) => [`ip:${key.ip}`, `session:${key.session}`];
+
+  return {
+    limits,
+
+    /**
+     * Usage key for a request. Each IP gets at most MAX_SESSIONS_PER_IP session ids a
+     * day; further new ids share the IP's own session key, so rotating sessionId never
+     * buys a fresh session quota (the IP quota counts every session of the IP anyway).
+     *
+     * @param {string} ip
+     * @param {unknown} sessionId
+     * @returns {UsageKey}
+     */
+    keyFor(ip, sessionId) {
+      rollDay();
+      const id = typeof sessionId === "string" ? sessionId.slice(0, 64) : "";
+      if (!id) return { ip, session: ip };
+      const sessions = touch(sessionsByIp, ip, () => new Set());
+      if (!sessions.has(id) && sessions.size >= MAX_SESSIONS_PER_IP) return { ip, session: ip };
+      sessions.add(id);
+      return { ip, session: id };
+    },
+
+    /**
+     * Checks the limits and, when allowed, counts the request.
+     *
+     * @param {UsageKey} key
+     * @param {number} cost
+     * @returns {LimitVerdict | null} null = allowed
+     */
+    admit(key, cost) {
+      rollDay();
+      const now = Date.now();
+      prune(now);
+      const [ipKey, sessionKey] = keysOf(key);
+
+      const block = (/** @type {LimitVerdict} */ verdict) => {
+        totals.blocked++;
+        dailyOf(ipKey).blocked++;
+        dailyOf(sessionKey).blocked++;
+        return verdict;
+      };
+
+      if (limits.dailyTokensTotal > 0 && totals.tokens >= limits.dailyTokensTotal) {
+        return block({ reason: "budget", retryAfter: secondsUntilTomorrow() });
+      }
+      if (dailyOf(ipKey).tokens >= limits.dailyTokensIp || dailyOf(sessionKey).tokens >= limits.dailyTokensSession) {
+        return block({ reason: "quota", retryAfter: secondsUntilTomorrow() });
+      }
+
+      for (const [windowKey, limit] of [[ipKey, limits.costPerMinuteIp], [sessionKey, limits.costPerMinuteSession]]) {
+        const entries = recent(windowKey, now);
+        const used = entries.reduce((sum, entry) => sum + entry.cost, 0);
+        if (used + cost > limit) {
+          // 가장 오래된 요청이 창에서 빠지는 시점까지 대기
+          const retryAfter = entries.length > 0 ? Math.ceil((entries[0].at + WINDOW_MS - now) / 1000) : 60;
+          return block({ reason: "rate", retryAfter: Math.max(1, retryAfter) });
+        }
+      }
+
+      [ipKey, sessionKey].forEach((windowKey) => {
+        windows.set(windowKey, [...recent(windowKey, now), { at: now, cost }]);
+        dailyOf(windowKey).requests++;
+      });
+      totals.requests++;
+      return null;
+    },
+
+    /**
+     * Wraps an LLM provider so every call made while answering one request
+     * (query rewrite, strategy calls, final answer) is charged to that request.
+     *
+     * @param {import("../providers/index.js").LLMProvider} llm
+     * @param {UsageKey} key
+     * @param {string} mode
+     * @returns {import("../providers/index.js").LLMProvider}
+     */
+    meter(llm, key, mode) {
+      byMode[mode] = byMode[mode] || { requests: 0, tokens: 0 };
+      byMode[mode].requests++;
+
+      const charge = (tokens) => {
+        rollDay();
+        keysOf(key).forEach((dailyKey) => { dailyOf(dailyKey).tokens += tokens; });
+        totals.tokens += tokens;
+        byMode[mode] = byMode[mode] || { requests: 0, tokens: 0 };
+        byMode[mode].tokens += tokens;
+      };
+      const promptText = (request) => [request.system, ...request.messages.map((turn) => turn.text)].join("\n");
+
+      return {
+        ...llm,
+        async generate(request) {
+          const result = await llm.generate(request);
+          charge(result.usage?.totalTokens ?? estimateTokens(promptText(request) + result.text));
+          return result;
+        },
+        async *stream(request) {
+          let text = "";
+          let usage;
+          try {
+            for await (const chunk of llm.stream(request)) {
+              text += chunk.text || "";
+              if (chunk.usage) usage = chunk.usage;
+              yield chunk;
+            }
+          } finally {
+            // 중간에 끊겨도 이미 생성된 만큼은 청구
+            charge(usage?.totalTokens ?? estimateTokens(promptText(request) + text));
+          }
+        },
+      };
+    },
+
+    /** Admin 사용량 화면용 요약 */
+    snapshot() {
+      rollDay();
+      const now = Date.now();
+      const top = (prefix) =>
+        [...daily.entries()]
+          .filter(([key]) => key.startsWith(prefix))
+          .map(([key, value]) => ({
+            key: key.slice(prefix.length),
+            ...value,
+            lastMinuteCost: recent(key, now).reduce((sum, entry) => sum + entry.cost, 0),
+          }))
+          .sort((a, b) => b.tokens - a.tokens)
+          .slice(0, 20);
+
+      return {
+        date: day,
+        limits,
+        totals: { ...totals },
+        byMode: { ...byMode },
+        topIps: top("ip:"),
+        topSessions: top("session:"),
+      };
+    },
+  };
+}
+
+const secondsUntilTomorrow = () => {
+  const now = new Date();
+  const seoul = new Date(now.toLocaleString("en-US", { timeZone: "Asia/Seoul" }));
+  const midnight = new Date(seoul);
+  midnight.setHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - seoul.getTime()) / 1000);
+};
+
+// 페르소나 안내 문구 (App.tsx가 그대로 보여준다)
+const LIMIT_MESSAGES = {
+  rate: (retryAfter) => `형님, 잠깐 쉬었다 가요 ☕ 질문이 너무 빨리 들어오고 있어요. ${retryAfter}초 뒤에 다시 물어봐 주세요!`,
+  quota: () => "형님, 오늘은 여기까지예요 🙏 오늘 쓸 수 있는 답변량을 다 쓰셨어요. 내일 다시 만나요! 🏝️",
+  budget: () => "형님, 오늘 철산랜드 AI가 너무 바빠서 쉬는 중이에요 😅 내일 다시 와주세요!",
+};
+
+/**
+ * Express middleware for the public chat routes: query length, rate limit and quotas.
+ * On success sets req.usageKey for meter().
+ *
+ * @param {ReturnType<typeof createUsageTracker>} tracker
+ * @param {(body: Object) => number} costOf   검색 모드 등 요청 본문으로 비용 가중치 계산
+ */
+export const limitChat = (tracker, costOf) => (req, res, next) => {
+  const { query, sessionId } = req.body || {};
+  if (typeof query !== "string" || !query.trim()) {
+    return res.status(400).json({ success: false, error: "질문이 비어 있습니다" });
+  }
+  if (query.length > tracker.limits.maxQueryLength) {
+    const message = `형님, 질문이 너무 길어요 😅 ${tracker.limits.maxQueryLength}자 이내로 줄여서 물어봐 주세요!`;
+    return res.status(400).json({ success: false, error: "query_too_long", message });
+  }
+
+  const key = tracker.keyFor(req.ip || "unknown", sessionId);
+  const verdict = tracker.admit(key, costOf(req.body));
+  if (verdict) {
+    console.warn(`🚦 제한(${verdict.reason}): ${key.ip} / ${key.session}`);
+    res.set("Retry-After", String(verdict.retryAfter));
+    return res.status(429).json({
+      success: false,
+      error: "rate_limited",
+      reason: verdict.reason,
+      retryAfter: verdict.retryAfter,
+      message: LIMIT_MESSAGES[verdict.reason](verdict.retryAfter),
+    });
+  }
+
+  req.usageKey = key;
+  next();
+};
@@ -0,0 +1,103 @@
+import { CitationSource, GroundingReport } from "../types";
+
+// /api/chat/stream SSE 이벤트 핸들러
+export interface ChatStreamHandlers {
+  onRetrieval?: (data: { mode: string; debug: Record<string, any> }) => void;
+  onDelta?: (text: string) => void;
+  // answer: 출처/근거 검증 후 답변 — 출처 번호가 바뀌거나 없는 링크가 빠지거나 안내 문구가 붙을 수 있어
+  // 스트리밍한 글을 이것으로 교체한다
+  onSources?: (sources: CitationSource[], answer?: string, grounding?: GroundingReport | null) => void;
+  onDone?: (data: { mode: string; debug: Record<string, any> }) => void;
+}
+
+/**
+ * 서버 사용량 제한에 걸린 요청 (429, 또는 질문이 너무 길어 400).
+ * message는 서버가 보낸 페르소나 안내 문구라 그대로 보여주면 된다.
+ */
+export class ChatLimitError extends Error {
+  constructor(message: string, public reason: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'ChatLimitError';
+  }
+}
+
+const SESSION_KEY = 'chat_session_id';
+
+/** 브라우저별 채팅 세션 id — 서버가 세션 단위 요청 제한에 사용한다. */
+export function chatSessionId(): string {
+  let id = localStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
+
+/**
+ * 채팅 API 실패 응답을 에러로 변환한다. 사용량 제한이면 ChatLimitError.
+ */
+export async function chatResponseError(res: Response): Promise<Error> {
+  const errorData = await res.json().catch(() => ({}));
+  if (res.status === 429 || errorData.error === 'query_too_long') {
+    return new ChatLimitError(errorData.message || '잠시 후 다시 시도해주세요.', errorData.reason || errorData.error, errorData.retryAfter);
+  }
+  return new Error(errorData.error || `HTTP ${res.status}`);
+}
+
+/**
+ * POST 요청으로 SSE 스트림을 열고 이벤트를 핸들러로 전달한다.
+ * (EventSource는 POST 본문을 보낼 수 없어서 fetch + ReadableStream으로 직접 파싱)
+ * signal로 중단하면 AbortError가 던져진다.
+ */
+export async function streamChat(
+  url: string,
+  body: Record<string, any>,
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    throw await chatResponseError(res);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    let event = 'message';
+    let data = '';
+    rawEvent.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    });
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'retrieval': handlers.onRetrieval?.(payload); break;
+      case 'delta': handlers.onDelta?.(payload.text); break;
+      case 'sources': handlers.onSources?.(payload.sources, payload.answer, payload.grounding); break;
+      case 'done': handlers.onDone?.(payload); break;
+      case 'error': throw new Error(payload.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+}
@@ -1,31 +1,73 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { DebugSnippet } from "../types";
-import { supabase } from "./supabase";
-
-const EMBEDDING_MODEL = "text-embedding-004";
-const CHAT_MODEL = "gemini-2.0-flash-exp";
+import { ConversationTurn, DebugSnippet, GroundingReport, SearchModeInfo } from "../types";
+import { knowledgeStore } from "./knowledgeStore";
+import { ChatLimitError, chatResponseError, chatSessionId, streamChat } from "./chatStream";
+import { citationUrl } from "../utils/youtube";
+import { verifyCitations } from "../utils/citations";
+import { checkClaimsLexically, extractClaims, summarizeGrounding } from "../utils/grounding";
+import { buildCondensePrompt, parseCondensedQuery, trimHistory } from "../utils/conversation";
+import { extractKeywords, keywordSearch } from "../utils/keywordSearch";
+import { FUSION_DEFAULTS, RERANK_DEFAULTS, applyRerankScores, buildRerankPrompt, parseRerankScores, reciprocalRankFusion } from "../utils/fusion";
+import { RECENCY_DEFAULTS, applyRecency, detectStaleFacts, formatStaleNotice } from "../utils/freshness";
+import { parseTaxonomy, resolveSearchFilter } from "../utils/taxonomy";
+import { createProviders, providerConfigFromEnv } from "../providers/index.js";
 
 // Fix: Remove trailing slash safely
 // @ts-ignore
 const RAW_BACKEND_URL = import.meta.env.VITE_BACKEND_URL || '';
 const BACKEND_URL = RAW_BACKEND_URL.replace(/\/$/, "");
 
-export type SearchMode = 'rag' | 'full-text' | 'file-api';
+// 최신성 랭킹 설정 (서버는 settings 테이블의 recency_weight / recency_half_life_days)
+const RECENCY = {
+  weight: parseFloat(import.meta.env.VITE_RECENCY_WEIGHT) || RECENCY_DEFAULTS.weight,
+  halfLifeDays: parseFloat(import.meta.env.VITE_RECENCY_HALF_LIFE_DAYS) || RECENCY_DEFAULTS.halfLifeDays,
+};
+
+// 하이브리드 검색: 벡터/키워드 순위를 RRF로 합친 뒤 상위 depth개를 LLM으로 재순위 (VITE_RERANK_DEPTH=0 이면 끔)
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = parseFloat(value ?? '');
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+const FUSION = {
+  k: envNumber(import.meta.env.VITE_RRF_K, FUSION_DEFAULTS.k),
+  weights: {
+    vector: envNumber(import.meta.env.VITE_FUSION_VECTOR_WEIGHT, FUSION_DEFAULTS.weights.vector),
+    keyword: envNumber(import.meta.env.VITE_FUSION_KEYWORD_WEIGHT, FUSION_DEFAULTS.weights.keyword),
+  },
+};
+const RERANK = {
+  depth: envNumber(import.meta.env.VITE_RERANK_DEPTH, RERANK_DEFAULTS.depth),
+  weight: envNumber(import.meta.env.VITE_RERANK_WEIGHT, RERANK_DEFAULTS.weight),
+};
+
+// 'rag' = 브라우저 RAG, 그 외 값은 서버 /api/modes 에 등록된 검색 전략 id
+export type SearchMode = 'rag' | string;
 
+// 스트리밍 옵션: onDelta가 있으면 답변을 토큰 단위로 흘려보내고, signal로 중단할 수 있다
+// history: 이번 질문 이전의 대화 (후속 질문 재작성 + 최종 생성에 사용)
+export interface AnswerOptions {
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+  history?: ConversationTurn[];
+  // 검색 필터 — 지역을 비워 두면 질문에서 지역을 찾는다 (서버 모드는 그대로 전달)
+  filters?: { region?: string; category?: string; tags?: string[] };
+}
+
+// 공급자 선택: VITE_LLM_PROVIDER / VITE_EMBEDDING_PROVIDER (gemini | openai | mock), VITE_LLM_MODEL 등 — providers/index.js 참고
 export class GeminiService {
-  private ai: GoogleGenerativeAI;
+  private llm: ReturnType<typeof createProviders>['llm'];
+  private embedder: ReturnType<typeof createProviders>['embedder'];
 
   constructor() {
     // @ts-ignore
-    const apiKey = import.meta.env.VITE_API_KEY || process.env.API_KEY || '';
-    this.ai = new GoogleGenerativeAI(apiKey);
+    const env = { ...import.meta.env, VITE_API_KEY: import.meta.env.VITE_API_KEY || process.env.API_KEY || '' };
+    const { llm, embedder } = createProviders(providerConfigFromEnv(env, 'VITE_'));
+    this.llm = llm;
+    this.embedder = embedder;
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-        const model = this.ai.getGenerativeModel({ model: EMBEDDING_MODEL });
-        const result = await model.embedContent(text.replace(/\n/g, " "));
-        return result.embedding?.values || [];
+        return await this.embedder.embed(text);
     } catch (error) {
         console.error("Embedding Error:", error);
         return [];
@@ -33,26 +75,19 @@ export class GeminiService {
   }
 
   private async fetchWebInfo(query: string) {
+    // 웹 검색 grounding은 Gemini 공급자만 지원
+    if (!this.llm.capabilities.grounding) return { text: "", sources: [] };
     try {
-      const model = this.ai.getGenerativeModel({
-        model: CHAT_MODEL,
-        tools: [{ googleSearchRetrieval: {} }]  // ✅ 수정: googleSearch → googleSearchRetrieval
+      const result = await this.llm.generate({
+        messages: [{ role: 'user', text: `Search web for: "${query}"` }],
+        googleSearch: true
       });
-      
-      const result = await model.generateContent(`Search web for: "${query}"`);
-      const response = result.response;
-      
-      // ✅ 수정: groundingChunks → groundingChuncks (typo가 실제 API 스펙)
-      const chunks = (response as any).candidates?.[0]?.groundingMetadata?.groundingChuncks || [];
-      const sources = chunks.map((c: any) => 
-        c.web ? { 
-          title: c.web.title || "Web Result", 
-          url: c.web.uri || "#" 
-        } : null
-      ).filter(Boolean);
-      
+      const sources = result.grounding
+        .filter(c => c.url)
+        .map(c => ({ title: c.title || "Web Result", url: c.url }));
+
       return { 
-        text: response.text() || "", 
+        text: result.text, 
         sources 
       };
     } catch (e) {
@@ -61,31 +96,110 @@ export class GeminiService {
     }
   }
 
+  // 후속 질문을 독립 검색 질문으로 재작성 (서버 conversation.js와 같은 프롬프트)
+  private async condenseQuery(query: string, history: ConversationTurn[]): Promise<string> {
+    if (history.length === 0) return query;
+    try {
+      const result = await this.llm.generate({
+        messages: [{ role: 'user', text: buildCondensePrompt(query, history) }],
+        temperature: 0,
+        maxTokens: 200,
+        disableThinking: true
+      });
+      return parseCondensedQuery(result.text, query);
+    } catch (e) {
+      console.error("Query condense error:", e);
+      return query;
+    }
+  }
+
+  // 상위 청크들을 한 번의 호출로 채점 (실패하면 null → RRF 순서 그대로 사용)
+  private async rerank(query: string, docs: any[], signal?: AbortSignal): Promise<(number | null)[] | null> {
+    if (docs.length === 0) return null;
+    try {
+      const result = await this.llm.generate({
+        messages: [{ role: 'user', text: buildRerankPrompt(query, docs) }],
+        temperature: 0,
+        json: true,
+        signal
+      });
+      return parseRerankScores(result.text, docs.length);
+    } catch (e) {
+      if (!signal?.aborted) console.error("Rerank error:", e);
+      return null;
+    }
+  }
+
+  async listServerModes(): Promise<SearchModeInfo[]> {
+    if (!BACKEND_URL) return [];
+    try {
+      const res = await fetch(`${BACKEND_URL}/api/modes`);
+      if (!res.ok) throw new Error("Server Failed");
+      const data = await res.json();
+      return data.modes || [];
+    } catch (err) {
+      console.error("Mode list error:", err);
+      return [];
+    }
+  }
+
   async getAnswer(
       query: string, 
       systemInstruction: string, 
       useWebSearch: boolean, 
-      mode: SearchMode = 'rag'
-    ): Promise<{ answer: string; sources: any[]; webSources: any[]; debugSnippets: DebugSnippet[]; }> {
+      mode: SearchMode = 'rag',
+      options: AnswerOptions = {}
+    ): Promise<{ answer: string; sources: any[]; webSources: any[]; debugSnippets: DebugSnippet[]; grounding?: GroundingReport | null; }> {
     
     // SERVER MODES
-    if ((mode === 'full-text' || mode === 'file-api') && BACKEND_URL) {
+    if (mode !== 'rag' && BACKEND_URL) {
+      const body = { query, history: options.history || [], systemInstruction, useWebSearch, searchMode: mode, filters: options.filters, sessionId: chatSessionId() };
+
+      // Streaming (SSE)
+      if (options.onDelta) {
+        let answer = '';
+        let sources: any[] = [];
+        let grounding: GroundingReport | null = null;
+        try {
+          await streamChat(`${BACKEND_URL}/api/chat/stream`, body, {
+            onDelta: (text) => { answer += text; options.onDelta!(text); },
+            onSources: (s, verified, report) => {
+              sources = s.map((src, i) => ({ ...src, index: i + 1 }));
+              if (verified !== undefined) answer = verified;
+              grounding = report || null;
+            },
+          }, options.signal);
+        } catch (err) {
+          if (err instanceof ChatLimitError) {
+            answer = err.message;
+          } else if (!options.signal?.aborted) {
+            console.error("Server stream error:", err);
+            answer = answer || `❌ 서버 연결 실패 (${BACKEND_URL}). 관리자에게 문의하세요.`;
+          }
+        }
+        return { answer, sources, webSources: [], debugSnippets: [], grounding };
+      }
+
       const endpoint = '/api/chat';  // ✅ 통일된 엔드포인트
       try {
         const res = await fetch(`${BACKEND_URL}${endpoint}`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ query, systemInstruction, useWebSearch })
+          body: JSON.stringify(body)
         });
-        if (!res.ok) throw new Error("Server Failed");
+        if (!res.ok) throw await chatResponseError(res);
         const data = await res.json();
         return {
-          answer: data.answer,
-          sources: data.sources || [],
+          answer: data.response,
+          sources: (data.sources || []).map((src: any, i: number) => ({ ...src, index: i + 1 })),
           webSources: data.webSources || [],
-          debugSnippets: []
+          debugSnippets: [],
+          grounding: data.grounding
         };
       } catch (err) {
+        if (err instanceof ChatLimitError) {
+          return { answer: err.message, sources: [], webSources: [], debugSnippets: [] };
+        }
         console.error("Server connection error:", err);
         return { 
           answer: `❌ 서버 연결 실패 (${BACKEND_URL}). 관리자에게 문의하세요.`, 
@@ -97,69 +211,63 @@ export class GeminiService {
     }
 
     // CLIENT RAG MODE (Fallback/Standard)
+    const history = trimHistory(options.history);
+    const searchQuery = await this.condenseQuery(query, history);
+    const parsedFilters = options.filters ? parseTaxonomy(options.filters) : { taxonomy: {} };
+    const { filter } = resolveSearchFilter('taxonomy' in parsedFilters ? parsedFilters.taxonomy : null, searchQuery);
+
     let vectorDocs: any[] = [];
     let keywordDocs: any[] = [];
     
-    // 1. Vector
+    // 1. Vector (질문을 임베딩한 모델로 만든 청크만 — 다른 모델 벡터와는 비교하지 않는다)
     try {
-        const emb = await this.generateEmbedding(query);
-        const { data } = await supabase.rpc('match_documents', { 
-          query_embedding: emb, 
-          match_threshold: 0.0, 
-          match_count: 100 
-        });
-        if (data) vectorDocs = data;
+        const emb = await this.generateEmbedding(searchQuery);
+        vectorDocs = await knowledgeStore.vectorSearch(emb, { model: this.embedder.embeddingModel, limit: 100, threshold: 0.0, ...(filter && { filter }) });
     } catch(e) {
       console.error("Vector search error:", e);
     }
 
     // 2. Keyword
     try {
-        const kws = query.replace(/[?.,!]/g, '').split(/\s+/).filter(w => w.length > 1).slice(0, 5);
-        if (kws.length > 0) {
-            const cond = kws.map(k => `metadata->>title.ilike.%${k}%,content.ilike.%${k}%`).join(',');
-            const { data } = await supabase.from('documents').select('id,content,metadata').or(cond).limit(50);
-            if(data) keywordDocs = data;
-        }
+        keywordDocs = await keywordSearch(knowledgeStore, extractKeywords(searchQuery), 50, filter);
     } catch(e) {
       console.error("Keyword search error:", e);
     }
 
-    // Merge
-    const combined = new Map();
-    [...vectorDocs, ...keywordDocs].forEach(d => combined.set(d.id, { ...d, baseScore: d.similarity || 0.5 }));
-    let docs = Array.from(combined.values());
-    
-    // Rank
-    const qLower = query.toLowerCase();
-    docs = docs.map((d: any) => {
-        let score = d.baseScore;
-        const title = d.metadata?.title || "";
-        if (title.toLowerCase().includes(qLower)) score += 10;
-        return { ...d, score };
-    }).sort((a,b) => b.score - a.score).slice(0, 25);
-
-    // Prepare Sources with defaults
+    // 3. Fusion (RRF) → optional LLM rerank → recency
+    const fused = reciprocalRankFusion({ vector: vectorDocs, keyword: keywordDocs }, FUSION);
+    const rerankDepth = Math.min(Math.max(0, Math.floor(RERANK.depth)), fused.length);
+    const rerankScores = rerankDepth > 0
+      ? await this.rerank(searchQuery, fused.slice(0, rerankDepth), options.signal)
+      : null;
+    const ranked = rerankScores
+      ? applyRerankScores(fused, rerankScores, RERANK)
+      : fused.map(d => ({ ...d, score: d.fusedScore / (fused[0]?.fusedScore || 1) }));
+    const docs = applyRecency(ranked, RECENCY).slice(0, 25);
+
+    // Prepare Sources with defaults (YouTube chunks with a transcript timestamp get an exact ?t= link)
     const sources = Array.from(new Set(docs.map((d: any) => JSON.stringify({ 
-        title: d.metadata?.title || "Untitled",
-        url: d.metadata?.url || "#",
+        title: d.metadata?.startTime ? `${d.metadata?.title || "Untitled"} - ${d.metadata.startTime}` : d.metadata?.title || "Untitled",
+        url: citationUrl(d.metadata) || "#",
         date: d.metadata?.date || "",
         type: d.metadata?.type || "BLOG"
     })))).map((s: any, i) => ({ ...JSON.parse(s), index: i + 1 }));
 
     const sourceMap = new Map(sources.map((s: any) => [s.url||s.title, s.index]));
     
-    const context = docs.map((d: any) => {
+    const staleFacts = detectStaleFacts(docs);
+    const context = docs.map((d: any, i) => {
         const meta = d.metadata || {};
-        const key = meta.url || meta.title || "unknown";
+        const key = citationUrl(meta) || meta.title || "unknown";
         const idx = sourceMap.get(key) || "?";
-        return `[Source ID: ${idx}]\n${d.content}`;
+        const stale = staleFacts.get(i);
+        return `[Source ID: ${idx}] (${meta.date || "날짜 없음"})${stale ? `\n${formatStaleNotice(stale)}` : ""}\n${d.content}`;
     }).join('\n\n');
 
     // Web search
     let webResult: { text: string; sources: any[] } = { text: "", sources: [] };
     if (useWebSearch) {
-      webResult = await this.fetchWebInfo(query);
+      webResult = await this.fetchWebInfo(searchQuery);
     }
 
     const prompt = `${systemInstruction}
@@ -176,22 +284,60 @@ ${webResult.text}
 [QUESTION]
 ${query}`;
 
+    const debugSnippets: DebugSnippet[] = docs.map((d: any) => ({ 
+      score: d.score, 
+      text: d.content.substring(0, 200), 
+      sourceTitle: d.metadata?.title || "Unknown",
+      vectorRank: d.stages.vector?.rank,
+      vectorScore: d.stages.vector?.score,
+      keywordRank: d.stages.keyword?.rank,
+      keywordScore: d.stages.keyword?.score,
+      fusedScore: d.fusedScore,
+      rerankScore: d.rerankScore,
+      recency: d.recency
+    }));
+
+    // 답변의 [[n]] / 링크를 실제 출처와 맞춰 보고, 인용된 출처만 근거 구절과 함께 남긴다
+    const candidates = sources.map((src: any) => ({
+      ...src,
+      text: docs.filter((d: any) => (citationUrl(d.metadata) || "#") === src.url).map((d: any) => d.content).join('\n…\n')
+    }));
+    // 답변 속 가격/시간 숫자를 검색된 문서와 대조 (웹 검색 결과는 본문이 없어 검증하지 않는다)
+    const evidence = docs.map((d: any) => `${d.metadata?.title || ""}\n${d.metadata?.date || ""}\n${d.content}`);
+    const verify = (text: string) => {
+      const verified = verifyCitations(text, candidates, { allowedUrls: webResult.sources.map((s: any) => s.url) });
+      const grounding = useWebSearch || evidence.length === 0
+        ? null
+        : summarizeGrounding('lexical', checkClaimsLexically(extractClaims(verified.answer), evidence));
+      return { answer: verified.answer, sources: verified.sources, grounding };
+    };
+
+    let answer = '';
     try {
-      const model = this.ai.getGenerativeModel({ model: CHAT_MODEL });
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      
-      return {
-        answer: response.text(),
-        sources,
-        webSources: webResult.sources,
-        debugSnippets: docs.map((d: any) => ({ 
-          score: d.score, 
-          text: d.content.substring(0, 200), 
-          sourceTitle: d.metadata?.title || "Unknown" 
-        }))
+      const request = {
+        messages: [
+          ...history.map(turn => ({ role: turn.role, text: turn.text })),
+          { role: 'user' as const, text: prompt }
+        ],
+        signal: options.signal
       };
+
+      if (options.onDelta) {
+        for await (const chunk of this.llm.stream(request)) {
+          answer += chunk.text;
+          options.onDelta(chunk.text);
+        }
+      } else {
+        const result = await this.llm.generate(request);
+        answer = result.text;
+      }
+
+      return { ...verify(answer), webSources: webResult.sources, debugSnippets };
     } catch (error) {
+      // 사용자가 중단한 경우 지금까지 받은 부분 답변을 그대로 돌려준다
+      if (options.signal?.aborted) {
+        return { ...verify(answer), webSources: webResult.sources, debugSnippets };
+      }
       console.error("Generation error:", error);
       return {
         answer: "❌ 답변 생성 중 오류가 발생했습니다.",
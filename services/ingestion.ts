@@ -0,0 +1,132 @@
+import { SourceType } from "../types";
+import { ExistingSource } from "../utils/dedup";
+
+// 한 소스(글/영상)를 청킹 → 임베딩 → documents 저장하기 위한 입력
+export interface SourceInput {
+  type: SourceType;
+  title: string;
+  url: string;
+  date: string;
+  content: string;
+}
+
+// 같은 URL/본문의 소스가 이미 있을 때: 교체 / 건너뛰기 / 새 버전으로 추가
+export type DuplicateAction = 'replace' | 'skip' | 'new_version';
+export type IngestStatus = 'inserted' | 'replaced' | 'new_version' | 'skipped' | 'duplicate';
+
+export interface IngestResult {
+  status: IngestStatus;
+  existing: ExistingSource[];
+  sourceId: string;
+  totalChunks: number;
+  insertedChunks: number;
+  failedChunks: { chunkIndex: number; error: string }[];
+  facts?: number;   // 추출해 저장한 가격 사실 수
+  jobId?: number;   // 서버 수집 작업 (관리자 화면에서 실패한 청크 재시도)
+}
+
+// GET /api/admin/jobs/:id (server/jobs.js publicJob)
+export interface IngestJob {
+  id: number;
+  status: 'queued' | 'running' | 'completed' | 'partial' | 'failed';
+  title: string;
+  createdBy: string;
+  progress: { total: number; embedded: number; stored: number; failed: number };
+  chunks?: { chunkIndex: number; status: 'pending' | 'embedded' | 'stored' | 'failed'; attempts: number; error: string }[];
+  error: string;
+  result: { status: IngestStatus; sourceId: string; insertedChunks: number; facts: number } | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+const API_URL = window.location.hostname === 'localhost'
+  ? 'http://localhost:3000'
+  : 'https://cheolsan-server.onrender.com';
+
+const POLL_INTERVAL_MS = 1000;
+const FINISHED: IngestJob['status'][] = ['completed', 'partial', 'failed'];
+
+// 관리자 화면(Admin.tsx)에서 로그인한 세션의 토큰
+const adminToken = (): string | undefined => {
+  try {
+    return JSON.parse(localStorage.getItem('admin_session') || 'null')?.token;
+  } catch {
+    return undefined;
+  }
+};
+
+const adminFetch = async (path: string, init: RequestInit = {}) => {
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { ...init.headers, 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken()}` }
+  });
+  if (res.status === 401 || res.status === 403) {
+    throw new Error('문서를 저장하려면 관리자 화면에서 편집자(editor) 이상 계정으로 로그인해주세요.');
+  }
+  return res;
+};
+
+// 임베딩 90% + 저장 10%
+export const jobPercent = (job: IngestJob) => {
+  if (FINISHED.includes(job.status)) return 100;
+  const { total, embedded } = job.progress;
+  return total > 0 ? Math.round((embedded / total) * 90) : 0;
+};
+
+/**
+ * Polls a server ingestion job until it finishes, reporting 0-100 progress.
+ */
+export async function waitForJob(jobId: number, onProgress?: (percent: number, job: IngestJob) => void): Promise<IngestJob> {
+  while (true) {
+    const res = await adminFetch(`/api/admin/jobs/${jobId}`);
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || '작업 상태를 불러오지 못했습니다');
+
+    const job: IngestJob = data.job;
+    onProgress?.(jobPercent(job), job);
+    if (FINISHED.includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Ingestion shared by the paste form and file import: submits the source as a server
+ * job (POST /api/admin/jobs — chunking, batched embedding with retries, documents insert)
+ * and polls it. Closing the tab does not stop the job.
+ * onProgress receives 0-100. Without onDuplicate, an existing source stops the run
+ * before embedding and the result comes back with status 'duplicate'.
+ */
+export async function ingestSource(
+  source: SourceInput,
+  onProgress?: (percent: number) => void,
+  onDuplicate?: DuplicateAction
+): Promise<IngestResult> {
+  const { type, title, url, date, content } = source;
+  const res = await adminFetch('/api/admin/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ content, metadata: { title, url, date, type }, onDuplicate })
+  });
+  const data = await res.json();
+
+  const emptyResult = { sourceId: '', totalChunks: 0, insertedChunks: 0, failedChunks: [], existing: data.existing || [] };
+  if (res.status === 409) return { status: 'duplicate', ...emptyResult };
+  if (!data.success) throw new Error(data.message || data.error);
+  if (data.status === 'skipped') return { status: 'skipped', ...emptyResult };
+
+  const job = await waitForJob(data.job.id, percent => onProgress?.(percent));
+  if (job.status === 'failed') throw new Error(job.error || '저장 실패');
+
+  return {
+    status: job.result?.status ?? data.status,
+    existing: emptyResult.existing,
+    sourceId: job.result?.sourceId ?? '',
+    totalChunks: job.progress.total,
+    insertedChunks: job.progress.stored,
+    failedChunks: (job.chunks || [])
+      .filter(chunk => chunk.status === 'failed')
+      .map(chunk => ({ chunkIndex: chunk.chunkIndex, error: chunk.error })),
+    facts: job.result?.facts,
+    jobId: job.id
+  };
+}
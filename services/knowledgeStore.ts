@@ -0,0 +1,19 @@
+import { createKnowledgeStore, storeConfigFromEnv } from '../store/index.js';
+
+// 브라우저 쪽 지식 베이스 저장소 (VITE_KNOWLEDGE_STORE=supabase | local)
+// local은 localStorage에 저장 — Supabase 프로젝트 없이 화면/파이프라인을 개발할 때 사용
+const env = {
+  // @ts-ignore
+  ...import.meta.env,
+  // @ts-ignore
+  VITE_SUPABASE_URL: process.env.SUPABASE_URL,
+  // @ts-ignore
+  VITE_SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
+};
+const config = storeConfigFromEnv(env, 'VITE_');
+
+if (config.backend === 'supabase' && (!config.supabase.url || !config.supabase.key)) {
+  console.warn("Supabase URL or Key is missing. Database features will not work.");
+}
+
+export const knowledgeStore = createKnowledgeStore(config);
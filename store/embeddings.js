@@ -0,0 +1,43 @@
+// ===========================
+// 청크 임베딩 모델 기록 (documents.metadata.embeddingModel / embeddingDimensions)
+// ===========================
+// 모델이 다른 벡터끼리는 유사도가 의미 없으므로 벡터 검색은 질문을 임베딩한 모델의 청크만 비교한다.
+// 기록이 없는 청크는 모델 이름을 저장하기 전(text-embedding-004 고정)에 만들어졌다.
+// (supabase는 20261019060000_embedding_models.sql 이 기존 행에 같은 값을 채운다)
+
+export const LEGACY_EMBEDDING_MODEL = 'text-embedding-004';
+
+/**
+ * @typedef {Object} EmbeddingModelSummary
+ * @property {string} model
+ * @property {number} dimensions
+ * @property {number} chunks
+ */
+
+/** @returns {string} */
+export const chunkEmbeddingModel = (metadata = {}) => metadata.embeddingModel || LEGACY_EMBEDDING_MODEL;
+
+/**
+ * Chunk counts per (model, dimensions), largest first.
+ *
+ * @param {{ metadata: Object, embedding: number[] }[]} rows
+ * @returns {EmbeddingModelSummary[]}
+ */
+export function summarizeEmbeddingModels(rows) {
+  const groups = new Map();
+  rows.forEach(({ metadata, embedding }) => {
+    const model = chunkEmbeddingModel(metadata);
+    const dimensions = embedding.length;
+    const key = `${model}:${dimensions}`;
+    const group = groups.get(key) || { model, dimensions, chunks: 0 };
+    group.chunks++;
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort((a, b) => b.chunks - a.chunks);
+}
+
+// vectorSearch는 모델을 반드시 받는다 — 모델을 모르는 질문 벡터로 여러 모델의 청크를 섞어 비교하지 않도록
+export const requireEmbeddingModel = (model) => {
+  if (!model) throw new Error('벡터 검색에는 질문을 임베딩한 모델(options.model)이 필요합니다');
+  return model;
+};
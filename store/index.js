@@ -0,0 +1,166 @@
+// 지식 베이스 저장소 추상화 — 문서 청크/검색/소스/설정 접근을 한 인터페이스로 모은다.
+// 백엔드: supabase (pgvector + RPC), local (JSON 파일/localStorage 기반 인메모리 인덱스 — Supabase 없이 개발/테스트)
+
+import { createClient } from '@supabase/supabase-js';
+import { createSupabaseStore } from './supabase.js';
+import { browserStorage, createLocalStore } from './local.js';
+
+/**
+ * @typedef {Object} ChunkRow
+ * @property {string} content
+ * @property {Object} metadata      sourceId, title, url, date, type, chunkIndex, ...
+ * @property {number[]} embedding
+ */
+
+/**
+ * @typedef {Object} StoredChunk
+ * @property {number} id
+ * @property {string} content
+ * @property {Object} metadata
+ */
+
+/**
+ * @typedef {StoredChunk & { similarity: number }} VectorHit
+ */
+
+/**
+ * @typedef {StoredChunk & { score: number }} KeywordRow   score: BM25 원점수 (정규화 전)
+ */
+
+/**
+ * @typedef {Object} ShadowEmbedding
+ * @property {number} id            documents.id
+ * @property {number[]} embedding   새 모델로 다시 만든 벡터 (cutover 전까지 검색에 쓰지 않는다)
+ */
+
+/**
+ * @typedef {Object} JobEmbedding
+ * @property {number} chunkIndex
+ * @property {number[]} embedding
+ * @property {string} model         embedding을 만든 모델
+ */
+
+/**
+ * @typedef {Object} SourceSummary
+ * @property {string} sourceId
+ * @property {string} title
+ * @property {string} url
+ * @property {string} type
+ * @property {string} date
+ * @property {number} version
+ * @property {string} region       utils/taxonomy.js REGIONS id ('' = 미분류)
+ * @property {string} category
+ * @property {string[]} tags
+ * @property {number} chunkCount
+ */
+
+/**
+ * @typedef {Object} PromptVersion
+ * @property {number} id
+ * @property {'system' | 'reinforcement'} kind
+ * @property {number} version      kind 별 1부터 증가
+ * @property {string} content
+ * @property {string} author
+ * @property {string} note
+ * @property {string} createdAt    ISO 8601
+ */
+
+/**
+ * @typedef {Object} KnowledgeStore
+ * @property {string} name
+ * @property {(rows: ChunkRow[]) => Promise<void>} insertChunks
+ * @property {(oldSourceIds: string[], rows: ChunkRow[]) => Promise<void>} replaceSource
+ *           기존 소스 청크 삭제 + 새 청크 저장 (한 트랜잭션)
+ * @property {(embedding: number[], options: { model: string, limit?: number, threshold?: number, filter?: import('../utils/taxonomy.js').SourceFilter | null }) => Promise<VectorHit[]>} vectorSearch
+ *           model(질문을 임베딩한 모델)로 만든 같은 차원의 청크만 비교한다 — model이 없으면 throw.
+ *           filter: 지역/카테고리/태그 (keywordSearch와 같은 규칙)
+ * @property {(terms: string[], weights: number[], limit: number, filter?: import('../utils/taxonomy.js').SourceFilter | null) => Promise<KeywordRow[]>} keywordSearch
+ *           BM25 (k1 = 1.2, b = 0.75) + 제목 매칭 보너스, 점수 내림차순
+ * @property {(key: 'url' | 'normalizedUrl' | 'contentHash', value: string) => Promise<StoredChunk[]>} findChunksByMetadata
+ * @property {(options?: { offset?: number, limit?: number }) => Promise<StoredChunk[]>} listChunks   id 오름차순
+ * @property {() => Promise<SourceSummary[]>} listSources   최신 날짜 순
+ * @property {(sourceId: string) => Promise<StoredChunk[]>} getSourceChunks   청크 순서대로
+ * @property {(updates: { id: number, metadata: Object, embedding?: number[] | null }[]) => Promise<void>} updateChunks
+ *           청크 metadata를 통째로 바꾼다 (embedding이 있으면 벡터도) — 한 트랜잭션
+ * @property {(sourceId: string) => Promise<void>} deleteSource
+ * @property {(id: number | string) => Promise<void>} deleteChunk
+ * @property {(sourceId: string, facts: import('../utils/facts.js').PriceFact[]) => Promise<void>} replaceFacts
+ *           소스의 가격 사실을 통째로 바꾼다 — 청크가 지워지면 그 청크의 사실도 함께 지워진다
+ * @property {(query?: { terms?: string[], currency?: string, limit?: number, filter?: import('../utils/taxonomy.js').SourceFilter | null }) => Promise<import('../utils/facts.js').PriceFact[]>} searchFacts
+ *           항목 이름에 terms 중 하나가 들어간 사실 (terms가 없으면 전체), 최근 날짜 순. filter: 출처 청크의 지역/카테고리/태그
+ * @property {(job: Omit<import('../server/jobs.js').IngestJob, 'id' | 'createdAt' | 'updatedAt'>) => Promise<import('../server/jobs.js').IngestJob>} createJob
+ * @property {(job: import('../server/jobs.js').IngestJob) => Promise<void>} updateJob   작업 전체를 덮어쓴다 (updatedAt 갱신)
+ * @property {(id: number, progress: import('../server/jobs.js').IngestJob['progress']) => Promise<void>} updateJobProgress
+ *           진행률만 바꾼다 (배치마다 — 청크 목록은 다시 쓰지 않는다)
+ * @property {(id: number, rows: JobEmbedding[]) => Promise<void>} saveJobEmbeddings
+ *           작업 청크의 임베딩을 documents에 저장하기 전까지 따로 보관 (같은 청크는 덮어쓴다)
+ * @property {(id: number) => Promise<JobEmbedding[]>} getJobEmbeddings
+ * @property {(id: number) => Promise<void>} deleteJobEmbeddings
+ * @property {(id: number | string) => Promise<import('../server/jobs.js').IngestJob | null>} getJob
+ * @property {(options?: { limit?: number }) => Promise<import('../server/jobs.js').IngestJob[]>} listJobs
+ *           최신 작업 먼저, 본문(input)과 청크(chunks) 없이
+ * @property {() => Promise<import('./embeddings.js').EmbeddingModelSummary[]>} listEmbeddingModels   모델/차원별 청크 수
+ * @property {(model: string, rows: ShadowEmbedding[]) => Promise<void>} saveShadowEmbeddings
+ *           임베딩 모델 교체 준비: 기존 청크의 새 모델 벡터를 따로 저장 (같은 청크는 덮어쓴다)
+ * @property {(model: string) => Promise<number[]>} listShadowEmbeddingIds   새 모델 벡터가 있는 청크 id
+ * @property {(model: string, embedding: number[], options?: { limit?: number, threshold?: number }) => Promise<VectorHit[]>} shadowVectorSearch
+ *           새 모델 벡터로 검색 (cutover 전 검색 품질 비교용)
+ * @property {(model: string) => Promise<number>} cutoverEmbeddings
+ *           새 모델 벡터를 documents에 옮기고 지운다 (한 트랜잭션) — 다른 모델 청크 중 새 벡터가 없는 게 있으면 throw
+ * @property {(model: string) => Promise<void>} deleteShadowEmbeddings
+ * @property {() => Promise<number>} getVersion   documents가 바뀔 때마다 증가하는 지식 베이스 버전 (캐시 무효화용)
+ * @property {(keys: string[]) => Promise<Record<string, string>>} getSettings   없는 key는 빠진다
+ * @property {(key: string, value: string) => Promise<void>} setSetting
+ * @property {(kind: PromptVersion['kind']) => Promise<PromptVersion[]>} listPromptVersions   최신 버전 먼저
+ * @property {(entry: { kind: PromptVersion['kind'], content: string, author: string, note: string }) => Promise<PromptVersion>} addPromptVersion
+ */
+
+/**
+ * @typedef {Object} StoreConfig
+ * @property {'supabase' | 'local'} backend
+ * @property {{ url?: string, key?: string, serviceRole?: boolean }} supabase
+ * @property {{ path: string, storage?: import('./local.js').LocalStorageAdapter }} local
+ *           storage를 주지 않으면 브라우저 localStorage (key = path)
+ */
+
+export const STORE_BACKENDS = ['supabase', 'local'];
+
+/**
+ * Reads store settings from an env-like object (import.meta.env with 'VITE_', or process.env).
+ *
+ * KNOWLEDGE_STORE (default supabase), SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY | SUPABASE_ANON_KEY | SUPABASE_KEY,
+ * LOCAL_STORE_PATH (default data/knowledge.json). The service role key is for the server and
+ * scripts only (never give it a VITE_ name) — with RLS on (20261019090000_row_level_security.sql)
+ * the anon key can only read documents.  supabase.serviceRole: whether the service role key is used.
+ *
+ * @param {Record<string, any>} env
+ * @param {string} [prefix]
+ * @returns {StoreConfig}
+ */
+export function storeConfigFromEnv(env, prefix = '') {
+  const read = (key) => env[prefix + key] || undefined;
+  return {
+    backend: read('KNOWLEDGE_STORE') || 'supabase',
+    supabase: {
+      url: read('SUPABASE_URL'),
+      key: read('SUPABASE_SERVICE_ROLE_KEY') || read('SUPABASE_ANON_KEY') || read('SUPABASE_KEY'),
+      serviceRole: !!read('SUPABASE_SERVICE_ROLE_KEY'),
+    },
+    local: { path: read('LOCAL_STORE_PATH') || 'data/knowledge.json' },
+  };
+}
+
+/**
+ * @param {StoreConfig} config
+ * @returns {KnowledgeStore}
+ */
+export function createKnowledgeStore(config) {
+  switch (config.backend) {
+    case 'supabase':
+      return createSupabaseStore(createClient(config.supabase.url || '', config.supabase.key || ''));
+    case 'local':
+      return createLocalStore(config.local.storage || browserStorage(config.local.path));
+    default:
+      throw new Error(`알 수 없는 저장소: ${config.backend} (${STORE_BACKENDS.join(' | ')})`);
+  }
+}
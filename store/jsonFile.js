@@ -0,0 +1,20 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// 로컬 저장소의 Node 전용 파일 어댑터 (브라우저 번들에 node:fs가 들어가지 않도록 분리)
+
+/**
+ * JSON file persistence for the local store. Writes go to a temp file first and
+ * are renamed into place, so a crash mid-write never leaves a truncated file.
+ *
+ * @param {string} path
+ * @returns {import('./local.js').LocalStorageAdapter}
+ */
+export const jsonFileStorage = (path) => ({
+  load: () => (existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null),
+  save: (data) => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(`${path}.tmp`, JSON.stringify(data));
+    renameSync(`${path}.tmp`, path);
+  },
+});
@@ -0,0 +1,366 @@
+import { cosineSimilarity } from '../utils/textProcessing.js';
+import { summarizeSources } from './sources.js';
+import { chunkEmbeddingModel, requireEmbeddingModel, summarizeEmbeddingModels } from './embeddings.js';
+import { matchesSourceFilter } from '../utils/taxonomy.js';
+
+// ===========================
+// 로컬 저장소 (Supabase 없이 개발/테스트)
+// ===========================
+// 모든 청크를 메모리에 올려두고 변경될 때마다 통째로 저장한다 (작업 진행률/임베딩은 모아서 2초마다).
+// 벡터 검색은 전수 cosineSimilarity, 키워드 검색은 keyword_search RPC와 같은 BM25 식.
+// 수천 청크 규모의 개발용 — 운영 데이터는 supabase 백엔드를 쓴다.
+
+/**
+ * @typedef {Object} LocalData
+ * @property {number} nextId
+ * @property {number} version       documents가 바뀔 때마다 1 증가 (KnowledgeStore.getVersion)
+ * @property {(import('./index.js').StoredChunk & { embedding: number[] })[]} documents
+ * @property {import('../utils/facts.js').PriceFact[]} facts
+ * @property {Record<string, string>} settings
+ * @property {import('./index.js').PromptVersion[]} promptVersions
+ * @property {import('../server/jobs.js').IngestJob[]} jobs
+ * @property {Record<string, Record<string, number[]>>} shadowEmbeddings   모델 → 청크 id → 새 모델 벡터
+ * @property {Record<string, import('./index.js').JobEmbedding[]>} jobEmbeddings   작업 id → 아직 documents에 저장하지 않은 임베딩
+ */
+
+/**
+ * @typedef {Object} LocalStorageAdapter
+ * @property {() => LocalData | null} load
+ * @property {(data: LocalData) => void} save
+ */
+
+// BM25 파라미터 (supabase/migrations/20261019010000_keyword_search.sql 과 동일)
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_BONUS = 1.0;
+
+const countOccurrences = (text, term) => {
+  let count = 0;
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) count++;
+  return count;
+};
+
+const withoutEmbedding = ({ embedding, ...row }) => row;
+const jobSummary = ({ input, chunks, ...job }) => job;
+
+// 작업 진행률/임베딩은 배치마다 바뀐다 — 파일 전체를 매번 쓰지 않고 잠시 모았다가 한 번에 저장한다
+const BATCHED_PERSIST_MS = 2000;
+
+/**
+ * Browser localStorage (key = store path). Large knowledge bases will hit the ~5MB quota.
+ *
+ * @param {string} key
+ * @returns {LocalStorageAdapter}
+ */
+export const browserStorage = (key) => ({
+  load: () => {
+    const raw = globalThis.localStorage?.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  },
+  save: (data) => globalThis.localStorage?.setItem(key, JSON.stringify(data)),
+});
+
+/**
+ * @param {LocalStorageAdapter} storage
+ * @returns {import('./index.js').KnowledgeStore}
+ */
+export function createLocalStore(storage) {
+  /** @type {LocalData} */
+  const data = {
+    nextId: 1,
+    version: 0,
+    documents: [],
+    facts: [],
+    settings: {},
+    promptVersions: [],
+    jobs: [],
+    shadowEmbeddings: {},
+    jobEmbeddings: {},
+    ...(storage.load() || {}),
+  };
+  let persistTimer = null;
+  const persist = () => {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+    storage.save(data);
+  };
+  const persistSoon = () => {
+    if (persistTimer) return;
+    persistTimer = setTimeout(persist, BATCHED_PERSIST_MS);
+    persistTimer.unref?.();
+  };
+  // documents 변경 저장 — 설정/프롬프트 저장은 버전을 올리지 않는다
+  const persistDocuments = () => {
+    data.version++;
+    persist();
+  };
+
+  const addRows = (rows) => {
+    rows.forEach((row) => {
+      data.documents.push({ id: data.nextId++, content: row.content, metadata: row.metadata || {}, embedding: row.embedding || [] });
+    });
+  };
+
+  // 지운 청크에서 나온 가격 사실/새 모델 벡터도 함께 지운다 (supabase: documents 삭제 트리거 / on delete cascade)
+  const removeWhere = (predicate) => {
+    const removedDocs = data.documents.filter(predicate);
+    const removed = new Set(removedDocs.map((doc) => `${doc.metadata.sourceId}:${doc.metadata.chunkIndex}`));
+    data.documents = data.documents.filter((doc) => !predicate(doc));
+    data.facts = data.facts.filter((fact) => !removed.has(`${fact.sourceId}:${fact.chunkIndex}`));
+    Object.values(data.shadowEmbeddings).forEach((vectors) => removedDocs.forEach((doc) => delete vectors[doc.id]));
+  };
+
+  const rankBySimilarity = (embedding, candidates, { limit, threshold }) =>
+    candidates
+      .filter(({ vector }) => vector.length === embedding.length)
+      .map(({ doc, vector }) => ({ ...withoutEmbedding(doc), similarity: cosineSimilarity(embedding, vector) }))
+      .filter((doc) => doc.similarity > threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+  return {
+    name: 'local',
+
+    async insertChunks(rows) {
+      addRows(rows);
+      persistDocuments();
+    },
+
+    // 메모리에서 삭제 + 추가 후 한 번에 저장 → 중간 상태가 파일에 남지 않는다
+    async replaceSource(oldSourceIds, rows) {
+      removeWhere((doc) => oldSourceIds.includes(doc.metadata.sourceId));
+      addRows(rows);
+      persistDocuments();
+    },
+
+    async vectorSearch(embedding, { model, limit = 10, threshold = 0, filter = null } = {}) {
+      requireEmbeddingModel(model);
+      const candidates = data.documents
+        .filter((doc) => chunkEmbeddingModel(doc.metadata) === model && matchesSourceFilter(doc.metadata, filter))
+        .map((doc) => ({ doc, vector: doc.embedding }));
+      return rankBySimilarity(embedding, candidates, { limit, threshold });
+    },
+
+    // filter: 지역/카테고리/태그 — 통계(n, avgdl, df)도 필터를 통과한 청크 기준
+    async keywordSearch(terms, weights, limit, filter = null) {
+      const weighted = terms
+        .map((term, i) => ({ term: term.trim().toLowerCase(), weight: weights?.[i] ?? 1 }))
+        .filter(({ term }) => term.length > 0);
+      const documents = data.documents.filter((doc) => matchesSourceFilter(doc.metadata, filter));
+      const n = documents.length;
+      if (weighted.length === 0 || n === 0) return [];
+      const avgdl = Math.max(documents.reduce((sum, doc) => sum + doc.content.length, 0) / n, 1);
+
+      // term별로 매칭 문서를 모아 df를 구한 뒤 문서별 점수를 합산
+      const scores = new Map();
+      weighted.forEach(({ term, weight }) => {
+        const matches = documents
+          .map((doc) => ({
+            doc,
+            tf: countOccurrences(doc.content.toLowerCase(), term),
+            inTitle: (doc.metadata.title || '').toLowerCase().includes(term),
+          }))
+          .filter(({ tf, inTitle }) => tf > 0 || inTitle);
+        const idf = Math.log(1 + (n - matches.length + 0.5) / (matches.length + 0.5));
+
+        matches.forEach(({ doc, tf, inTitle }) => {
+          const norm = tf + K1 * (1 - B + (B * doc.content.length) / avgdl);
+          const score = weight * idf * ((tf * (K1 + 1)) / norm + (inTitle ? TITLE_BONUS : 0));
+          scores.set(doc, (scores.get(doc) || 0) + score);
+        });
+      });
+
+      return [...scores.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([doc, score]) => ({ ...withoutEmbedding(doc), score }));
+    },
+
+    async findChunksByMetadata(key, value) {
+      return data.documents.filter((doc) => doc.metadata[key] === value).map(withoutEmbedding);
+    },
+
+    async listChunks({ offset = 0, limit = 1000 } = {}) {
+      return data.documents.slice(offset, offset + limit).map(withoutEmbedding);
+    },
+
+    async listSources() {
+      return summarizeSources(data.documents);
+    },
+
+    async getSourceChunks(sourceId) {
+      return data.documents.filter((doc) => doc.metadata.sourceId === sourceId).map(withoutEmbedding);
+    },
+
+    async updateChunks(updates) {
+      const byId = new Map(updates.map((update) => [String(update.id), update]));
+      data.documents.forEach((doc) => {
+        const update = byId.get(String(doc.id));
+        if (!update) return;
+        doc.metadata = update.metadata;
+        if (update.embedding) doc.embedding = update.embedding;
+      });
+      persistDocuments();
+    },
+
+    async deleteSource(sourceId) {
+      removeWhere((doc) => doc.metadata.sourceId === sourceId);
+      persistDocuments();
+    },
+
+    async deleteChunk(id) {
+      removeWhere((doc) => String(doc.id) === String(id));
+      persistDocuments();
+    },
+
+    async replaceFacts(sourceId, facts) {
+      data.facts = [...data.facts.filter((fact) => fact.sourceId !== sourceId), ...facts];
+      persistDocuments();
+    },
+
+    async searchFacts({ terms = [], currency, limit = 50, filter = null } = {}) {
+      const keys = terms.map((term) => term.trim().toLowerCase()).filter(Boolean);
+      // 출처 청크가 필터를 통과한 사실만
+      const chunkKey = (sourceId, chunkIndex) => `${sourceId}:${chunkIndex}`;
+      const allowed = filter && new Set(
+        data.documents
+          .filter((doc) => matchesSourceFilter(doc.metadata, filter))
+          .map((doc) => chunkKey(doc.metadata.sourceId, doc.metadata.chunkIndex)),
+      );
+      return data.facts
+        .filter((fact) => keys.length === 0 || keys.some((key) => fact.itemKey.includes(key)))
+        .filter((fact) => !currency || fact.currency === currency)
+        .filter((fact) => !allowed || allowed.has(chunkKey(fact.sourceId, fact.chunkIndex)))
+        .sort((a, b) => (b.observedAt || '').localeCompare(a.observedAt || ''))
+        .slice(0, limit);
+    },
+
+    async createJob(job) {
+      const now = new Date().toISOString();
+      const created = { ...job, id: data.jobs.length + 1, createdAt: now, updatedAt: now };
+      data.jobs.push(created);
+      persist();
+      return structuredClone(created);
+    },
+
+    async updateJob(job) {
+      const index = data.jobs.findIndex((entry) => entry.id === job.id);
+      if (index === -1) throw new Error(`작업을 찾을 수 없습니다: ${job.id}`);
+      data.jobs[index] = { ...job, updatedAt: new Date().toISOString() };
+      persist();
+    },
+
+    async updateJobProgress(id, progress) {
+      const job = data.jobs.find((entry) => entry.id === id);
+      if (!job) throw new Error(`작업을 찾을 수 없습니다: ${id}`);
+      Object.assign(job, { progress, updatedAt: new Date().toISOString() });
+      persistSoon();
+    },
+
+    async saveJobEmbeddings(id, rows) {
+      const saved = new Map((data.jobEmbeddings[id] || []).map((row) => [row.chunkIndex, row]));
+      rows.forEach((row) => saved.set(row.chunkIndex, row));
+      data.jobEmbeddings[id] = [...saved.values()];
+      persistSoon();
+    },
+
+    async getJobEmbeddings(id) {
+      return structuredClone(data.jobEmbeddings[id] || []);
+    },
+
+    async deleteJobEmbeddings(id) {
+      if (!data.jobEmbeddings[id]) return;
+      delete data.jobEmbeddings[id];
+      persist();
+    },
+
+    async getJob(id) {
+      const job = data.jobs.find((entry) => String(entry.id) === String(id));
+      return job ? structuredClone(job) : null;
+    },
+
+    async listJobs({ limit = 50 } = {}) {
+      return data.jobs.slice(-limit).reverse().map(jobSummary);
+    },
+
+    async listEmbeddingModels() {
+      return summarizeEmbeddingModels(data.documents);
+    },
+
+    async saveShadowEmbeddings(model, rows) {
+      const vectors = data.shadowEmbeddings[model] || {};
+      rows.forEach(({ id, embedding }) => {
+        vectors[id] = embedding;
+      });
+      data.shadowEmbeddings[model] = vectors;
+      persist();
+    },
+
+    async listShadowEmbeddingIds(model) {
+      return Object.keys(data.shadowEmbeddings[model] || {}).map(Number);
+    },
+
+    async shadowVectorSearch(model, embedding, { limit = 10, threshold = 0 } = {}) {
+      const vectors = data.shadowEmbeddings[model] || {};
+      const candidates = data.documents
+        .filter((doc) => vectors[doc.id])
+        .map((doc) => ({ doc, vector: vectors[doc.id] }));
+      return rankBySimilarity(embedding, candidates, { limit, threshold });
+    },
+
+    async cutoverEmbeddings(model) {
+      const vectors = data.shadowEmbeddings[model] || {};
+      const missing = data.documents.filter((doc) => chunkEmbeddingModel(doc.metadata) !== model && !vectors[doc.id]);
+      if (missing.length > 0) throw new Error(`${missing.length}개 청크에 ${model} 벡터가 없습니다`);
+
+      let moved = 0;
+      data.documents.forEach((doc) => {
+        if (!vectors[doc.id]) return;
+        doc.embedding = vectors[doc.id];
+        doc.metadata = { ...doc.metadata, embeddingModel: model, embeddingDimensions: doc.embedding.length };
+        moved++;
+      });
+      delete data.shadowEmbeddings[model];
+      persistDocuments();
+      return moved;
+    },
+
+    async deleteShadowEmbeddings(model) {
+      delete data.shadowEmbeddings[model];
+      persist();
+    },
+
+    async getVersion() {
+      return data.version;
+    },
+
+    async getSettings(keys) {
+      return Object.fromEntries(keys.filter((key) => key in data.settings).map((key) => [key, data.settings[key]]));
+    },
+
+    async setSetting(key, value) {
+      data.settings[key] = value;
+      persist();
+    },
+
+    async listPromptVersions(kind) {
+      return data.promptVersions.filter((entry) => entry.kind === kind).reverse();
+    },
+
+    async addPromptVersion({ kind, content, author, note }) {
+      const versions = data.promptVersions.filter((entry) => entry.kind === kind);
+      const entry = {
+        id: data.promptVersions.length + 1,
+        kind,
+        version: versions.length + 1,
+        content,
+        author,
+        note,
+        createdAt: new Date().toISOString(),
+      };
+      data.promptVersions.push(entry);
+      persist();
+      return entry;
+    },
+  };
+}
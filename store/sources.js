@@ -0,0 +1,29 @@
+// 청크 metadata 에서 소스별 요약을 만든다 (저장소 구현 공용)
+
+/**
+ * @param {{ metadata?: Object }[]} rows
+ * @returns {import('./index.js').SourceSummary[]} newest date first
+ */
+export const summarizeSources = (rows) => {
+  /** @type {Map<string, import('./index.js').SourceSummary>} */
+  const sources = new Map();
+  rows.forEach(({ metadata = {} }) => {
+    if (!metadata.sourceId) return;
+    const source = sources.get(metadata.sourceId) || {
+      sourceId: metadata.sourceId,
+      title: metadata.title || 'Untitled',
+      url: metadata.url || '',
+      type: metadata.type || '',
+      date: metadata.date || '',
+      version: metadata.version || 1,
+      region: metadata.region || '',
+      category: metadata.category || '',
+      tags: metadata.tags || [],
+      chunkCount: 0,
+    };
+    source.chunkCount++;
+    sources.set(metadata.sourceId, source);
+  });
+  return [...sources.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
+
@@ -0,0 +1,337 @@
+import { summarizeSources } from './sources.js';
+import { requireEmbeddingModel } from './embeddings.js';
+
+// ===========================
+// Supabase 저장소 (documents / settings 테이블, match_documents_by_model · keyword_search · replace_source RPC)
+// ===========================
+
+const PAGE_SIZE = 1000; // PostgREST 기본 최대 행 수
+
+/** @returns {import('./index.js').PromptVersion} */
+const toPromptVersion = (row) => ({
+  id: row.id,
+  kind: row.kind,
+  version: row.version,
+  content: row.content,
+  author: row.author,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+/** @returns {import('../utils/facts.js').PriceFact} */
+const toFact = (row) => ({
+  item: row.item,
+  itemKey: row.item_key,
+  price: Number(row.price),
+  currency: row.currency,
+  priceText: row.price_text,
+  observedAt: row.observed_at || '',
+  sourceId: row.source_id,
+  chunkIndex: row.chunk_index,
+  title: row.title,
+  url: row.url,
+  excerpt: row.excerpt,
+});
+
+/** @param {import('../utils/facts.js').PriceFact} fact */
+const fromFact = (fact) => ({
+  item: fact.item,
+  item_key: fact.itemKey,
+  price: fact.price,
+  currency: fact.currency,
+  price_text: fact.priceText,
+  observed_at: fact.observedAt || null,
+  source_id: fact.sourceId,
+  chunk_index: fact.chunkIndex,
+  title: fact.title,
+  url: fact.url,
+  excerpt: fact.excerpt,
+});
+
+/** @returns {import('../server/jobs.js').IngestJob} */
+const toJob = (row) => ({
+  id: row.id,
+  status: row.status,
+  title: row.title,
+  createdBy: row.created_by,
+  input: row.input,
+  plan: row.plan,
+  chunks: row.chunks,
+  progress: row.progress,
+  error: row.error,
+  result: row.result,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  finishedAt: row.finished_at,
+});
+
+/** @param {Partial<import('../server/jobs.js').IngestJob>} job */
+const fromJob = (job) => ({
+  status: job.status,
+  title: job.title,
+  created_by: job.createdBy,
+  input: job.input,
+  plan: job.plan,
+  chunks: job.chunks,
+  progress: job.progress,
+  error: job.error,
+  result: job.result,
+  finished_at: job.finishedAt,
+});
+
+// pgvector 열은 '[0.1,0.2,...]' 문자열로 돌아온다
+const toVector = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+// 목록에는 본문/청크를 싣지 않는다
+const JOB_SUMMARY_COLUMNS = 'id, status, title, created_by, plan, progress, error, result, created_at, updated_at, finished_at';
+
+// PostgREST or() 필터 문법(쉼표/괄호)을 깨지 않도록 검색어는 글자/숫자만 남긴다
+const filterTerm = (term) => term.toLowerCase().replace(/[^0-9a-z가-힣]/g, '');
+
+/**
+ * @param {import('@supabase/supabase-js').SupabaseClient} supabase
+ * @returns {import('./index.js').KnowledgeStore}
+ */
+export function createSupabaseStore(supabase) {
+  const check = ({ data, error }) => {
+    if (error) throw error;
+    return data || [];
+  };
+
+  const listChunks = async ({ offset = 0, limit = PAGE_SIZE } = {}) =>
+    check(await supabase
+      .from('documents')
+      .select('id, content, metadata')
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1));
+
+  return {
+    name: 'supabase',
+
+    async insertChunks(rows) {
+      if (rows.length === 0) return;
+      check(await supabase.from('documents').insert(rows));
+    },
+
+    // supabase/migrations/20261019000000_source_dedup.sql
+    async replaceSource(oldSourceIds, rows) {
+      check(await supabase.rpc('replace_source', { old_source_ids: oldSourceIds, new_rows: rows }));
+    },
+
+    // supabase/migrations/20261019060000_embedding_models.sql (filter: 20261019110000_vector_search_filter.sql)
+    async vectorSearch(embedding, { model, limit = 10, threshold = 0, filter = null } = {}) {
+      return check(await supabase.rpc('match_documents_by_model', {
+        query_embedding: embedding,
+        match_threshold: threshold,
+        match_count: limit,
+        embedding_model: requireEmbeddingModel(model),
+        source_filter: filter,
+      }));
+    },
+
+    // supabase/migrations/20261019010000_keyword_search.sql (filter: 20261019080000_source_taxonomy.sql)
+    async keywordSearch(terms, weights, limit, filter = null) {
+      return check(await supabase.rpc('keyword_search', {
+        search_terms: terms,
+        term_weights: weights,
+        match_count: limit,
+        source_filter: filter,
+      }));
+    },
+
+    async findChunksByMetadata(key, value) {
+      return check(await supabase.from('documents').select('id, content, metadata').eq(`metadata->>${key}`, value));
+    },
+
+    listChunks,
+
+    // metadata만 페이지 단위로 훑어서 소스별로 묶는다
+    async listSources() {
+      const rows = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const page = check(await supabase
+          .from('documents')
+          .select('metadata')
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1));
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) break;
+      }
+      return summarizeSources(rows);
+    },
+
+    async getSourceChunks(sourceId) {
+      return check(await supabase
+        .from('documents')
+        .select('id, content, metadata')
+        .eq('metadata->>sourceId', sourceId)
+        .order('id', { ascending: true }));
+    },
+
+    // supabase/migrations/20261019070000_update_chunks.sql
+    async updateChunks(updates) {
+      if (updates.length === 0) return;
+      check(await supabase.rpc('update_chunks', {
+        updates: updates.map(({ id, metadata, embedding }) => ({ id, metadata, embedding: embedding || null })),
+      }));
+    },
+
+    async deleteSource(sourceId) {
+      check(await supabase.from('documents').delete().eq('metadata->>sourceId', sourceId));
+    },
+
+    async deleteChunk(id) {
+      check(await supabase.from('documents').delete().eq('id', id));
+    },
+
+    // supabase/migrations/20261019040000_facts.sql (청크 삭제 시 트리거가 함께 지운다)
+    async replaceFacts(sourceId, facts) {
+      check(await supabase.from('facts').delete().eq('source_id', sourceId));
+      if (facts.length > 0) check(await supabase.from('facts').insert(facts.map(fromFact)));
+    },
+
+    // supabase/migrations/20261019120000_search_facts.sql (filter: 출처 청크의 지역/카테고리/태그)
+    async searchFacts({ terms = [], currency, limit = 50, filter = null } = {}) {
+      const rows = check(await supabase.rpc('search_facts', {
+        search_terms: terms.map(filterTerm).filter(Boolean),
+        fact_currency: currency || null,
+        match_count: limit,
+        source_filter: filter,
+      }));
+      return rows.map(toFact);
+    },
+
+    // supabase/migrations/20261019050000_jobs.sql
+    async createJob(job) {
+      const { data, error } = await supabase.from('jobs').insert(fromJob(job)).select().single();
+      if (error) throw error;
+      return toJob(data);
+    },
+
+    async updateJob(job) {
+      check(await supabase.from('jobs').update({ ...fromJob(job), updated_at: new Date().toISOString() }).eq('id', job.id));
+    },
+
+    async updateJobProgress(id, progress) {
+      check(await supabase.from('jobs').update({ progress, updated_at: new Date().toISOString() }).eq('id', id));
+    },
+
+    // supabase/migrations/20261019100000_job_embeddings.sql
+    async saveJobEmbeddings(id, rows) {
+      if (rows.length === 0) return;
+      check(await supabase
+        .from('job_embeddings')
+        .upsert(rows.map(({ chunkIndex, embedding, model }) => ({ job_id: id, chunk_index: chunkIndex, embedding, model }))));
+    },
+
+    async getJobEmbeddings(id) {
+      const rows = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const page = check(await supabase
+          .from('job_embeddings')
+          .select('chunk_index, embedding, model')
+          .eq('job_id', id)
+          .order('chunk_index', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1));
+        rows.push(...page.map((row) => ({ chunkIndex: row.chunk_index, embedding: toVector(row.embedding), model: row.model })));
+        if (page.length < PAGE_SIZE) break;
+      }
+      return rows;
+    },
+
+    async deleteJobEmbeddings(id) {
+      check(await supabase.from('job_embeddings').delete().eq('job_id', id));
+    },
+
+    async getJob(id) {
+      const rows = check(await supabase.from('jobs').select('*').eq('id', id));
+      return rows[0] ? toJob(rows[0]) : null;
+    },
+
+    async listJobs({ limit = 50 } = {}) {
+      const rows = check(await supabase.from('jobs').select(JOB_SUMMARY_COLUMNS).order('id', { ascending: false }).limit(limit));
+      return rows.map(toJob);
+    },
+
+    async listEmbeddingModels() {
+      const rows = check(await supabase.rpc('embedding_models'));
+      return rows.map((row) => ({ model: row.model, dimensions: row.dimensions, chunks: Number(row.chunks) }));
+    },
+
+    async saveShadowEmbeddings(model, rows) {
+      if (rows.length === 0) return;
+      check(await supabase
+        .from('document_embeddings')
+        .upsert(rows.map(({ id, embedding }) => ({ document_id: id, model, embedding }))));
+    },
+
+    async listShadowEmbeddingIds(model) {
+      const ids = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const page = check(await supabase
+          .from('document_embeddings')
+          .select('document_id')
+          .eq('model', model)
+          .order('document_id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1));
+        ids.push(...page.map((row) => row.document_id));
+        if (page.length < PAGE_SIZE) break;
+      }
+      return ids;
+    },
+
+    async shadowVectorSearch(model, embedding, { limit = 10, threshold = 0 } = {}) {
+      return check(await supabase.rpc('match_shadow_embeddings', {
+        query_embedding: embedding,
+        match_threshold: threshold,
+        match_count: limit,
+        embedding_model: model,
+      }));
+    },
+
+    async cutoverEmbeddings(model) {
+      const { data, error } = await supabase.rpc('cutover_embeddings', { embedding_model: model });
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteShadowEmbeddings(model) {
+      check(await supabase.from('document_embeddings').delete().eq('model', model));
+    },
+
+    // documents / facts 트리거가 올리는 값 (20261019030000_kb_version.sql)
+    async getVersion() {
+      const rows = check(await supabase.from('settings').select('value').eq('key', 'kb_version'));
+      return parseInt(rows[0]?.value, 10) || 0;
+    },
+
+    async getSettings(keys) {
+      const rows = check(await supabase.from('settings').select('key, value').in('key', keys));
+      return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+    },
+
+    async setSetting(key, value) {
+      check(await supabase.from('settings').upsert({ key, value }));
+    },
+
+    // supabase/migrations/20261019020000_prompt_versions.sql (version은 트리거가 매긴다)
+    async listPromptVersions(kind) {
+      const rows = check(await supabase
+        .from('prompt_versions')
+        .select('*')
+        .eq('kind', kind)
+        .order('version', { ascending: false }));
+      return rows.map(toPromptVersion);
+    },
+
+    async addPromptVersion({ kind, content, author, note }) {
+      const { data, error } = await supabase
+        .from('prompt_versions')
+        .insert({ kind, content, author, note })
+        .select()
+        .single();
+      if (error) throw error;
+      return toPromptVersion(data);
+    },
+  };
+}
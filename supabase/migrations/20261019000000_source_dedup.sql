@@ -0,0 +1,26 @@
+-- 소스 중복 감지 & 재수집(upsert by URL)
+-- documents.metadata 에 normalizedUrl / contentHash / version 이 추가로 저장된다.
+
+create index if not exists documents_source_id_idx on documents ((metadata->>'sourceId'));
+create index if not exists documents_normalized_url_idx on documents ((metadata->>'normalizedUrl'));
+create index if not exists documents_content_hash_idx on documents ((metadata->>'contentHash'));
+
+-- "교체" 재수집: 이전 소스의 청크 삭제와 새 청크 삽입을 한 트랜잭션으로 처리한다.
+-- new_rows: [{ "content": text, "embedding": number[], "metadata": {...} }, ...]
+create or replace function replace_source(old_source_ids text[], new_rows jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+  inserted_count integer;
+begin
+  delete from documents where metadata->>'sourceId' = any(old_source_ids);
+
+  insert into documents (content, embedding, metadata)
+  select row->>'content', (row->'embedding')::text::vector, row->'metadata'
+  from jsonb_array_elements(new_rows) as row;
+
+  get diagnostics inserted_count = row_count;
+  return inserted_count;
+end;
+$$;
@@ -0,0 +1,78 @@
+-- 키워드 검색 RPC (ilike OR 체인 대체)
+-- 검색어는 RPC 파라미터로 전달되므로 PostgREST 필터 문자열에 사용자 입력이 섞이지 않는다.
+-- 한국어 복합명사(호핑투어 → 호핑/핑투/투어)의 n-gram 분해는 utils/keywordSearch.js 에서 하고,
+-- 여기서는 term 별 가중치를 받아 BM25 방식으로 점수를 매긴다.
+
+create extension if not exists pg_trgm;
+
+-- 3글자 이상 term 의 ilike 를 trigram GIN 인덱스로 처리 (2글자 term 은 순차 스캔)
+create index if not exists documents_content_trgm_idx on documents using gin (content gin_trgm_ops);
+create index if not exists documents_title_trgm_idx on documents using gin ((metadata->>'title') gin_trgm_ops);
+
+-- LIKE 패턴 이스케이프 (\, %, _)
+create or replace function like_escape(term text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_');
+$$;
+
+-- BM25 (k1 = 1.2, b = 0.75) + 제목 매칭 보너스
+create or replace function keyword_search(
+  search_terms text[],
+  term_weights float8[] default null,
+  match_count int default 30
+)
+returns table (id bigint, content text, metadata jsonb, score float8)
+language sql
+stable
+as $$
+  with terms as (
+    select lower(t.term) as term, coalesce(term_weights[t.ord], 1.0) as weight
+    from unnest(search_terms) with ordinality as t(term, ord)
+    where length(trim(t.term)) > 0
+  ),
+  corpus as (
+    select count(*)::float8 as n, greatest(avg(length(d.content)), 1)::float8 as avgdl
+    from documents d
+  ),
+  matches as (
+    select
+      d.id,
+      terms.term,
+      terms.weight,
+      length(d.content)::float8 as dl,
+      (length(lower(d.content)) - length(replace(lower(d.content), terms.term, '')))::float8
+        / length(terms.term) as tf,
+      coalesce(d.metadata->>'title', '') ilike '%' || like_escape(terms.term) || '%' as in_title
+    from documents d
+    join terms
+      on d.content ilike '%' || like_escape(terms.term) || '%'
+      or coalesce(d.metadata->>'title', '') ilike '%' || like_escape(terms.term) || '%'
+  ),
+  df as (
+    select term, count(*)::float8 as df from matches group by term
+  ),
+  scored as (
+    select
+      m.id,
+      sum(
+        m.weight
+        * ln(1 + (c.n - df.df + 0.5) / (df.df + 0.5))
+        * (
+          (m.tf * (1.2 + 1)) / (m.tf + 1.2 * (1 - 0.75 + 0.75 * m.dl / c.avgdl))
+          + case when m.in_title then 1.0 else 0.0 end
+        )
+      ) as score
+    from matches m
+    join df using (term)
+    cross join corpus c
+    group by m.id
+  )
+  select d.id, d.content, d.metadata, s.score
+  from scored s
+  join documents d on d.id = s.id
+  order by s.score desc
+  limit match_count;
+$$;
@@ -0,0 +1,32 @@
+-- 시스템/강화 프롬프트 버전 기록
+-- 저장할 때마다 새 행이 추가되고, kind 별 가장 최근 버전이 챗봇에 적용된다.
+-- 롤백도 이전 내용을 복사한 새 버전으로 기록한다 (기록은 지우지 않는다).
+
+create table if not exists prompt_versions (
+  id bigserial primary key,
+  kind text not null check (kind in ('system', 'reinforcement')),
+  version integer not null,
+  content text not null,
+  author text not null default '',
+  note text not null default '',
+  created_at timestamptz not null default now(),
+  unique (kind, version)
+);
+
+-- kind 별 버전 번호를 1부터 매긴다
+create or replace function prompt_versions_next_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  select coalesce(max(version), 0) + 1 into new.version
+  from prompt_versions
+  where kind = new.kind;
+  return new;
+end;
+$$;
+
+drop trigger if exists prompt_versions_set_version on prompt_versions;
+create trigger prompt_versions_set_version
+  before insert on prompt_versions
+  for each row execute function prompt_versions_next_version();
@@ -0,0 +1,22 @@
+-- 지식 베이스 버전 카운터 (settings.kb_version)
+-- documents 가 바뀔 때마다 (서버 업로드, 브라우저 IngestionPanel, 삭제, 교체 모두) 1씩 올라간다.
+-- 서버의 답변 캐시는 이 값이 바뀌면 이전 답변을 버린다.
+
+create or replace function bump_kb_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into settings (key, value)
+  values ('kb_version', '1')
+  on conflict (key) do update
+    set value = ((coalesce(nullif(settings.value, ''), '0'))::bigint + 1)::text;
+  return null;
+end;
+$$;
+
+-- 문장 단위 트리거: 청크 수백 개를 한 번에 넣어도 한 번만 올라간다
+drop trigger if exists documents_bump_kb_version on documents;
+create trigger documents_bump_kb_version
+  after insert or update or delete on documents
+  for each statement execute function bump_kb_version();
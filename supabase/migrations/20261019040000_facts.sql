@@ -0,0 +1,50 @@
+-- 가격 사실 테이블 (utils/facts.js 가 수집 시 청크에서 추출)
+-- 채팅 파이프라인이 질문과 맞는 항목을 표로 만들어 문맥에 넣고, /api/facts 가 항목별 가격 이력을 돌려준다.
+-- 출처 청크는 (source_id, chunk_index) 로 가리키며, 청크가 지워지면 (삭제/교체) 그 청크의 사실도 지워진다.
+
+create table if not exists facts (
+  id bigserial primary key,
+  item text not null,
+  item_key text not null,
+  price numeric not null,
+  currency text not null,
+  price_text text not null default '',
+  observed_at date,
+  source_id text not null,
+  chunk_index int not null,
+  title text not null default '',
+  url text not null default '',
+  excerpt text not null default '',
+  created_at timestamptz not null default now()
+);
+
+-- item_key ilike '%호핑%' 검색용 (pg_trgm: 20261019010000_keyword_search.sql)
+create index if not exists facts_item_key_idx on facts using gin (item_key gin_trgm_ops);
+create index if not exists facts_source_idx on facts (source_id, chunk_index);
+create index if not exists facts_observed_at_idx on facts (observed_at desc);
+
+-- 지워진 청크의 사실 정리 (문장 단위 — 소스 교체로 청크 수백 개가 지워져도 한 번)
+create or replace function delete_chunk_facts()
+returns trigger
+language plpgsql
+as $$
+begin
+  delete from facts f
+  using removed r
+  where f.source_id = r.metadata->>'sourceId'
+    and f.chunk_index = (r.metadata->>'chunkIndex')::int;
+  return null;
+end;
+$$;
+
+drop trigger if exists documents_delete_facts on documents;
+create trigger documents_delete_facts
+  after delete on documents
+  referencing old table as removed
+  for each statement execute function delete_chunk_facts();
+
+-- 사실 표도 답변 문맥에 들어가므로 바뀌면 지식 베이스 버전을 올린다 (답변 캐시 무효화)
+drop trigger if exists facts_bump_kb_version on facts;
+create trigger facts_bump_kb_version
+  after insert or update or delete on facts
+  for each statement execute function bump_kb_version();
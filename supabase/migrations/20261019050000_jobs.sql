@@ -0,0 +1,23 @@
+-- 수집 작업 큐 (server/jobs.js)
+-- 업로드한 소스 하나 = 작업 하나. 서버 워커가 청크를 배치로 임베딩하며 chunks / progress 를 갱신하고,
+-- 서버가 재시작되면 queued / running 작업을 이어서 처리한다. 실패한 청크만 다시 시도할 수 있다.
+-- chunks: [{ chunkIndex, text, startTime, startSeconds, status, attempts, error, embedding }]
+--         (임베딩은 documents 에 저장될 때까지만 보관)
+
+create table if not exists jobs (
+  id bigserial primary key,
+  status text not null check (status in ('queued', 'running', 'completed', 'partial', 'failed')),
+  title text not null default '',
+  created_by text not null default '',
+  input jsonb not null,
+  plan jsonb not null,
+  chunks jsonb not null default '[]'::jsonb,
+  progress jsonb not null default '{}'::jsonb,
+  error text not null default '',
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists jobs_status_idx on jobs (status) where status in ('queued', 'running');
@@ -0,0 +1,96 @@
+-- 임베딩 모델 기록 & 모델 교체 (store/embeddings.js, npm run reembed)
+-- documents.metadata 에 embeddingModel / embeddingDimensions 가 저장된다. 벡터 검색은 질문을 임베딩한 모델의
+-- 청크만 비교하고 (match_documents_by_model), 새 모델 벡터는 cutover 전까지 document_embeddings 에 따로 둔다.
+
+-- 모델 이름을 기록하기 전 청크는 text-embedding-004 (services/gemini.ts 고정값이던 모델)
+update documents
+set metadata = metadata || jsonb_build_object('embeddingModel', 'text-embedding-004', 'embeddingDimensions', vector_dims(embedding))
+where not (metadata ? 'embeddingModel');
+
+create index if not exists documents_embedding_model_idx on documents ((metadata->>'embeddingModel'));
+
+create or replace function match_documents_by_model(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  embedding_model text
+)
+returns table (id bigint, content text, metadata jsonb, similarity float)
+language sql stable
+as $$
+  select d.id, d.content, d.metadata, 1 - (d.embedding <=> query_embedding) as similarity
+  from documents d
+  where d.metadata->>'embeddingModel' = embedding_model
+    and vector_dims(d.embedding) = vector_dims(query_embedding)
+    and 1 - (d.embedding <=> query_embedding) > match_threshold
+  order by d.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function embedding_models()
+returns table (model text, dimensions int, chunks bigint)
+language sql stable
+as $$
+  select metadata->>'embeddingModel', vector_dims(embedding), count(*)
+  from documents
+  group by 1, 2
+  order by 3 desc;
+$$;
+
+-- 새 모델 벡터 (차원이 모델마다 달라 열 타입은 차원 없는 vector — 비교용 전수 검색만 한다)
+create table if not exists document_embeddings (
+  document_id bigint not null references documents (id) on delete cascade,
+  model text not null,
+  embedding vector not null,
+  created_at timestamptz not null default now(),
+  primary key (model, document_id)
+);
+
+create or replace function match_shadow_embeddings(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  embedding_model text
+)
+returns table (id bigint, content text, metadata jsonb, similarity float)
+language sql stable
+as $$
+  select d.id, d.content, d.metadata, 1 - (s.embedding <=> query_embedding) as similarity
+  from document_embeddings s
+  join documents d on d.id = s.document_id
+  where s.model = embedding_model
+    and vector_dims(s.embedding) = vector_dims(query_embedding)
+    and 1 - (s.embedding <=> query_embedding) > match_threshold
+  order by s.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- 새 모델 벡터를 documents 로 옮긴다 (한 트랜잭션). 다른 모델 청크가 하나라도 빠져 있으면 아무것도 바꾸지 않는다.
+-- documents.embedding 열이 vector(768) 처럼 차원이 고정돼 있으면 차원이 다른 모델은 먼저 열 타입을 바꿔야 한다.
+create or replace function cutover_embeddings(embedding_model text)
+returns integer
+language plpgsql
+as $$
+declare
+  missing_count integer;
+  moved_count integer;
+begin
+  select count(*) into missing_count
+  from documents d
+  where d.metadata->>'embeddingModel' is distinct from embedding_model
+    and not exists (select 1 from document_embeddings s where s.document_id = d.id and s.model = embedding_model);
+  if missing_count > 0 then
+    raise exception '%개 청크에 % 벡터가 없습니다', missing_count, embedding_model;
+  end if;
+
+  update documents d
+  set embedding = s.embedding,
+      metadata = d.metadata || jsonb_build_object('embeddingModel', embedding_model, 'embeddingDimensions', vector_dims(s.embedding))
+  from document_embeddings s
+  where s.document_id = d.id and s.model = embedding_model;
+  get diagnostics moved_count = row_count;
+
+  delete from document_embeddings where model = embedding_model;
+  return moved_count;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- 소스 단위 수정 (PATCH /api/admin/sources/:sourceId, server/sources.js)
+-- 제목/URL/날짜/유형을 바꾸면 그 소스의 모든 청크 metadata 를 고치고, 임베딩 문맥(제목/날짜)이 바뀌면 벡터도 바꾼다.
+-- 한 소스의 청크를 한 트랜잭션으로 고쳐 일부만 바뀐 상태가 남지 않게 한다.
+-- updates: [{ "id": number, "metadata": {...}, "embedding": number[] | null }, ...]  (embedding 이 null 이면 벡터는 그대로)
+
+create or replace function update_chunks(updates jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+  updated_count integer;
+begin
+  update documents d
+  set metadata = u->'metadata',
+      embedding = case
+        when jsonb_typeof(u->'embedding') = 'array' then (u->'embedding')::text::vector
+        else d.embedding
+      end
+  from jsonb_array_elements(updates) as u
+  where d.id = (u->>'id')::bigint;
+
+  get diagnostics updated_count = row_count;
+  return updated_count;
+end;
+$$;
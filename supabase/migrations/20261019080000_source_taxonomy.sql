@@ -0,0 +1,101 @@
+-- 소스 분류 (utils/taxonomy.js) — documents.metadata 의 region / category / tags 로 키워드 검색을 좁힌다.
+-- source_filter 는 SourceFilter JSON: {"regions":["보홀"],"includeUntagged":true,"category":"투어","tags":["호핑"]}
+
+create index if not exists documents_region_idx on documents ((metadata->>'region'));
+create index if not exists documents_category_idx on documents ((metadata->>'category'));
+create index if not exists documents_tags_idx on documents using gin ((metadata->'tags'));
+
+-- utils/taxonomy.js matchesSourceFilter 와 같은 규칙
+create or replace function source_filter_match(metadata jsonb, source_filter jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(
+    source_filter is null
+    or (
+      (
+        jsonb_array_length(coalesce(source_filter->'regions', '[]'::jsonb)) = 0
+        or (
+          case
+            when nullif(metadata->>'region', '') is null then coalesce((source_filter->>'includeUntagged')::boolean, false)
+            else source_filter->'regions' ? (metadata->>'region')
+          end
+        )
+      )
+      and (nullif(source_filter->>'category', '') is null or metadata->>'category' = source_filter->>'category')
+      and (
+        jsonb_array_length(coalesce(source_filter->'tags', '[]'::jsonb)) = 0
+        or coalesce(metadata->'tags', '[]'::jsonb) @> source_filter->'tags'
+      )
+    ),
+    false
+  );
+$$;
+
+-- 20261019010000_keyword_search.sql 의 BM25 에 source_filter 를 더한다 (통계도 필터를 통과한 문서 기준)
+drop function if exists keyword_search(text[], float8[], int);
+
+create or replace function keyword_search(
+  search_terms text[],
+  term_weights float8[] default null,
+  match_count int default 30,
+  source_filter jsonb default null
+)
+returns table (id bigint, content text, metadata jsonb, score float8)
+language sql
+stable
+as $$
+  with terms as (
+    select lower(t.term) as term, coalesce(term_weights[t.ord], 1.0) as weight
+    from unnest(search_terms) with ordinality as t(term, ord)
+    where length(trim(t.term)) > 0
+  ),
+  docs as (
+    select d.id, d.content, d.metadata
+    from documents d
+    where source_filter_match(d.metadata, source_filter)
+  ),
+  corpus as (
+    select count(*)::float8 as n, greatest(avg(length(d.content)), 1)::float8 as avgdl
+    from docs d
+  ),
+  matches as (
+    select
+      d.id,
+      terms.term,
+      terms.weight,
+      length(d.content)::float8 as dl,
+      (length(lower(d.content)) - length(replace(lower(d.content), terms.term, '')))::float8
+        / length(terms.term) as tf,
+      coalesce(d.metadata->>'title', '') ilike '%' || like_escape(terms.term) || '%' as in_title
+    from docs d
+    join terms
+      on d.content ilike '%' || like_escape(terms.term) || '%'
+      or coalesce(d.metadata->>'title', '') ilike '%' || like_escape(terms.term) || '%'
+  ),
+  df as (
+    select term, count(*)::float8 as df from matches group by term
+  ),
+  scored as (
+    select
+      m.id,
+      sum(
+        m.weight
+        * ln(1 + (c.n - df.df + 0.5) / (df.df + 0.5))
+        * (
+          (m.tf * (1.2 + 1)) / (m.tf + 1.2 * (1 - 0.75 + 0.75 * m.dl / c.avgdl))
+          + case when m.in_title then 1.0 else 0.0 end
+        )
+      ) as score
+    from matches m
+    join df using (term)
+    cross join corpus c
+    group by m.id
+  )
+  select d.id, d.content, d.metadata, s.score
+  from scored s
+  join docs d on d.id = s.id
+  order by s.score desc
+  limit match_count;
+$$;
@@ -0,0 +1,33 @@
+-- 행 수준 보안 (RLS)
+-- 서버/스크립트는 service_role 키(SUPABASE_SERVICE_ROLE_KEY)로 접속해 RLS를 우회한다.
+-- 브라우저 번들에 들어가는 anon 키로는 documents 읽기와 검색 RPC만 쓸 수 있다
+-- (지식 베이스 삭제, 프롬프트 교체, 임베딩 cutover 는 /api/admin 의 역할 검사를 거쳐야만 가능).
+
+alter table documents enable row level security;
+alter table settings enable row level security;
+alter table prompt_versions enable row level security;
+alter table facts enable row level security;
+alter table jobs enable row level security;
+alter table document_embeddings enable row level security;
+
+-- 클라이언트 RAG(services/gemini.ts)와 지식 목록이 읽는 documents 만 anon 읽기 허용
+drop policy if exists documents_anon_read on documents;
+create policy documents_anon_read on documents for select to anon, authenticated using (true);
+
+-- 정책이 없어도 막히지만 테이블 쓰기 권한 자체도 뺀다
+revoke insert, update, delete, truncate on documents from anon, authenticated;
+revoke all on settings, prompt_versions, facts, jobs, document_embeddings from anon, authenticated;
+revoke all on all sequences in schema public from anon, authenticated;
+
+-- 함수는 기본으로 PUBLIC 에 execute 가 있어 anon 에서만 빼면 PUBLIC 으로 다시 받는다
+revoke execute on function replace_source(text[], jsonb) from public, anon, authenticated;
+revoke execute on function update_chunks(jsonb) from public, anon, authenticated;
+revoke execute on function cutover_embeddings(text) from public, anon, authenticated;
+revoke execute on function embedding_models() from public, anon, authenticated;
+revoke execute on function match_shadow_embeddings(vector, float, int, text) from public, anon, authenticated;
+
+grant execute on function replace_source(text[], jsonb) to service_role;
+grant execute on function update_chunks(jsonb) to service_role;
+grant execute on function cutover_embeddings(text) to service_role;
+grant execute on function embedding_models() to service_role;
+grant execute on function match_shadow_embeddings(vector, float, int, text) to service_role;
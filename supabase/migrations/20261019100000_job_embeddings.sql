@@ -0,0 +1,29 @@
+-- 수집 작업 임베딩 (server/jobs.js) — documents 에 저장하기 전까지 jobs.chunks 대신 여기에 둔다.
+-- 배치마다 새 임베딩만 upsert 하고 jobs 에는 진행률만 쓴다 (작업 행 전체를 임베딩과 함께 다시 쓰지 않도록).
+-- 차원이 모델마다 달라 열 타입은 차원 없는 vector (document_embeddings 와 같다)
+
+create table if not exists job_embeddings (
+  job_id bigint not null references jobs (id) on delete cascade,
+  chunk_index int not null,
+  embedding vector not null,
+  model text not null default '',
+  primary key (job_id, chunk_index)
+);
+
+-- 이미 jobs.chunks 에 들어 있는 임베딩을 옮기고 chunks 에서는 뺀다
+insert into job_embeddings (job_id, chunk_index, embedding, model)
+select j.id, (c->>'chunkIndex')::int, (c->>'embedding')::vector, coalesce(c->>'embeddingModel', '')
+from jobs j, jsonb_array_elements(j.chunks) c
+where jsonb_typeof(c->'embedding') = 'array'
+on conflict do nothing;
+
+update jobs j
+set chunks = (
+  select coalesce(jsonb_agg(c - 'embedding' order by t.ord), '[]'::jsonb)
+  from jsonb_array_elements(j.chunks) with ordinality as t(c, ord)
+)
+where exists (select 1 from jsonb_array_elements(j.chunks) c where c ? 'embedding');
+
+-- 20261019090000_row_level_security.sql 과 같이 서버(service_role)만 접근
+alter table job_embeddings enable row level security;
+revoke all on job_embeddings from anon, authenticated;
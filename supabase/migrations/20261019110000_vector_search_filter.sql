@@ -0,0 +1,24 @@
+-- 20261019060000_embedding_models.sql 의 벡터 검색에 source_filter 를 더한다
+-- (20261019080000_source_taxonomy.sql 의 keyword_search 와 같은 규칙 — 두 검색이 같은 문서 범위에서 찾도록)
+
+drop function if exists match_documents_by_model(vector, float, int, text);
+
+create or replace function match_documents_by_model(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  embedding_model text,
+  source_filter jsonb default null
+)
+returns table (id bigint, content text, metadata jsonb, similarity float)
+language sql stable
+as $$
+  select d.id, d.content, d.metadata, 1 - (d.embedding <=> query_embedding) as similarity
+  from documents d
+  where d.metadata->>'embeddingModel' = embedding_model
+    and vector_dims(d.embedding) = vector_dims(query_embedding)
+    and 1 - (d.embedding <=> query_embedding) > match_threshold
+    and source_filter_match(d.metadata, source_filter)
+  order by d.embedding <=> query_embedding
+  limit match_count;
+$$;
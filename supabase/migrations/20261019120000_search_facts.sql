@@ -0,0 +1,38 @@
+-- 가격 사실 검색 (store/supabase.js searchFacts) — 20261019040000_facts.sql 의 facts 를 출처 청크의 분류로 거른다.
+-- 채팅 파이프라인이 질문의 검색 필터를 넘겨, 보홀 질문에 세부 가격 표가 붙지 않도록 한다.
+-- source_filter 규칙은 20261019080000_source_taxonomy.sql 의 source_filter_match (null 이면 거르지 않음)
+
+create or replace function search_facts(
+  search_terms text[] default '{}',
+  fact_currency text default null,
+  match_count int default 50,
+  source_filter jsonb default null
+)
+returns setof facts
+language sql
+stable
+as $$
+  select f.*
+  from facts f
+  where (
+      coalesce(array_length(search_terms, 1), 0) = 0
+      or exists (select 1 from unnest(search_terms) t(term) where f.item_key ilike '%' || like_escape(t.term) || '%')
+    )
+    and (fact_currency is null or f.currency = fact_currency)
+    and (
+      source_filter is null
+      or exists (
+        select 1
+        from documents d
+        where d.metadata->>'sourceId' = f.source_id
+          and (d.metadata->>'chunkIndex')::int = f.chunk_index
+          and source_filter_match(d.metadata, source_filter)
+      )
+    )
+  order by f.observed_at desc nulls last
+  limit match_count;
+$$;
+
+-- facts 와 같이 서버(service_role)만 (20261019090000_row_level_security.sql)
+revoke execute on function search_facts(text[], text, int, jsonb) from public, anon, authenticated;
+grant execute on function search_facts(text[], text, int, jsonb) to service_role;
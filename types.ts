@@ -9,6 +9,8 @@ export interface ContentChunk {
   text: string;
   parentId: string;
   startTime?: string; // For YouTube (e.g., "02:30")
+  startSeconds?: number; // startTime in seconds, used for ?t= deep links
+  section?: string; // 제목 경로 (예: "세부 > 호핑투어 > 가격"), markdownChunking
   embedding?: number[];
 }
 
@@ -18,6 +20,9 @@ export interface KnowledgeSource {
   title: string;
   url: string;
   date: string; // ISO Date string
+  region?: string; // utils/taxonomy REGIONS id
+  category?: string; // utils/taxonomy CATEGORIES id
+  tags?: string[];
   originalContent: string;
   chunks: ContentChunk[];
   processed: boolean;
@@ -25,16 +30,52 @@ export interface KnowledgeSource {
 
 // RAG 검색 정확도 진단을 위한 타입
 export interface DebugSnippet {
-  score: number;       // 유사도 점수 (0~1)
+  score: number;       // 최종 랭킹 점수 (RRF/재순위/최신성 반영)
   text: string;        // 매칭된 텍스트 조각
   sourceTitle: string; // 출처 제목
+  // 단계별 점수 (해당 검색기에 걸리지 않았으면 undefined)
+  vectorRank?: number;
+  vectorScore?: number;   // 코사인 유사도
+  keywordRank?: number;
+  keywordScore?: number;  // BM25 (결과 내 최고점 = 1)
+  fusedScore?: number;    // RRF 합산 점수
+  rerankScore?: number;   // LLM 재순위 점수 (0~1)
+  recency?: number;       // 최신성 계수 (0~1)
+}
+
+// 서버 /api/modes 가 돌려주는 검색 전략 정보
+export interface SearchModeInfo {
+  id: string;          // /api/chat 의 searchMode 값
+  label: string;
+  description: string;
 }
 
 export interface CitationSource {
   title: string;
-  url: string;
+  url: string; // YouTube 청크는 정확한 타임스탬프 링크 (youtu.be/ID?t=N)
   date: string;
   type?: string;
+  startTime?: string;
+  index?: number;       // 답변의 [[index]] 번호
+  passages?: string[];  // 인용된 근거 구절 (hover 미리보기)
+}
+
+// 답변 근거 검증 결과 (utils/grounding.js GroundingReport)
+export interface GroundingClaim {
+  id: number;
+  text: string;
+  kind: 'price' | 'time' | 'number' | 'text';
+  status: 'supported' | 'partial' | 'unsupported' | 'unverifiable';
+  numbers: string[];
+  unsupportedNumbers: string[];
+}
+
+export interface GroundingReport {
+  method: 'lexical' | 'llm';
+  claims: GroundingClaim[];
+  supportRatio: number | null;
+  unsupportedNumbers: string[];  // 답변에서 강조할 숫자 표기
+  action?: 'disclaimer' | 'regenerated' | null;
 }
 
 export interface ChatMessage {
@@ -44,10 +85,18 @@ export interface ChatMessage {
   sources?: CitationSource[];
   webSources?: { title: string; url: string }[]; 
   
+  grounding?: GroundingReport | null;
+
   // 진단 데이터
   debugSnippets?: DebugSnippet[]; 
 }
 
+// 서버로 보내는 멀티턴 대화 기록 한 턴
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
 export interface AppState {
   apiKey: string;
   sources: KnowledgeSource[];
@@ -0,0 +1,133 @@
+// 답변 출처 검증 — 생성된 답변의 [[n]] 표시와 마크다운 링크를 실제 검색 결과와 맞춰본다.
+// server/generation.js 와 클라이언트 RAG 모드(GeminiService)가 함께 사용한다.
+
+import { normalizeUrl } from './dedup.js';
+
+/**
+ * @typedef {Object} CitationCandidate   프롬프트에 n번으로 넣은 문서 (n = 배열 위치 + 1)
+ * @property {string} url
+ * @property {string} title
+ * @property {string} [date]
+ * @property {string} [type]
+ * @property {string} [startTime]
+ * @property {string} text               모델에게 보여준 본문 (근거 구절)
+ */
+
+/**
+ * @typedef {Object} CitedSource
+ * @property {number} index              검증 후 답변의 [[index]] 번호 (1부터)
+ * @property {string} url
+ * @property {string} title
+ * @property {string} date
+ * @property {string} [type]
+ * @property {string} [startTime]
+ * @property {string[]} passages         이 출처에서 인용된 구절 (문서 n 본문)
+ */
+
+/**
+ * @typedef {Object} CitationReport
+ * @property {number[]} cited            답변이 인용한 원래 문서 번호
+ * @property {number[]} invalidMarkers   존재하지 않는 문서 번호 (답변에서 제거됨)
+ * @property {string[]} removedLinks     검색 결과에 없는 URL (링크를 풀고 글자만 남김)
+ */
+
+// 툴팁에 보여줄 근거 구절 최대 길이
+const MAX_PASSAGE_LENGTH = 600;
+
+// [[n]] 표시 (뒤에 (url)이 붙지 않은 것) 또는 [텍스트](url) — 텍스트 안에 [1] 같은 대괄호 한 단계까지 허용
+const CITATION = /\[\[(\d+)\]\](?!\()|\[((?:\[[^\]]*\]|[^[\]])*)\]\((\S+?)\)/g;
+const LINK_CITATION_TEXT = /^\[?(\d+)\]?$/;
+
+const passageOf = (text) =>
+  text.length > MAX_PASSAGE_LENGTH ? `${text.slice(0, MAX_PASSAGE_LENGTH)}…` : text;
+
+/**
+ * Checks the [[n]] markers and markdown links of a generated answer against the
+ * documents the model was shown.
+ *
+ * - [[n]] is renumbered to the position of its source in the returned list
+ *   (documents from the same URL share one number); unknown n is removed
+ * - a link to a document's URL cites that document; links to URLs outside the
+ *   candidates and allowedUrls lose their link (the text stays);
+ *   [[n]](url) style links become plain markers
+ * - only sources that were actually cited are returned, each with its passages
+ *   (citeAll: every candidate, in order — for grounding the provider already attributed)
+ *
+ * @param {string} answer
+ * @param {CitationCandidate[]} candidates
+ * @param {{ allowedUrls?: string[], citeAll?: boolean }} [options]
+ *        allowedUrls: 웹 검색 grounding 처럼 인용해도 되는 다른 URL
+ * @returns {{ answer: string, sources: CitedSource[], citations: CitationReport }}
+ */
+export function verifyCitations(answer, candidates, { allowedUrls = [], citeAll = false } = {}) {
+  const known = new Set(allowedUrls.map(normalizeUrl).filter(Boolean));
+  /** @type {CitationReport} */
+  const citations = { cited: [], invalidMarkers: [], removedLinks: [] };
+  const validNumber = (n) => n >= 1 && n <= candidates.length;
+
+  /** @type {CitedSource[]} */
+  const sources = [];
+  const sourceByUrl = new Map();
+  // 같은 URL의 문서는 한 출처로 묶는다 (YouTube는 타임스탬프 링크가 달라 구간별로 따로)
+  const sourceOf = (n) => {
+    const candidate = candidates[n - 1];
+    const key = candidate.url || `#${n}`;
+    if (!sourceByUrl.has(key)) {
+      const source = {
+        index: sources.length + 1,
+        url: candidate.url,
+        title: candidate.title,
+        date: candidate.date || '',
+        type: candidate.type,
+        startTime: candidate.startTime,
+        passages: [],
+      };
+      sources.push(source);
+      sourceByUrl.set(key, source);
+    }
+    return sourceByUrl.get(key);
+  };
+  // 문서 n 인용 → 출처 목록 번호 (처음 인용된 순서대로 1, 2, ...)
+  const cite = (n) => {
+    if (!citations.cited.includes(n)) citations.cited.push(n);
+    const source = sourceOf(n);
+    const passage = passageOf(candidates[n - 1].text || '');
+    if (passage && !source.passages.includes(passage)) source.passages.push(passage);
+    return source.index;
+  };
+  if (citeAll) {
+    candidates.forEach((_, i) => cite(i + 1));
+    citations.cited = []; // 보고서에는 답변이 실제로 인용한 번호만
+  }
+
+  // 링크 URL과 같은 문서들 (정확히 같은 링크가 우선, 없으면 정규화해서 같은 글/영상)
+  const documentsLinkedBy = (url) => {
+    const numbers = (match) => candidates.map((candidate, i) => (match(candidate) ? i + 1 : 0)).filter(Boolean);
+    const exact = numbers((candidate) => candidate.url === url);
+    return exact.length > 0 ? exact : numbers((candidate) => normalizeUrl(candidate.url) === normalizeUrl(url));
+  };
+
+  const verified = (answer || '').replace(CITATION, (whole, marker, text, url) => {
+    if (marker) {
+      const n = parseInt(marker, 10);
+      if (validNumber(n)) return `[[${cite(n)}]]`;
+      if (!citations.invalidMarkers.includes(n)) citations.invalidMarkers.push(n);
+      return '';
+    }
+
+    // [[n]](url) / [n](url) 처럼 번호가 글자인 링크는 출처 표시로
+    const number = text.trim().match(LINK_CITATION_TEXT);
+    if (number && validNumber(parseInt(number[1], 10))) return `[[${cite(parseInt(number[1], 10))}]]`;
+
+    const linked = normalizeUrl(url) ? documentsLinkedBy(url) : [];
+    if (linked.length > 0) {
+      linked.forEach(cite);
+      return whole;
+    }
+    if (known.has(normalizeUrl(url))) return whole;
+    citations.removedLinks.push(url);
+    return text;
+  });
+
+  return { answer: verified, sources, citations };
+}
@@ -0,0 +1,106 @@
+// 멀티턴 대화 헬퍼 — textProcessing.js처럼 클라이언트와 server.js가 함께 사용한다.
+
+/** @typedef {import('../types').ConversationTurn} ConversationTurn */
+
+// 최종 생성에 함께 보낼 대화 기록의 토큰 예산
+export const HISTORY_TOKEN_BUDGET = 2000;
+
+// 응축 프롬프트에 넣을 때 이전 답변은 앞부분만 사용
+const CONDENSE_TURN_CHARS = 500;
+
+/**
+ * Rough token estimate. Korean text is ~1 token per 1-2 characters,
+ * so chars / 2 errs on the side of keeping less history.
+ *
+ * @param {string} text
+ * @returns {number}
+ */
+export const estimateTokens = (text) => Math.ceil(text.length / 2);
+
+// 예산이 이보다 적게 남으면 더 이전 턴은 잘라서라도 넣지 않는다
+const MIN_TURN_TOKENS = 50;
+
+// 남은 예산에 맞게 앞부분만 남긴다 (응축 프롬프트의 CONDENSE_TURN_CHARS 처럼 주제는 대개 앞에 있다)
+const fitTurn = (turn, tokens) => ({
+  role: turn.role,
+  text: estimateTokens(turn.text) <= tokens ? turn.text : `${turn.text.substring(0, Math.max(0, tokens * 2 - 1))}…`,
+});
+
+/**
+ * Keeps the most recent turns that fit in the token budget. The last user/model pair
+ * is always kept (cut down to the budget if needed) so a follow-up never loses the
+ * answer it refers to; an older turn that does not fit is cut to the remaining budget.
+ * The result always starts with a user turn (Gemini rejects model-first contents).
+ *
+ * @param {ConversationTurn[] | undefined} history
+ * @param {number} [budget]
+ * @returns {ConversationTurn[]}
+ */
+export const trimHistory = (history, budget = HISTORY_TOKEN_BUDGET) => {
+  const turns = (history || []).filter(
+    (turn) => (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string' && turn.text.trim()
+  );
+  const lastUser = turns.map((turn) => turn.role).lastIndexOf('user');
+  if (lastUser === -1) return [];
+
+  // 마지막 질문/답변 쌍: 질문을 먼저 넣고 남은 예산으로 답변을 자른다
+  const question = fitTurn(turns[lastUser], budget);
+  let used = estimateTokens(question.text);
+  /** @type {ConversationTurn[]} */
+  const kept = [question];
+  const answer = turns[lastUser + 1];
+  if (answer && budget - used > 0) {
+    kept.push(fitTurn(answer, budget - used));
+    used += estimateTokens(kept[1].text);
+  }
+
+  for (let i = lastUser - 1; i >= 0; i--) {
+    const remaining = budget - used;
+    const cost = estimateTokens(turns[i].text);
+    if (cost > remaining && remaining < MIN_TURN_TOKENS) break;
+    kept.unshift(fitTurn(turns[i], remaining));
+    used += Math.min(cost, remaining);
+  }
+
+  while (kept.length > 0 && kept[0].role !== 'user') kept.shift();
+  return kept;
+};
+
+/**
+ * Prompt that rewrites a follow-up ("그럼 가격은?") into a standalone search query.
+ *
+ * @param {string} query
+ * @param {ConversationTurn[]} history
+ * @returns {string}
+ */
+export const buildCondensePrompt = (query, history) => {
+  const transcript = history
+    .map((turn) => `${turn.role === 'user' ? '사용자' : 'AI'}: ${turn.text.substring(0, CONDENSE_TURN_CHARS)}`)
+    .join('\n');
+
+  return `다음은 사용자와 여행 가이드 AI의 대화입니다.
+마지막 후속 질문을 대화 맥락 없이도 이해할 수 있는 독립적인 검색 질문 한 문장으로 다시 쓰세요.
+- 생략되거나 대명사로 가리킨 대상(지역, 투어 이름, 숙소 등)을 대화에서 찾아 채워 넣으세요.
+- 이미 독립적인 질문이면 그대로 출력하세요.
+- 질문 한 줄만 출력하고 다른 설명은 붙이지 마세요.
+
+[대화]
+${transcript}
+
+[후속 질문]
+${query}
+
+[독립 질문]`;
+};
+
+/**
+ * Cleans up the model's rewrite; falls back to the original query when empty.
+ *
+ * @param {string} rewritten
+ * @param {string} query
+ * @returns {string}
+ */
+export const parseCondensedQuery = (rewritten, query) => {
+  const line = (rewritten || '').trim().split('\n')[0].replace(/^["'\s]+|["'\s]+$/g, '');
+  return line || query;
+};
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HISTORY_TOKEN_BUDGET, estimateTokens, trimHistory } from './conversation.js';
+
+const totalTokens = (turns) => turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+
+test('trimHistory keeps short conversations as they are and drops leading model turns', () => {
+  const history = [
+    { role: 'model', text: '안녕하세요 형님! 무엇이 궁금하세요?' },
+    { role: 'user', text: '보홀 호핑투어 어때?' },
+    { role: 'model', text: '발리카삭 거북이랑 버진 아일랜드를 하루에 돌아요.' },
+  ];
+
+  assert.deepEqual(trimHistory(history), history.slice(1));
+  assert.deepEqual(trimHistory([{ role: 'model', text: '안녕하세요 형님!' }]), []);
+  assert.deepEqual(trimHistory(undefined), []);
+});
+
+test('trimHistory cuts an answer over the budget instead of dropping the history', () => {
+  const question = { role: 'user', text: '보홀 호핑투어 어때?' };
+  const answer = { role: 'model', text: '보홀 호핑투어 후기 '.repeat(100) + '가'.repeat(4100) };
+
+  const trimmed = trimHistory([question, answer]);
+
+  assert.equal(trimmed.length, 2);
+  assert.deepEqual(trimmed[0], question);
+  assert.equal(trimmed[1].role, 'model');
+  assert.ok(trimmed[1].text.startsWith('보홀 호핑투어 후기'), 'the start of the answer is kept');
+  assert.ok(trimmed[1].text.endsWith('…'));
+  assert.ok(totalTokens(trimmed) <= HISTORY_TOKEN_BUDGET);
+});
+
+test('trimHistory always keeps the last user/model pair and fills the rest of the budget with older turns', () => {
+  const history = [
+    { role: 'user', text: '세부 날씨 어때?' },
+    { role: 'model', text: '건기라 맑아요. '.repeat(300) },
+    { role: 'user', text: '보홀은?' },
+    { role: 'model', text: '보홀도 맑아요. '.repeat(100) },
+  ];
+
+  const trimmed = trimHistory(history, 600);
+
+  assert.deepEqual(trimmed.slice(-2), history.slice(-2));
+  assert.equal(trimmed[0].role, 'user', 'starts with a user turn');
+  assert.ok(totalTokens(trimmed) <= 600);
+
+  // 예산이 마지막 쌍보다 작아도 쌍은 남는다 (답변을 잘라서)
+  const tight = trimHistory(history, 100);
+  assert.deepEqual(tight.map((turn) => turn.role), ['user', 'model']);
+  assert.equal(tight[0].text, '보홀은?');
+  assert.ok(totalTokens(tight) <= 100);
+});
@@ -0,0 +1,195 @@
+// 소스 중복 감지 헬퍼 — 클라이언트(IngestionPanel/KnowledgeList)와 server.js가 함께 사용한다.
+
+import { extractYouTubeId } from './youtube.js';
+
+/**
+ * @typedef {Object} ExistingSource
+ * @property {string} sourceId
+ * @property {string} title
+ * @property {string} url
+ * @property {string} date
+ * @property {number} version
+ * @property {number} chunkCount
+ * @property {('url' | 'hash')[]} matchedBy
+ */
+
+// 공유 링크에 붙는 추적용 파라미터 (YouTube si/feature 포함)
+const TRACKING_PARAM = /^(utm_.+|fbclid|gclid|si|feature|from|trackingCode)$/i;
+
+/**
+ * Canonical form used to recognise the same post/video behind different links:
+ * youtu.be / watch?v= / shorts -> https://youtu.be/ID, m.blog.naver.com and
+ * PostView.naver?blogId=&logNo= -> https://blog.naver.com/ID/NO, tracking params,
+ * hash and trailing slash dropped.
+ *
+ * @param {string} url
+ * @returns {string}
+ */
+export const normalizeUrl = (url) => {
+  const trimmed = (url || '').trim();
+  if (!trimmed) return '';
+
+  const youtubeId = extractYouTubeId(trimmed);
+  if (youtubeId) return `https://youtu.be/${youtubeId}`;
+
+  let parsed;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed.toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+  if (host === 'blog.naver.com') {
+    const blogId = parsed.searchParams.get('blogId');
+    const logNo = parsed.searchParams.get('logNo');
+    if (blogId && logNo) return `https://blog.naver.com/${blogId}/${logNo}`;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAM.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+
+  return `https://${host}${path}${query}`;
+};
+
+/**
+ * SHA-256 of the whitespace-normalised text (Web Crypto: browser and Node 18+).
+ *
+ * @param {string} text
+ * @returns {Promise<string>}
+ */
+export const contentHash = async (text) => {
+  const normalized = (text || '').replace(/\s+/g, ' ').trim();
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Looks up stored sources with the same normalised URL (or, for rows saved before
+ * normalizedUrl existed, the same raw URL) or the same content hash.
+ *
+ * @param {import('../store/index.js').KnowledgeStore} store
+ * @param {{ url: string, normalizedUrl: string, contentHash: string }} identity
+ * @returns {Promise<ExistingSource[]>}
+ */
+export const findExistingSources = async (store, { url, normalizedUrl, contentHash }) => {
+  /** @type {[string, 'url' | 'normalizedUrl' | 'contentHash', string][]} */
+  const lookups = [['hash', 'contentHash', contentHash]];
+  if (normalizedUrl) {
+    lookups.push(['url', 'normalizedUrl', normalizedUrl], ['url', 'url', url]);
+  }
+
+  const results = await Promise.all(
+    lookups.map(async ([matchedBy, key, value]) => {
+      const rows = await store.findChunksByMetadata(key, value);
+      return rows.map((row) => ({ matchedBy, metadata: row.metadata || {} }));
+    })
+  );
+
+  /** @type {Map<string, ExistingSource & { chunkIndexes: Set<number> }>} */
+  const sources = new Map();
+  results.flat().forEach(({ matchedBy, metadata }) => {
+    if (!metadata.sourceId) return;
+    const source = sources.get(metadata.sourceId) || {
+      sourceId: metadata.sourceId,
+      title: metadata.title || '',
+      url: metadata.url || '',
+      date: metadata.date || '',
+      version: metadata.version || 1,
+      chunkCount: 0,
+      matchedBy: [],
+      chunkIndexes: new Set(),
+    };
+    source.chunkIndexes.add(metadata.chunkIndex);
+    source.chunkCount = source.chunkIndexes.size;
+    if (!source.matchedBy.includes(matchedBy)) source.matchedBy.push(matchedBy);
+    sources.set(metadata.sourceId, source);
+  });
+
+  return [...sources.values()].map(({ chunkIndexes, ...source }) => source);
+};
+
+// ===========================
+// Near-duplicate chunk report (MinHash + LSH)
+// ===========================
+
+const SHINGLE_SIZE = 5;
+const NUM_HASHES = 64;
+const BAND_ROWS = 4; // 16 bands x 4 rows -> catches pairs above ~0.7 Jaccard reliably
+
+// 32-bit FNV-1a
+const fnv1a = (text) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic per-permutation seeds
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fnv1a(`seed-${i}`) | 1);
+
+const minHashSignature = (text) => {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const signature = new Array(NUM_HASHES).fill(0xffffffff);
+  for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+    const base = fnv1a(normalized.substring(i, i + SHINGLE_SIZE));
+    for (let h = 0; h < NUM_HASHES; h++) {
+      let x = Math.imul(base ^ HASH_SEEDS[h], 0x9e3779b1);
+      x ^= x >>> 15;
+      x = x >>> 0;
+      if (x < signature[h]) signature[h] = x;
+    }
+  }
+  return signature;
+};
+
+/**
+ * Finds near-identical chunks that belong to different sources.
+ * Similarity is the MinHash estimate of character 5-gram Jaccard similarity.
+ *
+ * @param {{ id: number, content: string, metadata: any }[]} chunks
+ * @param {number} [threshold]
+ * @returns {{ a: any, b: any, similarity: number }[]} sorted by similarity, highest first
+ */
+export const findNearDuplicateChunks = (chunks, threshold = 0.85) => {
+  const candidates = chunks.filter((chunk) => (chunk.content || '').length >= SHINGLE_SIZE);
+  const signatures = candidates.map((chunk) => minHashSignature(chunk.content));
+
+  const buckets = new Map();
+  signatures.forEach((signature, index) => {
+    for (let band = 0; band < NUM_HASHES / BAND_ROWS; band++) {
+      const key = `${band}:${signature.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS).join(',')}`;
+      const bucket = buckets.get(key) || [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const seenPairs = new Set();
+  const pairs = [];
+  buckets.forEach((bucket) => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [x, y] = [bucket[i], bucket[j]];
+        const pairKey = `${x}:${y}`;
+        if (seenPairs.has(pairKey)) continue;
+        seenPairs.add(pairKey);
+
+        const a = candidates[x];
+        const b = candidates[y];
+        if (a.metadata?.sourceId === b.metadata?.sourceId) continue;
+
+        const same = signatures[x].filter((value, h) => value === signatures[y][h]).length;
+        const similarity = same / NUM_HASHES;
+        if (similarity >= threshold) pairs.push({ a, b, similarity });
+      }
+    }
+  });
+
+  return pairs.sort((p, q) => q.similarity - p.similarity);
+};
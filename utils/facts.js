@@ -0,0 +1,197 @@
+// 가격 사실 추출 — 청크 문장에서 (항목, 가격, 통화)를 뽑아 facts 테이블에 저장하고,
+// 질문과 맞는 사실을 작은 표로 만들어 답변 문맥에 넣는다. server/facts.js 와 IngestionPanel(services/ingestion.ts)이 함께 사용한다.
+
+/**
+ * @typedef {Object} PriceFact
+ * @property {string} item          가격 앞의 단어들 (예: "호핑투어", "막탄 공항 택시")
+ * @property {string} itemKey       검색용 소문자 키
+ * @property {number} price         통화 기본 단위 금액 (5만원 → 50000)
+ * @property {string} currency      KRW | PHP | USD | JPY | THB
+ * @property {string} priceText     문서에 적힌 표기 그대로
+ * @property {string} observedAt    문서 날짜 (없으면 수집한 날) YYYY-MM-DD
+ * @property {string} sourceId
+ * @property {number} chunkIndex
+ * @property {string} title
+ * @property {string} url
+ * @property {string} excerpt       가격이 나온 문장
+ */
+
+/**
+ * @typedef {Object} PriceHistory
+ * @property {string} item
+ * @property {string} itemKey
+ * @property {string} currency
+ * @property {PriceFact[]} points   날짜 오름차순
+ * @property {PriceFact} latest
+ */
+
+// ₱1,500 / $20 / 1,500페소 / 5만원 / 2000 PHP
+const PRICE_FACT = /([₩₱$])\s?(\d[\d,]*(?:\.\d+)?)|(\d[\d,]*(?:\.\d+)?)\s?(만\s?원|천\s?원|원|페소|달러|엔|바트|PHP|USD|KRW|JPY|THB)(?![A-Za-z])/gi;
+
+const CURRENCIES = {
+  '₩': 'KRW', 원: 'KRW', krw: 'KRW',
+  '₱': 'PHP', 페소: 'PHP', php: 'PHP',
+  $: 'USD', 달러: 'USD', usd: 'USD',
+  엔: 'JPY', jpy: 'JPY',
+  바트: 'THB', thb: 'THB',
+};
+const UNIT_MULTIPLIER = { 만: 10000, 천: 1000 };
+
+// 항목 이름에서 뺄 단어 (가격 문장에 흔한 말)
+const JOSA_SUFFIX = /(에서|으로|까지|부터|은|는|이|가|을|를|의|에|로|와|과|도|만|요)$/;
+const STOPWORDS = new Set([
+  '가격', '요금', '비용', '금액', '정도', '기준', '현재', '이상', '이하', '포함', '별도', '인당', '1인', '1인당',
+  '약', '총', '대략', '보통', '올해', '작년', '요즘', '지금', '당시', '입니다', '있습니다', '했습니다', '였어요', '이었어요', '나왔어요', '냈어요', '주고', '내고',
+]);
+// "환전은 했고 커피 $4" 의 '했고' 처럼 앞 절을 잇는 서술어
+const CONNECTIVE = /(했|었|았|였|하|해)(고|서|며|는데|지만)$/;
+const MAX_ITEM_WORDS = 3;
+const MAX_EXCERPT_LENGTH = 200;
+
+const parseAmount = (digits) => parseFloat(digits.replace(/,/g, ''));
+
+const itemOf = (before) => {
+  const words = before
+    .split(/[^0-9A-Za-z가-힣]+/)
+    .map((word) => (word.length > 2 ? word.replace(JOSA_SUFFIX, '') : word))
+    .filter((word) => word.length >= 2 && !/^\d/.test(word) && !STOPWORDS.has(word) && !CONNECTIVE.test(word));
+  return words.slice(-MAX_ITEM_WORDS).join(' ');
+};
+
+/**
+ * Observation date of a document as YYYY-MM-DD ("2024.05.01" works too), or the fallback.
+ *
+ * @param {string} date
+ * @param {string} fallback
+ * @returns {string}
+ */
+export const observedDate = (date, fallback) => {
+  const match = (date || '').match(/(\d{4})\D{1,3}(\d{1,2})\D{1,3}(\d{1,2})/);
+  return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : fallback;
+};
+
+export const factItemKey = (item) => (item || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Pulls price facts out of a chunk: every price in a sentence becomes one fact whose
+ * item is the last few words before it (after the previous price in the same sentence),
+ * so "호핑투어 1,500페소, 입장료는 200페소" yields 호핑투어 and 입장료.
+ *
+ * @param {string} text
+ * @param {{ sourceId: string, chunkIndex: number, title?: string, url?: string, observedAt: string }} origin
+ * @returns {PriceFact[]}
+ */
+export function extractPriceFacts(text, origin) {
+  const facts = [];
+  (text || '').split(/(?<=[.!?])\s+|\n+/).forEach((sentence) => {
+    let previousEnd = 0;
+    for (const match of sentence.matchAll(PRICE_FACT)) {
+      const [priceText, symbol, symbolDigits, digits, unit] = match;
+      const before = sentence.slice(previousEnd, match.index);
+      previousEnd = match.index + priceText.length;
+
+      const item = itemOf(before);
+      const compactUnit = (unit || '').replace(/\s/g, '');
+      const currency = symbol ? CURRENCIES[symbol] : CURRENCIES[compactUnit.endsWith('원') ? '원' : compactUnit.toLowerCase()];
+      const amount = parseAmount(symbolDigits || digits) * (UNIT_MULTIPLIER[compactUnit[0]] || 1);
+      if (!item || !currency || !(amount > 0)) continue;
+
+      const excerpt = sentence.trim();
+      facts.push({
+        item,
+        itemKey: factItemKey(item),
+        price: amount,
+        currency,
+        priceText: priceText.trim(),
+        observedAt: origin.observedAt,
+        sourceId: origin.sourceId,
+        chunkIndex: origin.chunkIndex,
+        title: origin.title || '',
+        url: origin.url || '',
+        excerpt: excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}…` : excerpt,
+      });
+    }
+  });
+  return facts;
+}
+
+/**
+ * Facts of stored chunks (ChunkRow / StoredChunk), dated by each chunk's document date
+ * or, when it has none, today.
+ *
+ * @param {{ content: string, metadata?: Object }[]} chunks
+ * @returns {PriceFact[]}
+ */
+export function factsFromChunks(chunks) {
+  const today = new Date().toISOString().slice(0, 10);
+  return chunks.flatMap(({ content, metadata = {} }) =>
+    extractPriceFacts(content, {
+      sourceId: metadata.sourceId,
+      chunkIndex: metadata.chunkIndex ?? 0,
+      title: metadata.title,
+      url: metadata.url,
+      observedAt: observedDate(metadata.date, today),
+    })
+  );
+}
+
+// "세부 호핑투어"는 "호핑투어"와 같은 항목 — 짧은 키가 긴 키의 끝 단어들이면 같은 항목으로 본다
+const isSuffixOf = (shorter, longer) => {
+  const short = shorter.split(' ');
+  const long = longer.split(' ');
+  return short.length <= long.length && short.every((word, i) => word === long[long.length - short.length + i]);
+};
+
+/**
+ * Groups facts by item and currency into price histories (oldest point first),
+ * most recently observed item first. An item whose key ends with another item's
+ * key joins that item's history and takes its (shorter) name.
+ *
+ * @param {PriceFact[]} facts
+ * @returns {PriceHistory[]}
+ */
+export function priceHistory(facts) {
+  const groups = [];
+  [...facts]
+    .sort((a, b) => a.itemKey.split(' ').length - b.itemKey.split(' ').length)
+    .forEach((fact) => {
+      const group = groups.find((entry) => entry.currency === fact.currency && isSuffixOf(entry.itemKey, fact.itemKey));
+      if (group) group.points.push(fact);
+      else groups.push({ item: fact.item, itemKey: fact.itemKey, currency: fact.currency, points: [fact] });
+    });
+
+  return groups
+    .map((group) => {
+      const points = [...group.points].sort((a, b) => (a.observedAt || '').localeCompare(b.observedAt || ''));
+      return { ...group, points, latest: points[points.length - 1] };
+    })
+    .sort((a, b) => (b.latest.observedAt || '').localeCompare(a.latest.observedAt || ''));
+}
+
+const formatPrice = (fact) => `${fact.price.toLocaleString('en-US')} ${fact.currency}`;
+
+/**
+ * Compact markdown table for the prompt: one row per item and currency with the latest
+ * price and, when it changed, the earlier prices with their dates.
+ *
+ * @param {PriceFact[]} facts
+ * @returns {string}   사실이 없으면 ''
+ */
+export function formatFactsTable(facts) {
+  const histories = priceHistory(facts);
+  if (histories.length === 0) return '';
+
+  const rows = histories.map(({ item, points, latest }) => {
+    const earlier = points
+      .slice(0, -1)
+      .filter((point) => point.price !== latest.price)
+      .map((point) => `${formatPrice(point)} (${point.observedAt || '날짜 없음'})`);
+    return `| ${item} | ${formatPrice(latest)} | ${latest.observedAt || '날짜 없음'} | ${earlier.join(', ') || '-'} | ${latest.title || '제목 없음'} |`;
+  });
+
+  return [
+    '| 항목 | 최근 가격 | 기준일 | 이전 가격 | 출처 |',
+    '|---|---|---|---|---|',
+    ...rows,
+  ].join('\n');
+}
@@ -0,0 +1,229 @@
+import { SourceType } from '../types';
+import { formatTimestamp, parseTranscriptCues } from './textProcessing';
+
+// 업로드 파일 하나를 파싱한 결과 (IngestionPanel 일괄 업로드 큐의 한 항목)
+export interface ParsedFile {
+  fileName: string;
+  type: SourceType;
+  title: string;
+  url: string;
+  date: string;       // YYYY-MM-DD, 찾지 못하면 ''
+  content: string;    // 자막은 "m:ss 텍스트" 줄 형식 (transcriptChunking 입력)
+  cueCount: number;
+}
+
+export const SUPPORTED_EXTENSIONS = ['.srt', '.vtt', '.txt', '.md', '.html', '.htm'];
+
+const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * "2024. 3. 15. 14:30", "2024-03-15", "2024.03.15" -> "2024-03-15"
+ */
+export const normalizeDate = (raw: string | null | undefined): string => {
+  const match = (raw || '').match(/(\d{4})\s*[.\-/년]\s*(\d{1,2})\s*[.\-/월]\s*(\d{1,2})/);
+  if (!match) return '';
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+};
+
+// ===========================
+// Captions (SRT / WebVTT)
+// ===========================
+
+// "00:01:02,500" / "01:02.500" -> seconds
+const parseCaptionTime = (time: string): number => {
+  const parts = time.trim().replace(',', '.').split(':').map(Number);
+  return Math.floor(parts.reduce((total, part) => total * 60 + part, 0));
+};
+
+const CAPTION_TIMING = /^\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->/;
+
+/**
+ * Shared SRT/VTT cue reader. Returns transcript lines ("m:ss text") so the
+ * existing transcript chunker can pick up the timestamps.
+ * Consecutive duplicate lines (YouTube auto-captions roll text forward) are dropped.
+ */
+const parseCaptionBlocks = (text: string): string[] => {
+  const lines: string[] = [];
+  let lastLine = '';
+
+  text.replace(/\r\n/g, '\n').split(/\n\s*\n/).forEach(block => {
+    const blockLines = block.split('\n');
+    const timingIndex = blockLines.findIndex(line => CAPTION_TIMING.test(line));
+    if (timingIndex === -1) return;
+
+    const seconds = parseCaptionTime(blockLines[timingIndex].match(CAPTION_TIMING)![1]);
+    const cueLines = blockLines
+      .slice(timingIndex + 1)
+      .map(line => line.replace(/<[^>]+>/g, '').trim()) // <c>, <00:00:01.000>, <i> 등 태그 제거
+      .filter(Boolean);
+    const cueText = cueLines.filter(line => line !== lastLine).join(' ');
+    if (cueLines.length > 0) lastLine = cueLines[cueLines.length - 1];
+
+    if (cueText) lines.push(`${formatTimestamp(seconds)} ${cueText}`);
+  });
+
+  return lines;
+};
+
+export const parseSrt = (text: string, fileName: string): ParsedFile => {
+  const lines = parseCaptionBlocks(text);
+  return {
+    fileName,
+    type: SourceType.YOUTUBE,
+    title: stripExtension(fileName),
+    url: '',
+    date: normalizeDate(fileName),
+    content: lines.join('\n'),
+    cueCount: lines.length,
+  };
+};
+
+export const parseVtt = (text: string, fileName: string): ParsedFile => {
+  // WEBVTT 헤더의 "Title:" 같은 메타데이터는 첫 빈 줄 전까지
+  const header = text.replace(/\r\n/g, '\n').split(/\n\s*\n/)[0];
+  const titleMatch = header.match(/^(?:Title|NOTE Title):\s*(.+)$/m);
+  const lines = parseCaptionBlocks(text);
+
+  return {
+    fileName,
+    type: SourceType.YOUTUBE,
+    title: titleMatch?.[1].trim() || stripExtension(fileName),
+    url: '',
+    date: normalizeDate(fileName),
+    content: lines.join('\n'),
+    cueCount: lines.length,
+  };
+};
+
+// ===========================
+// Plain text / Markdown
+// ===========================
+
+export const parseTextFile = (text: string, fileName: string): ParsedFile => {
+  let body = text.replace(/\r\n/g, '\n').trim();
+  let title = '';
+  let date = '';
+  let url = '';
+
+  // YAML front matter (title / date / url)
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    const field = (key: string) => frontMatter[1].match(new RegExp(`^${key}:\\s*["']?(.+?)["']?\\s*$`, 'm'))?.[1] || '';
+    title = field('title');
+    date = normalizeDate(field('date'));
+    url = field('url') || field('link');
+    body = body.slice(frontMatter[0].length).trim();
+  }
+
+  if (!title) {
+    const heading = body.match(/^#\s+(.+)$/m);
+    title = heading ? heading[1].trim() : stripExtension(fileName);
+  }
+
+  // 시간 정보가 붙은 자막을 .txt로 저장한 경우 YouTube 스크립트로 취급
+  const cueCount = parseTranscriptCues(body).cues.length;
+  return {
+    fileName,
+    type: cueCount >= 3 ? SourceType.YOUTUBE : SourceType.BLOG,
+    title,
+    url,
+    date: date || normalizeDate(fileName),
+    content: body,
+    cueCount,
+  };
+};
+
+// ===========================
+// Naver blog HTML (브라우저 "다른 이름으로 저장" 페이지)
+// ===========================
+
+// 스마트에디터 ONE → 구버전 에디터 → 일반 본문 순서로 시도
+const NAVER_CONTENT_SELECTORS = ['.se-main-container', '#postViewArea', '.post-view', 'article', 'body'];
+const NAVER_TITLE_SELECTORS = ['.se-title-text', '.pcol1 .htitle', '.se_title'];
+const NAVER_DATE_SELECTORS = ['.se_publishDate', '.blog2_container .date', '.date', '.se_date'];
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'TR', 'BR', 'BLOCKQUOTE', 'TABLE', 'UL', 'OL']);
+
+// 제목은 마크다운 "## 제목" 줄로 남겨 markdownChunking이 제목 경로를 만들 수 있게 한다
+// (스마트에디터 ONE의 소제목 컴포넌트는 h 태그가 아니라 .se-section-sectionTitle)
+const headingLevel = (el: Element): number =>
+  /^H[1-6]$/.test(el.tagName) ? Number(el.tagName[1]) : el.classList.contains('se-section-sectionTitle') ? 2 : 0;
+
+// textContent는 블록 경계를 없애므로 블록 요소마다 줄바꿈을 넣어 텍스트를 뽑는다
+const extractBlockText = (root: Element): string => {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'BUTTON'].includes(el.tagName)) return;
+    const level = headingLevel(el);
+    if (level) {
+      const heading = (el.textContent || '').replace(/\s+/g, ' ').trim();
+      if (heading) parts.push(`\n${'#'.repeat(level)} ${heading}\n`);
+      return;
+    }
+    if (BLOCK_TAGS.has(el.tagName)) parts.push('\n');
+    el.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(el.tagName)) parts.push('\n');
+  };
+  walk(root);
+
+  return parts.join('')
+    .replace(/\u200b/g, '') // 스마트에디터의 zero-width space
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+export const parseNaverBlogHtml = (html: string, fileName: string): ParsedFile => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const firstText = (selectors: string[]) => {
+    for (const selector of selectors) {
+      const text = doc.querySelector(selector)?.textContent?.trim();
+      if (text) return text;
+    }
+    return '';
+  };
+  const meta = (property: string) => doc.querySelector(`meta[property="${property}"]`)?.getAttribute('content')?.trim() || '';
+
+  const contentRoot = NAVER_CONTENT_SELECTORS.map(s => doc.querySelector(s)).find(Boolean) as Element;
+  const title = firstText(NAVER_TITLE_SELECTORS) || meta('og:title') || doc.title.replace(/\s*:\s*네이버 블로그$/, '').trim() || stripExtension(fileName);
+
+  return {
+    fileName,
+    type: SourceType.BLOG,
+    title,
+    url: meta('og:url') || doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || '',
+    date: normalizeDate(firstText(NAVER_DATE_SELECTORS) || meta('article:published_time')),
+    content: contentRoot ? extractBlockText(contentRoot) : '',
+    cueCount: 0,
+  };
+};
+
+/**
+ * Reads and parses an uploaded file by extension. Throws for unsupported or empty files.
+ */
+export const parseKnowledgeFile = async (file: File): Promise<ParsedFile> => {
+  const ext = getExtension(file.name);
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    throw new Error(`지원하지 않는 형식입니다 (${ext})`);
+  }
+
+  const text = await file.text();
+  const parsed =
+    ext === '.srt' ? parseSrt(text, file.name) :
+    ext === '.vtt' ? parseVtt(text, file.name) :
+    ext === '.html' || ext === '.htm' ? parseNaverBlogHtml(text, file.name) :
+    parseTextFile(text, file.name);
+
+  if (!parsed.content.trim()) {
+    throw new Error('본문을 찾을 수 없습니다');
+  }
+  return parsed;
+};
@@ -0,0 +1,141 @@
+// 최신성(날짜) 기반 랭킹 + 오래된 가격 정보 태깅 — 클라이언트 RAG와 server.js가 함께 사용한다.
+
+/**
+ * @typedef {Object} RecencyOptions
+ * @property {number} [weight]        0 = 날짜 무시, 1 = 점수를 최신성 계수로만 결정
+ * @property {number} [halfLifeDays]  이 기간만큼 오래되면 최신성 계수가 절반이 된다
+ * @property {Date} [now]
+ */
+
+/**
+ * @typedef {Object} StaleNotice
+ * @property {string} date        이 청크의 기준 날짜
+ * @property {string} newerDate   같은 주제의 더 최신 문서 날짜
+ * @property {string} newerTitle
+ */
+
+export const RECENCY_DEFAULTS = { weight: 0.3, halfLifeDays: 365 };
+
+// 날짜가 없는 문서는 최신도 오래되지도 않은 중간값으로 취급
+const UNKNOWN_DATE_FACTOR = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (date) => {
+  const time = Date.parse(date || '');
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Exponential decay: 1 for today, 0.5 after halfLifeDays, 0.25 after twice that.
+ *
+ * @param {string} date
+ * @param {Date} [now]
+ * @param {number} [halfLifeDays]
+ * @returns {number}
+ */
+export const recencyFactor = (date, now = new Date(), halfLifeDays = RECENCY_DEFAULTS.halfLifeDays) => {
+  const time = parseDate(date);
+  if (time === null) return UNKNOWN_DATE_FACTOR;
+  const ageDays = Math.max(0, (now.getTime() - time) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+};
+
+/**
+ * Blends each chunk's retrieval score with its recency factor and re-sorts.
+ * score' = score * ((1 - weight) + weight * recency), so weight 0 keeps the original order.
+ *
+ * @template {{ score: number, metadata?: any }} T
+ * @param {T[]} chunks
+ * @param {RecencyOptions} [options]
+ * @returns {(T & { recency: number, baseScore: number })[]}
+ */
+export const applyRecency = (chunks, options = {}) => {
+  const weight = options.weight ?? RECENCY_DEFAULTS.weight;
+  const halfLifeDays = options.halfLifeDays ?? RECENCY_DEFAULTS.halfLifeDays;
+  const now = options.now || new Date();
+
+  return chunks
+    .map((chunk) => {
+      const recency = recencyFactor(chunk.metadata?.date, now, halfLifeDays);
+      return { ...chunk, baseScore: chunk.score, recency, score: chunk.score * (1 - weight + weight * recency) };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+// ===========================
+// 오래된 가격 정보 감지
+// ===========================
+
+// 1,500원 / 3500페소 / ₱3,500 / $20 / 20달러 / 5만원 / 2000 PHP
+const PRICE_PATTERN = /(?:[₩₱$]\s?\d[\d,.]*)|(?:\d[\d,.]*\s?(?:만\s?원|천\s?원|원|페소|달러|엔|바트|PHP|USD|KRW|JPY))/g;
+
+// 조사를 떼어 "호핑투어는"과 "호핑투어"를 같은 단어로 본다
+const JOSA_SUFFIX = /(은|는|이|가|을|를|의|에|에서|으로|로|와|과|도|만|요금|가격)$/;
+const STOPWORDS = new Set(['가격', '요금', '비용', '정도', '기준', '현재', '이상', '이하', '포함', '1인', '1인당', '인당', '입니다', '있습니다']);
+
+/**
+ * Topic words of the sentences that mention a price (empty set = no price in the chunk).
+ *
+ * @param {string} text
+ * @returns {Set<string>}
+ */
+export const priceTopicTerms = (text) => {
+  const terms = new Set();
+  (text || '').split(/(?<=[.!?\n])\s*/).forEach((sentence) => {
+    PRICE_PATTERN.lastIndex = 0;
+    if (!PRICE_PATTERN.test(sentence)) return;
+    sentence
+      .replace(PRICE_PATTERN, ' ')
+      .split(/[^0-9A-Za-z가-힣]+/)
+      .map((word) => word.replace(JOSA_SUFFIX, ''))
+      .filter((word) => word.length >= 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word))
+      .forEach((word) => terms.add(word.toLowerCase()));
+  });
+  return terms;
+};
+
+/**
+ * Finds chunks whose prices are likely outdated: another source in the same result set
+ * quotes a price about the same topic (>= minSharedTerms shared words in the price
+ * sentences) with a newer date. Returns a map of chunk index -> notice about the newest one.
+ *
+ * @param {{ content: string, metadata?: any }[]} chunks
+ * @param {number} [minSharedTerms]
+ * @returns {Map<number, StaleNotice>}
+ */
+export const detectStaleFacts = (chunks, minSharedTerms = 2) => {
+  const priced = chunks
+    .map((chunk, index) => ({
+      index,
+      sourceId: chunk.metadata?.sourceId,
+      title: chunk.metadata?.title || '',
+      date: chunk.metadata?.date || '',
+      time: parseDate(chunk.metadata?.date),
+      terms: priceTopicTerms(chunk.content),
+    }))
+    .filter((entry) => entry.time !== null && entry.terms.size > 0);
+
+  /** @type {Map<number, StaleNotice>} */
+  const notices = new Map();
+  priced.forEach((older) => {
+    let newest = null;
+    priced.forEach((newer) => {
+      if (newer.time <= older.time || newer.sourceId === older.sourceId) return;
+      const shared = [...older.terms].filter((term) => newer.terms.has(term)).length;
+      if (shared >= minSharedTerms && (!newest || newer.time > newest.time)) newest = newer;
+    });
+    if (newest) {
+      notices.set(older.index, { date: older.date, newerDate: newest.date, newerTitle: newest.title });
+    }
+  });
+  return notices;
+};
+
+/**
+ * Context line for a stale chunk, e.g. "⚠️ 가격 정보는 2023-03-01 기준 (더 최신: ...)".
+ *
+ * @param {StaleNotice} notice
+ * @returns {string}
+ */
+export const formatStaleNotice = (notice) =>
+  `⚠️ 이 문서의 가격 정보는 ${notice.date} 기준입니다. 더 최신 문서("${notice.newerTitle}", ${notice.newerDate})의 수치와 다를 수 있으니 "${notice.date.slice(0, 4)}년 기준"임을 밝히고 최신 수치를 우선하세요.`;
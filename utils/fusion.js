@@ -0,0 +1,134 @@
+// 하이브리드 검색 랭킹: RRF(Reciprocal Rank Fusion) + LLM 재순위(rerank) 헬퍼.
+// LLM 호출 자체는 호출하는 쪽(GeminiService 등)이 하고, 여기서는 프롬프트/파싱/점수 결합만 한다.
+
+/**
+ * @typedef {Object} StageScore
+ * @property {number} rank      해당 검색기 결과에서의 순위 (1부터)
+ * @property {number} score     해당 검색기의 원래 점수 (벡터 유사도, BM25 정규화 점수 등)
+ */
+
+/**
+ * @typedef {Object} FusionOptions
+ * @property {number} [k]                          RRF 상수 (클수록 순위 차이의 영향이 작아짐)
+ * @property {Record<string, number>} [weights]    검색기별 가중치 (기본 1)
+ */
+
+/**
+ * @typedef {Object} RerankOptions
+ * @property {number} [depth]     재순위할 상위 청크 수 (0 = 재순위 안 함)
+ * @property {number} [weight]    최종 점수에서 rerank 점수 비중 (나머지는 RRF 점수)
+ */
+
+export const FUSION_DEFAULTS = { k: 60, weights: { vector: 1, keyword: 1 } };
+export const RERANK_DEFAULTS = { depth: 20, weight: 0.7 };
+
+// 재순위 프롬프트에 넣을 청크 길이 (한 번의 호출에 depth개를 모두 넣는다)
+const RERANK_PASSAGE_CHARS = 600;
+
+/**
+ * Fuses ranked lists by summing weight / (k + rank) per item id.
+ * Each item keeps the rank and score it had in every list it appeared in.
+ *
+ * @template {{ id: any, score?: number, similarity?: number }} T
+ * @param {Record<string, T[]>} rankLists   stage name -> items, best first
+ * @param {FusionOptions} [options]
+ * @returns {(T & { fusedScore: number, stages: Record<string, StageScore> })[]} best first
+ */
+export function reciprocalRankFusion(rankLists, options = {}) {
+  const k = options.k ?? FUSION_DEFAULTS.k;
+  const weights = { ...FUSION_DEFAULTS.weights, ...options.weights };
+
+  const fused = new Map();
+  Object.entries(rankLists).forEach(([stage, items]) => {
+    const weight = weights[stage] ?? 1;
+    items.forEach((item, index) => {
+      const entry = fused.get(item.id) || { ...item, fusedScore: 0, stages: {} };
+      entry.fusedScore += weight / (k + index + 1);
+      entry.stages[stage] = { rank: index + 1, score: item.similarity ?? item.score ?? 0 };
+      fused.set(item.id, entry);
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
+/**
+ * One prompt that asks the model to grade every passage against the question (0-10),
+ * so reranking N chunks costs a single call.
+ *
+ * @param {string} query
+ * @param {{ content: string, metadata?: any }[]} passages
+ * @returns {string}
+ */
+export function buildRerankPrompt(query, passages) {
+  const list = passages
+    .map((p, i) => `[${i + 1}] (${p.metadata?.title || '제목 없음'})\n${(p.content || '').substring(0, RERANK_PASSAGE_CHARS)}`)
+    .join('\n\n');
+
+  return `당신은 검색 결과 평가자입니다. 아래 질문에 답하는 데 각 문서가 얼마나 도움이 되는지 0~10 점으로 매기세요.
+10 = 질문에 직접 답하는 구체적 정보 포함, 5 = 관련 주제지만 답은 없음, 0 = 무관.
+
+질문: ${query}
+
+문서:
+${list}
+
+모든 문서에 대해 JSON 배열만 출력하세요. 예: [{"id":1,"score":7},{"id":2,"score":0}]`;
+}
+
+/**
+ * Parses the rerank reply into per-passage scores scaled to 0-1 (null = not graded).
+ *
+ * @param {string} text
+ * @param {number} count
+ * @returns {(number | null)[]}
+ */
+export function parseRerankScores(text, count) {
+  const scores = new Array(count).fill(null);
+  const match = (text || '').match(/\[[\s\S]*\]/);
+  if (!match) return scores;
+
+  try {
+    JSON.parse(match[0]).forEach((entry) => {
+      const index = Number(entry?.id) - 1;
+      const score = Number(entry?.score);
+      if (index >= 0 && index < count && !Number.isNaN(score)) {
+        scores[index] = Math.min(10, Math.max(0, score)) / 10;
+      }
+    });
+  } catch {
+    // 파싱 실패 → 전부 null (재순위 없이 RRF 순서 유지)
+  }
+  return scores;
+}
+
+/**
+ * Final score for the reranked head: weight * rerank + (1 - weight) * fused (normalised to
+ * the top fused score). Ungraded chunks and everything past the head keep only the fused
+ * part and stay below the reranked ones.
+ *
+ * @template {{ fusedScore: number }} T
+ * @param {T[]} fused                     reciprocalRankFusion() output
+ * @param {(number | null)[]} scores      parseRerankScores() output for fused.slice(0, scores.length)
+ * @param {RerankOptions} [options]
+ * @returns {(T & { score: number, rerankScore?: number })[]} best first
+ */
+export function applyRerankScores(fused, scores, options = {}) {
+  const weight = options.weight ?? RERANK_DEFAULTS.weight;
+  const topFused = fused[0]?.fusedScore || 1;
+
+  const head = fused.slice(0, scores.length).map((item, i) => {
+    const fusedPart = item.fusedScore / topFused;
+    return scores[i] === null
+      ? { ...item, score: (1 - weight) * fusedPart }
+      : { ...item, rerankScore: scores[i], score: weight * scores[i] + (1 - weight) * fusedPart };
+  });
+  const headFloor = Math.min(...head.map((item) => item.score), Infinity);
+  const tail = fused.slice(scores.length).map((item) => ({
+    ...item,
+    // 재순위 대상보다 항상 아래에 오도록 head의 최저점 이하로 눌러 둔다
+    score: Math.min(headFloor, (1 - weight) * (item.fusedScore / topFused)),
+  }));
+
+  return [...head.sort((a, b) => b.score - a.score), ...tail];
+}
@@ -0,0 +1,226 @@
+// 답변 근거 검증 — 답변을 주장(문장) 단위로 나눠 검색된 문서에 근거가 있는지 확인한다.
+// server/grounding.js 와 클라이언트 RAG 모드(GeminiService)가 함께 사용한다.
+
+/**
+ * @typedef {'supported' | 'partial' | 'unsupported' | 'unverifiable'} ClaimStatus
+ *   unverifiable: 숫자가 없어 글자 비교로는 판정할 수 없는 주장 (LLM 판정에서만 확인)
+ */
+
+/**
+ * @typedef {Object} Claim
+ * @property {number} id
+ * @property {string} text
+ * @property {'price' | 'time' | 'number' | 'text'} kind
+ * @property {string[]} numbers     답변에 적힌 숫자 표기 그대로 (예: "50,000", "3만", "09:30")
+ */
+
+/**
+ * @typedef {Claim & { status: ClaimStatus, unsupportedNumbers: string[] }} CheckedClaim
+ */
+
+/**
+ * @typedef {Object} GroundingReport
+ * @property {'lexical' | 'llm'} method
+ * @property {CheckedClaim[]} claims
+ * @property {number | null} supportRatio   판정 가능한 주장 중 근거가 있는 비율 (부분 근거 = 0.5), 판정할 주장이 없으면 null
+ * @property {string[]} unsupportedNumbers  RAGChat이 강조할 숫자 표기
+ */
+
+export const GROUNDING_DEFAULTS = {
+  minSupport: 0.7,
+  maxClaims: 20,
+  judgeEvidenceChars: 1500,
+};
+
+// 가격 / 시간 단서
+const PRICE_HINT = /(원|달러|페소|\$|₱|USD|PHP|KRW|요금|가격|비용)/i;
+const TIME_HINT = /(\d{1,2}:\d{2}|시간|분|시|오전|오후|요일)/;
+
+// 숫자 표기: 1,500 / 3.5 / 09:30 / 3만 / 2천
+const NUMBER = /\d{1,3}(?:,\d{3})+(?:\.\d+)?(?:\s?[만천])?|\d+(?:[.:]\d+)?(?:\s?[만천])?/g;
+
+const UNIT_MULTIPLIER = { 만: 10000, 천: 1000 };
+
+/**
+ * Canonical forms of a number as written: "50,000" → ["50000"], "3만" → ["3", "30000"],
+ * "09:30" → ["9:30"]. The plain figure is kept so "3만 원" also matches a document
+ * that writes "3만원".
+ *
+ * @param {string} raw
+ * @returns {string[]}
+ */
+export const canonicalNumbers = (raw) => {
+  const compact = raw.replace(/[,\s]/g, '');
+  if (compact.includes(':')) {
+    const [hours, minutes] = compact.split(':');
+    return [`${parseInt(hours, 10)}:${minutes}`];
+  }
+  const unit = compact.slice(-1);
+  const value = parseFloat(compact);
+  if (Number.isNaN(value)) return [];
+  return UNIT_MULTIPLIER[unit] ? [String(value), String(value * UNIT_MULTIPLIER[unit])] : [String(value)];
+};
+
+// 마크다운 장식 / 출처 표시 / 링크 주소를 걷어낸 본문
+const plainText = (line) =>
+  line
+    .replace(/\[\[\d+\]\]/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/, '')
+    .replace(/[*_`|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Splits an answer into checkable claims: one per sentence (table rows count as
+ * sentences). Claims with numbers come first because prices and times are what
+ * visitors act on; with includeText the other sentences follow (for the LLM judge).
+ *
+ * @param {string} answer
+ * @param {{ includeText?: boolean, maxClaims?: number }} [options]
+ * @returns {Claim[]}
+ */
+export function extractClaims(answer, { includeText = false, maxClaims = GROUNDING_DEFAULTS.maxClaims } = {}) {
+  const sentences = (answer || '')
+    .split('\n')
+    .map(plainText)
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= 5);
+
+  const claims = sentences.map((text) => {
+    const numbers = text.match(NUMBER) || [];
+    const kind = numbers.length === 0 ? 'text' : PRICE_HINT.test(text) ? 'price' : TIME_HINT.test(text) ? 'time' : 'number';
+    return { text, kind, numbers };
+  });
+
+  return [...claims.filter((claim) => claim.numbers.length > 0), ...(includeText ? claims.filter((claim) => claim.numbers.length === 0) : [])]
+    .slice(0, maxClaims)
+    .map((claim, i) => ({ id: i + 1, ...claim }));
+}
+
+/**
+ * Numeric check: a claim is supported when every number it states appears in the
+ * evidence, partial when some do. Claims without numbers are unverifiable here.
+ *
+ * @param {Claim[]} claims
+ * @param {string[]} evidence   검색된 청크 본문
+ * @returns {CheckedClaim[]}
+ */
+export function checkClaimsLexically(claims, evidence) {
+  const known = new Set(evidence.flatMap((text) => (text.match(NUMBER) || []).flatMap(canonicalNumbers)));
+
+  return claims.map((claim) => {
+    if (claim.numbers.length === 0) return { ...claim, status: 'unverifiable', unsupportedNumbers: [] };
+    const unsupportedNumbers = claim.numbers.filter((raw) => !canonicalNumbers(raw).some((value) => known.has(value)));
+    const status = unsupportedNumbers.length === 0
+      ? 'supported'
+      : unsupportedNumbers.length === claim.numbers.length ? 'unsupported' : 'partial';
+    return { ...claim, status, unsupportedNumbers };
+  });
+}
+
+/**
+ * @param {'lexical' | 'llm'} method
+ * @param {CheckedClaim[]} claims
+ * @returns {GroundingReport}
+ */
+export function summarizeGrounding(method, claims) {
+  const judged = claims.filter((claim) => claim.status !== 'unverifiable');
+  const score = judged.reduce((sum, claim) => sum + (claim.status === 'supported' ? 1 : claim.status === 'partial' ? 0.5 : 0), 0);
+  return {
+    method,
+    claims,
+    supportRatio: judged.length > 0 ? score / judged.length : null,
+    unsupportedNumbers: [...new Set(claims.flatMap((claim) => claim.unsupportedNumbers))],
+  };
+}
+
+/**
+ * @param {Claim[]} claims
+ * @param {string[]} evidence
+ * @returns {string}
+ */
+export function buildJudgePrompt(claims, evidence) {
+  const documents = evidence
+    .map((text, i) => `[문서 ${i + 1}]\n${text.substring(0, GROUNDING_DEFAULTS.judgeEvidenceChars)}`)
+    .join('\n\n');
+  const list = claims.map((claim) => `${claim.id}. ${claim.text}`).join('\n');
+
+  return `당신은 사실 검증자입니다. 아래 문서만 근거로 각 주장이 뒷받침되는지 판정하세요.
+supported = 문서에 같은 내용(가격/시간/장소 포함)이 있음, partial = 일부만 있음, unsupported = 문서에 없거나 다름.
+문서 밖의 일반 상식으로 판정하지 마세요.
+
+문서:
+${documents}
+
+주장:
+${list}
+
+모든 주장에 대해 JSON 배열만 출력하세요. 예: [{"id":1,"status":"supported"},{"id":2,"status":"unsupported"}]`;
+}
+
+/**
+ * Applies the judge reply to lexically checked claims. Claims the judge skipped keep
+ * their lexical status; a number the lexical check missed stays highlighted only when
+ * the judge also says the claim is not fully supported.
+ *
+ * @param {string} text
+ * @param {CheckedClaim[]} claims   checkClaimsLexically() output
+ * @returns {CheckedClaim[]}
+ */
+export function applyJudgeResult(text, claims) {
+  const verdicts = new Map();
+  const match = (text || '').match(/\[[\s\S]*\]/);
+  if (match) {
+    try {
+      JSON.parse(match[0]).forEach((entry) => {
+        if (['supported', 'partial', 'unsupported'].includes(entry?.status)) verdicts.set(Number(entry.id), entry.status);
+      });
+    } catch {
+      // 파싱 실패 → 글자 비교 결과 유지
+    }
+  }
+
+  return claims.map((claim) => {
+    const status = verdicts.get(claim.id);
+    if (!status) return claim;
+    return { ...claim, status, unsupportedNumbers: status === 'supported' ? [] : claim.unsupportedNumbers };
+  });
+}
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Wraps the unsupported numbers of each claim in the answer line the claim came from
+ * (links and [[n]] markers are left alone), e.g. for highlighting in the chat UI.
+ *
+ * @param {string} answer
+ * @param {CheckedClaim[]} claims
+ * @param {(raw: string) => string} mark
+ * @returns {string}
+ */
+export function markUnsupportedNumbers(answer, claims, mark) {
+  const flagged = claims.filter((claim) => claim.unsupportedNumbers.length > 0);
+  if (flagged.length === 0) return answer;
+
+  return answer
+    .split('\n')
+    .map((line) => {
+      const plain = plainText(line);
+      const numbers = [...new Set(flagged.filter((claim) => plain.includes(claim.text)).flatMap((claim) => claim.unsupportedNumbers))];
+      if (numbers.length === 0) return line;
+
+      // 긴 표기부터 (예: "1,500"을 "1"보다 먼저)
+      const pattern = new RegExp(
+        `(?<![\\d,.:])(${numbers.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\d,:]|\\.\\d)`,
+        'g'
+      );
+      return line
+        .split(/(\[\[\d+\]\]|\[[^\]]*\]\([^)]*\))/)
+        .map((part, i) => (i % 2 === 1 ? part : part.replace(pattern, (raw) => mark(raw))))
+        .join('');
+    })
+    .join('\n');
+}
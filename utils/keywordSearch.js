@@ -0,0 +1,93 @@
+// 키워드 검색 — GeminiService(클라이언트 RAG)와 모든 서버 검색 모드가 함께 사용한다.
+// 실제 검색/점수 계산은 KnowledgeStore.keywordSearch (Supabase: keyword_search RPC, supabase/migrations/20261019010000_keyword_search.sql).
+
+/**
+ * @typedef {Object} KeywordHit
+ * @property {number} id
+ * @property {string} content
+ * @property {Object} metadata
+ * @property {number} score       BM25 점수를 결과 내 최고점 기준 0~1로 정규화한 값
+ * @property {number} bm25        RPC가 돌려준 원래 BM25 점수
+ */
+
+const MAX_KEYWORDS = 8;
+
+// 복합명사 n-gram(호핑투어 → 호핑/핑투/투어)은 원래 단어보다 낮은 가중치로 검색
+export const NGRAM_WEIGHT = 0.3;
+
+// 2글자 이상 단어 끝에서 떼어낼 조사 (긴 것부터)
+const JOSA_SUFFIX = /(에서|으로|에게|까지|부터|이랑|하고|은|는|이|가|을|를|의|에|로|와|과|도|만|요)$/;
+
+// 검색에 도움이 안 되는 질문 어미/의문사
+const STOPWORDS = new Set([
+  '어떻게', '어디', '어디서', '뭐', '뭐야', '무엇', '무엇인가요', '얼마', '얼마나', '얼마예요',
+  '알려줘', '알려주세요', '추천해줘', '추천해주세요', '있나요', '있어요', '인가요', '하나요',
+  '해줘', '해주세요', '궁금해요', '어때', '어때요', '그리고', '관련', '대해', '대한', '정도', '혹시',
+]);
+
+/**
+ * Splits a question into search keywords: punctuation removed, trailing particles
+ * stripped (호핑투어는 → 호핑투어), question words dropped, deduplicated.
+ *
+ * @param {string} query
+ * @returns {string[]}
+ */
+export function extractKeywords(query) {
+  const words = (query || '')
+    .toLowerCase()
+    .split(/[^0-9a-z가-힣]+/)
+    .filter((word) => !STOPWORDS.has(word))
+    .map((word) => (word.length > 2 ? word.replace(JOSA_SUFFIX, '') : word))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word));
+
+  return [...new Set(words)].slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * Adds overlapping Hangul bigrams for 4+ character words so compound nouns also match
+ * their parts ("호핑 투어", "투어 가격"). Returns parallel term / weight arrays.
+ *
+ * @param {string[]} keywords
+ * @returns {{ terms: string[], weights: number[] }}
+ */
+export function expandSearchTerms(keywords) {
+  /** @type {Map<string, number>} */
+  const weights = new Map();
+  const add = (term, weight) => weights.set(term, Math.max(weights.get(term) || 0, weight));
+
+  keywords.forEach((keyword) => {
+    const term = keyword.toLowerCase().trim();
+    if (!term) return;
+    add(term, 1);
+    if (/^[가-힣]{4,}$/.test(term)) {
+      for (let i = 0; i < term.length - 1; i++) add(term.substring(i, i + 2), NGRAM_WEIGHT);
+    }
+  });
+
+  return { terms: [...weights.keys()], weights: [...weights.values()] };
+}
+
+/**
+ * Ranked keyword search over documents (content + title) through the knowledge store
+ * (keyword_search RPC on Supabase, the same BM25 in memory for the local store).
+ *
+ * @param {import('../store/index.js').KnowledgeStore} store
+ * @param {string[]} keywords
+ * @param {number} limit
+ * @param {import('./taxonomy.js').SourceFilter | null} [filter]   지역/카테고리/태그로 좁히기
+ * @returns {Promise<KeywordHit[]>} highest score first; empty when there are no keywords
+ */
+export async function keywordSearch(store, keywords, limit, filter = null) {
+  const { terms, weights } = expandSearchTerms(keywords);
+  if (terms.length === 0) return [];
+
+  const rows = await store.keywordSearch(terms, weights, limit, filter);
+  const topScore = rows.length > 0 ? rows[0].score : 0;
+  return rows.map((row) => ({
+    id: row.id,
+    content: row.content,
+    metadata: row.metadata || {},
+    score: topScore > 0 ? row.score / topScore : 0,
+    bm25: row.score,
+  }));
+}
@@ -0,0 +1,306 @@
+// 구조 인식 청킹 — 마크다운 제목/목록/표/코드 블록을 중간에서 자르지 않고, 크기는 토큰 수로 재고,
+// 청크마다 제목 경로("세부 > 호핑투어 > 가격")를 붙인다. 블로그 글(BLOG)의 기본 청커 (chunkBySourceType).
+// 제목이 없는 글(붙여넣은 네이버 블로그 본문 등)은 문단 단위로 묶인다.
+// 한 섹션이 여러 청크로 나뉘면 앞 청크 끝의 문단/문장(overlapTokens 이내)을 다음 청크 앞에 반복한다.
+
+/** @typedef {import('../types').ContentChunk} ContentChunk */
+
+/**
+ * @typedef {Object} MarkdownChunkingOptions
+ * @property {number} [maxTokens]   청크 최대 크기 (제목 경로 포함)
+ * @property {number} [minTokens]   이보다 작은 청크는 같은/인접 섹션의 청크와 합친다
+ * @property {number} [overlapTokens] 같은 섹션 안에서 이어지는 청크끼리 겹치는 최대 크기 (0 = 겹치지 않음)
+ */
+
+/**
+ * @typedef {Object} Block
+ * @property {'heading' | 'paragraph' | 'list' | 'table' | 'code'} kind
+ * @property {string[]} lines
+ * @property {number} [level]    heading: # 개수
+ * @property {string} [title]    heading: 장식을 걷어낸 제목
+ */
+
+export const MARKDOWN_CHUNKING_DEFAULTS = { maxTokens: 800, minTokens: 150, overlapTokens: 60 };
+
+const BREADCRUMB_SEPARATOR = ' > ';
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+•]|\d{1,3}[.)])\s+/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const CJK = /[ᄀ-ᇿ㄰-㆏가-힯぀-ヿ一-鿿]/g;
+const SENTENCE_END = /(?<=[.!?。])\s+/;
+
+/**
+ * Rough token count for sizing chunks: a Hangul/CJK character ≈ 1 token,
+ * other text ≈ 4 characters per token. Errs on the large side for Korean so
+ * chunks stay within the embedding model's input limit.
+ *
+ * @param {string} text
+ * @returns {number}
+ */
+export const approximateTokens = (text) => {
+  const cjk = (text.match(CJK) || []).length;
+  const rest = text.replace(CJK, '').replace(/\s+/g, ' ').trim().length;
+  return cjk + Math.ceil(rest / 4);
+};
+
+/**
+ * Splits markdown into blocks. Blank lines end paragraphs and tables; a list keeps
+ * going across blank lines while the next line is another item or indented.
+ *
+ * @param {string} text
+ * @returns {Block[]}
+ */
+export const parseMarkdownBlocks = (text) => {
+  /** @type {Block[]} */
+  const blocks = [];
+  /** @type {Block | null} */
+  let current = null;
+  const close = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  lines.forEach((line, i) => {
+    if (current?.kind === 'code') {
+      current.lines.push(line);
+      if (FENCE.test(line)) close();
+      return;
+    }
+    if (FENCE.test(line)) {
+      close();
+      current = { kind: 'code', lines: [line] };
+      return;
+    }
+    if (!line.trim()) {
+      if (current?.kind === 'list') {
+        const next = lines.slice(i + 1).find((rest) => rest.trim());
+        if (next && (LIST_ITEM.test(next) || /^\s{2,}\S/.test(next))) return;
+      }
+      close();
+      return;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      close();
+      blocks.push({ kind: 'heading', level: heading[1].length, title: heading[2].replace(/[*_`]/g, '').trim(), lines: [line.trim()] });
+      return;
+    }
+
+    const kind = TABLE_ROW.test(line) ? 'table'
+      : LIST_ITEM.test(line) || (current?.kind === 'list' && /^\s+\S/.test(line)) ? 'list'
+      : 'paragraph';
+    if (current?.kind !== kind) {
+      close();
+      current = { kind, lines: [] };
+    }
+    current.lines.push(line.trimEnd());
+  });
+  close();
+  return blocks;
+};
+
+// 한 단위가 너무 길면 글자 수 비율로 자른다 (문장이 끝나지 않는 긴 줄)
+const hardSplit = (text, maxTokens) => {
+  const pieces = [];
+  const perPiece = Math.max(1, Math.floor(text.length * (maxTokens / Math.max(approximateTokens(text), 1))));
+  for (let at = 0; at < text.length; at += perPiece) pieces.push(text.slice(at, at + perPiece));
+  return pieces;
+};
+
+/**
+ * Greedy packing of units into pieces of at most maxTokens (header repeated on each).
+ * With overlap, each piece starts with the trailing units of the previous one (whole
+ * carriable units only, at most overlap tokens, never the entire previous piece).
+ *
+ * @param {string[]} units
+ * @param {number} maxTokens
+ * @param {string} joiner
+ * @param {string} [header]   표 머리글처럼 조각마다 반복할 줄
+ * @param {number} [overlap]
+ * @param {(unit: string) => boolean} [carriable]   겹침으로 반복해도 되는 단위
+ * @returns {string[]}
+ */
+const pack = (units, maxTokens, joiner, header = '', overlap = 0, carriable = () => true) => {
+  const budget = maxTokens - (header ? approximateTokens(header) : 0);
+  const pieces = [];
+  let current = [];
+  let size = 0;
+  const flush = () => {
+    if (current.length > 0) pieces.push([header, current.join(joiner)].filter(Boolean).join('\n'));
+    const carried = [];
+    let carriedSize = 0;
+    for (let i = current.length - 1; i > 0 && carriable(current[i]) && carriedSize + approximateTokens(current[i]) <= overlap; i--) {
+      carried.unshift(current[i]);
+      carriedSize += approximateTokens(current[i]);
+    }
+    current = carried;
+    size = carriedSize;
+  };
+
+  units.flatMap((unit) => (approximateTokens(unit) > budget ? hardSplit(unit, budget) : [unit])).forEach((unit) => {
+    const tokens = approximateTokens(unit);
+    if (current.length > 0 && size + tokens > budget) {
+      flush();
+      // 겹치는 부분과 합쳐 넘치면 겹침 없이 시작
+      if (size + tokens > budget) {
+        current = [];
+        size = 0;
+      }
+    }
+    current.push(unit);
+    size += tokens;
+  });
+  flush();
+  return pieces;
+};
+
+// 목록 항목 단위 (들여쓴 하위 항목/이어지는 줄은 앞 항목에 붙인다)
+const listItems = (lines) => {
+  const indent = Math.min(...lines.filter((line) => LIST_ITEM.test(line)).map((line) => line.match(/^\s*/)[0].length));
+  const items = [];
+  lines.forEach((line) => {
+    const topLevel = LIST_ITEM.test(line) && line.match(/^\s*/)[0].length === indent;
+    if (topLevel || items.length === 0) items.push(line);
+    else items[items.length - 1] += `\n${line}`;
+  });
+  return items;
+};
+
+/**
+ * A block as one or more pieces of at most maxTokens: tables split between rows
+ * (header repeated), lists between items, paragraphs between lines (then sentences), code between lines.
+ * Only paragraph pieces overlap; table rows and list items are never repeated.
+ *
+ * @param {Block} block
+ * @param {number} maxTokens
+ * @param {number} [overlap]
+ * @returns {string[]}
+ */
+const splitBlock = (block, maxTokens, overlap = 0) => {
+  const text = block.lines.join('\n');
+  if (approximateTokens(text) <= maxTokens) return [text];
+
+  switch (block.kind) {
+    case 'table': {
+      const hasHeader = block.lines.length > 1 && TABLE_SEPARATOR.test(block.lines[1]);
+      const header = hasHeader ? block.lines.slice(0, 2).join('\n') : '';
+      return pack(hasHeader ? block.lines.slice(2) : block.lines, maxTokens, '\n', header);
+    }
+    case 'list':
+      return pack(listItems(block.lines), maxTokens, '\n');
+    case 'code':
+      return pack(block.lines, maxTokens, '\n');
+    default: {
+      // 줄 단위로 묶고, 한 줄이 너무 길면 문장 단위로 (네이버 글은 빈 줄 없이 줄마다 문단이다)
+      const sentences = (line) => (approximateTokens(line) > maxTokens ? line.split(SENTENCE_END) : [line]);
+      return pack(block.lines.flatMap(sentences), maxTokens, '\n', '', overlap);
+    }
+  }
+};
+
+/**
+ * @typedef {Object} SectionChunk
+ * @property {string[]} path        제목 경로
+ * @property {string[]} headings    경로 단계별 원래 제목 줄 ("## 호핑투어")
+ * @property {string} body
+ */
+
+// 두 청크의 공통 제목 경로
+const commonPath = (a, b) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+/**
+ * Merges a small chunk into its neighbour when both belong to the same section or to
+ * sibling / parent-child sections. The merged chunk keeps the shared path; headings
+ * below it move into the body so the structure stays readable.
+ *
+ * @param {SectionChunk[]} chunks
+ * @param {Required<MarkdownChunkingOptions>} options
+ * @returns {SectionChunk[]}
+ */
+const mergeSmallChunks = (chunks, { maxTokens, minTokens }) => {
+  const breadcrumbTokens = (path) => approximateTokens(path.join(BREADCRUMB_SEPARATOR));
+  const bodyBelow = (chunk, depth) => [...chunk.headings.slice(depth), chunk.body].filter(Boolean).join('\n\n');
+
+  return chunks.reduce((merged, chunk) => {
+    const previous = merged[merged.length - 1];
+    if (!previous) return [chunk];
+
+    const depth = commonPath(previous.path, chunk.path);
+    const related = depth >= Math.max(previous.path.length, chunk.path.length) - 1;
+    const small = approximateTokens(previous.body) < minTokens || approximateTokens(chunk.body) < minTokens;
+    const body = `${bodyBelow(previous, depth)}\n\n${bodyBelow(chunk, depth)}`;
+    const path = previous.path.slice(0, depth);
+    if (!related || !small || approximateTokens(body) + breadcrumbTokens(path) > maxTokens) return [...merged, chunk];
+
+    merged[merged.length - 1] = { path, headings: previous.headings.slice(0, depth), body };
+    return merged;
+  }, /** @type {SectionChunk[]} */ ([]));
+};
+
+/**
+ * Structure-aware chunker for markdown / blog text. Chunks never cross a heading
+ * (except when small neighbouring sections are merged), never cut a table row, list
+ * item or code block, and start with the heading breadcrumb of their section
+ * (also returned as chunk.section).
+ *
+ * @param {string} text
+ * @param {string} parentId
+ * @param {MarkdownChunkingOptions} [options]
+ * @returns {ContentChunk[]}
+ */
+export const markdownChunking = (text, parentId, options = {}) => {
+  const maxTokens = options.maxTokens ?? MARKDOWN_CHUNKING_DEFAULTS.maxTokens;
+  const minTokens = options.minTokens ?? MARKDOWN_CHUNKING_DEFAULTS.minTokens;
+  const overlapTokens = options.overlapTokens ?? MARKDOWN_CHUNKING_DEFAULTS.overlapTokens;
+
+  /** @type {SectionChunk[]} */
+  const sections = [];
+  /** @type {{ level: number, title: string, line: string }[]} */
+  let stack = [];
+  /** @type {Block[]} */
+  let blocks = [];
+
+  const flushSection = () => {
+    if (blocks.length === 0) return;
+    const path = stack.map((entry) => entry.title);
+    const budget = maxTokens - approximateTokens(path.join(BREADCRUMB_SEPARATOR)) - 2;
+    const prose = new Set();
+    const pieces = blocks.flatMap((block) => {
+      const split = splitBlock(block, budget, overlapTokens);
+      if (block.kind === 'paragraph') split.forEach((piece) => prose.add(piece));
+      return split;
+    });
+    // 문단 조각만 겹친다 (표/목록/코드 조각은 반복하지 않는다)
+    pack(pieces, budget, '\n\n', '', overlapTokens, (piece) => prose.has(piece)).forEach((body) => sections.push({ path, headings: stack.map((entry) => entry.line), body }));
+    blocks = [];
+  };
+
+  parseMarkdownBlocks(text).forEach((block) => {
+    if (block.kind !== 'heading') {
+      blocks.push(block);
+      return;
+    }
+    flushSection();
+    stack = [...stack.filter((entry) => entry.level < block.level), { level: block.level, title: block.title, line: block.lines[0] }];
+  });
+  flushSection();
+
+  return mergeSmallChunks(sections, { maxTokens, minTokens }).map((chunk, i) => {
+    const section = chunk.path.join(BREADCRUMB_SEPARATOR);
+    return {
+      id: `${parentId}_${Date.now()}_${i}`,
+      parentId,
+      text: section ? `${section}\n\n${chunk.body}` : chunk.body,
+      section,
+    };
+  });
+};
@@ -0,0 +1,228 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { approximateTokens, markdownChunking, parseMarkdownBlocks } from './markdownChunking.js';
+
+// 실제 블로그 글 샘플: 제목/표/목록이 있는 마크다운 후기와, 제목 없이 붙여넣은 네이버 블로그 본문
+const sample = (name) => readFileSync(new URL(`./testdata/${name}`, import.meta.url), 'utf8');
+const BOHOL = sample('bohol-hopping.md');
+const NAVER = sample('naver-cebu.txt');
+
+const PRICE_TABLE_ROWS = BOHOL.split('\n').filter((line) => line.startsWith('| '));
+const bodyLines = (chunk) => chunk.text.slice(chunk.section ? chunk.section.length + 2 : 0).split('\n').filter(Boolean);
+
+test('approximateTokens counts Hangul per character and other text per 4 characters', () => {
+  assert.equal(approximateTokens('호핑투어'), 4);
+  assert.equal(approximateTokens('hello world!'), 3);
+  assert.equal(approximateTokens('보홀 1,500페소'), 2 + 2 + 2);
+  assert.equal(approximateTokens(''), 0);
+});
+
+test('parseMarkdownBlocks splits a blog post into headings, paragraphs, tables and lists', () => {
+  const blocks = parseMarkdownBlocks(BOHOL);
+
+  assert.deepEqual(
+    blocks.filter((block) => block.kind === 'heading').map((block) => [block.level, block.title]),
+    [
+      [1, '보홀 여행 총정리'],
+      [2, '가는 법'],
+      [2, '호핑투어'],
+      [3, '가격'],
+      [3, '준비물'],
+      [3, '주의사항'],
+      [2, '숙소'],
+      [3, '알로나 비치 주변'],
+      [3, '팡라오 북쪽 리조트'],
+      [2, '맛집'],
+    ],
+  );
+
+  const tables = blocks.filter((block) => block.kind === 'table');
+  assert.equal(tables.length, 1);
+  assert.deepEqual(tables[0].lines, PRICE_TABLE_ROWS);
+
+  const lists = blocks.filter((block) => block.kind === 'list');
+  assert.equal(lists.length, 2);
+  assert.equal(lists[0].lines.length, 6, 'nested items stay in the same list block');
+  assert.match(lists[0].lines[1], /^\s+- 산호에/);
+
+  // 제목 바로 아래 두 줄짜리 문단은 한 블록
+  assert.equal(blocks[1].kind, 'paragraph');
+  assert.equal(blocks[1].lines.length, 2);
+});
+
+test('parseMarkdownBlocks keeps lists across blank lines and code fences intact', () => {
+  const blocks = parseMarkdownBlocks([
+    '1. 오션젯 예매',
+    '',
+    '2. 환전',
+    '   공항보다 시내 환전소가 낫다',
+    '',
+    '```',
+    '# 제목이 아니라 코드',
+    '',
+    '| 표도 | 아님 |',
+    '```',
+    '끝',
+  ].join('\n'));
+
+  assert.deepEqual(blocks.map((block) => block.kind), ['list', 'code', 'paragraph']);
+  assert.equal(blocks[0].lines.length, 3);
+  assert.equal(blocks[1].lines.length, 5);
+});
+
+test('markdownChunking prefixes every chunk with its heading breadcrumb', () => {
+  const chunks = markdownChunking(BOHOL, 'bohol', { maxTokens: 200, minTokens: 0, overlapTokens: 0 });
+
+  chunks.forEach((chunk) => {
+    assert.equal(chunk.parentId, 'bohol');
+    assert.ok(chunk.text.startsWith(`${chunk.section}\n\n`), chunk.text);
+  });
+
+  const sections = [...new Set(chunks.map((chunk) => chunk.section))];
+  assert.deepEqual(sections, [
+    '보홀 여행 총정리',
+    '보홀 여행 총정리 > 가는 법',
+    '보홀 여행 총정리 > 호핑투어',
+    '보홀 여행 총정리 > 호핑투어 > 가격',
+    '보홀 여행 총정리 > 호핑투어 > 준비물',
+    '보홀 여행 총정리 > 호핑투어 > 주의사항',
+    '보홀 여행 총정리 > 숙소 > 알로나 비치 주변',
+    '보홀 여행 총정리 > 숙소 > 팡라오 북쪽 리조트',
+    '보홀 여행 총정리 > 맛집',
+  ]);
+
+  const price = chunks.find((chunk) => chunk.text.includes('| 종일 (돌고래'));
+  assert.equal(price.section, '보홀 여행 총정리 > 호핑투어 > 가격');
+});
+
+test('markdownChunking without headings chunks by paragraph and leaves section empty', () => {
+  const chunks = markdownChunking(NAVER, 'naver', { maxTokens: 200, overlapTokens: 0 });
+
+  assert.ok(chunks.length > 1);
+  chunks.forEach((chunk) => assert.equal(chunk.section, ''));
+  // 줄(문단) 중간에서 자르지 않는다
+  const lines = NAVER.split('\n').filter(Boolean);
+  assert.deepEqual(chunks.flatMap((chunk) => chunk.text.split('\n')), lines);
+});
+
+test('markdownChunking never splits a table row or a list item', () => {
+  for (const maxTokens of [120, 160, 250, 800]) {
+    const chunks = markdownChunking(BOHOL, 'bohol', { maxTokens, minTokens: 0, overlapTokens: 0 });
+    const lines = chunks.flatMap(bodyLines);
+
+    // 표는 행 단위로만 나뉘고, 나뉜 조각마다 머리글(구분 줄 포함)이 반복된다
+    PRICE_TABLE_ROWS.slice(2).forEach((row) => assert.ok(lines.includes(row), `${maxTokens}: ${row}`));
+    chunks
+      .filter((chunk) => chunk.text.includes('페소 |'))
+      .forEach((chunk) => {
+        const rows = bodyLines(chunk).filter((line) => line.startsWith('|'));
+        assert.deepEqual(rows.slice(0, 2), PRICE_TABLE_ROWS.slice(0, 2), `${maxTokens}: table header repeated`);
+      });
+
+    // 하위 항목은 상위 항목과 같은 청크에 남는다
+    const gear = chunks.find((chunk) => chunk.text.includes('- 래쉬가드와 아쿠아슈즈'));
+    assert.ok(gear.text.includes('  - 산호에 발을 다치기 쉬워서'), `${maxTokens}: nested item`);
+    assert.ok(gear.text.includes('  - 현지에서 사면 두 배 가격입니다'), `${maxTokens}: nested item`);
+    ['- 방수팩과 여분 배터리', '- 멀미약', '- 현금 페소', '- 보홀 비 팜', '- 하나 네 정원'].forEach((item) => {
+      assert.ok(lines.some((line) => line.startsWith(item)), `${maxTokens}: ${item}`);
+    });
+  }
+});
+
+test('markdownChunking keeps every chunk within maxTokens including the breadcrumb', () => {
+  for (const maxTokens of [100, 160, 300, 800]) {
+    [BOHOL, NAVER].forEach((text) => {
+      markdownChunking(text, 'post', { maxTokens }).forEach((chunk) => {
+        assert.ok(approximateTokens(chunk.text) <= maxTokens, `${maxTokens}: ${approximateTokens(chunk.text)} tokens`);
+      });
+    });
+  }
+});
+
+test('markdownChunking overlaps consecutive chunks of a section by whole lines within overlapTokens', () => {
+  const overlapTokens = 60;
+  const chunks = markdownChunking(NAVER, 'naver', { maxTokens: 200, overlapTokens });
+  const lines = NAVER.split('\n').filter(Boolean);
+
+  let overlapped = 0;
+  chunks.slice(1).forEach((chunk, i) => {
+    const previous = chunks[i].text.split('\n');
+    const repeated = chunk.text.split('\n').filter((line) => previous.includes(line));
+    assert.ok(repeated.every((line) => lines.includes(line)), 'only whole lines are repeated');
+    assert.ok(approximateTokens(repeated.join('\n')) <= overlapTokens);
+    // 겹치는 부분은 앞 청크의 끝이고 다음 청크의 시작이다
+    if (repeated.length > 0) {
+      overlapped++;
+      assert.deepEqual(previous.slice(-repeated.length), repeated);
+      assert.deepEqual(chunk.text.split('\n').slice(0, repeated.length), repeated);
+    }
+  });
+  assert.ok(overlapped > 0, 'at least one pair of chunks overlaps');
+
+  // 겹침을 빼면 원문 줄이 순서대로 한 번씩
+  const withoutOverlap = markdownChunking(NAVER, 'naver', { maxTokens: 200, overlapTokens: 0 });
+  assert.deepEqual(withoutOverlap.flatMap((chunk) => chunk.text.split('\n')), lines);
+});
+
+test('markdownChunking does not repeat table rows or list items as overlap', () => {
+  const chunks = markdownChunking(BOHOL, 'bohol', { maxTokens: 120, minTokens: 0, overlapTokens: 60 });
+  const lines = chunks.flatMap(bodyLines);
+
+  PRICE_TABLE_ROWS.slice(2).forEach((row) => assert.equal(lines.filter((line) => line === row).length, 1, row));
+  assert.equal(lines.filter((line) => line === '- 방수팩과 여분 배터리').length, 1);
+
+  // 겹칠 만큼 작은 표도 다음 청크에 반복하지 않는다 (문단만 겹친다)
+  const rows = ['| 세부 | 2,000페소 |', '| 보홀 | 2,500페소 |'];
+  const small = markdownChunking(['## 섬별 가격', '', '섬마다 달라요.', '', '| 섬 | 가격 |', '| --- | --- |', ...rows, '', '가격은 1인 기준이고 현금만 받아요.'].join('\n'), 'islands', {
+    maxTokens: 48,
+    minTokens: 0,
+    overlapTokens: 30,
+  });
+  assert.equal(small.length, 2);
+  rows.forEach((row) => assert.equal(small.flatMap(bodyLines).filter((line) => line === row).length, 1, row));
+});
+
+test('markdownChunking overlaps blank-line separated paragraphs of a long section', () => {
+  const paragraphs = [
+    '첫날은 알로나 비치 근처 숙소에 짐을 풀고 해변을 걸었어요.',
+    '둘째날은 새벽 5시 반에 호핑투어를 나가서 돌고래를 봤어요.',
+    '셋째날은 초콜릿 힐과 안경원숭이 보호구역을 다녀왔어요.',
+    '마지막 날은 보홀 비 팜에서 점심을 먹고 공항으로 갔어요.',
+  ];
+  const chunks = markdownChunking(['## 일정', '', ...paragraphs.flatMap((paragraph) => [paragraph, ''])].join('\n'), 'days', {
+    maxTokens: 90,
+    minTokens: 0,
+    overlapTokens: 40,
+  });
+
+  assert.ok(chunks.length > 1);
+  chunks.slice(1).forEach((chunk, i) => {
+    const last = chunks[i].text.split('\n\n').pop();
+    assert.equal(chunk.text.split('\n\n')[1], last, 'next chunk starts with the last paragraph of the previous one');
+  });
+});
+
+test('markdownChunking merges small neighbouring sections under their shared breadcrumb', () => {
+  const chunks = markdownChunking(BOHOL, 'bohol', { maxTokens: 800, minTokens: 150 });
+
+  // 숙소의 두 하위 섹션은 작아서 "숙소" 경로 아래 하나로 합쳐지고, 하위 제목은 본문에 남는다
+  const stay = chunks.find((chunk) => chunk.text.includes('알로나까지 트라이시클로'));
+  assert.ok(stay.text.includes('밤에 나가 놀기 좋고'));
+  assert.ok(stay.text.includes('### 알로나 비치 주변'));
+  assert.ok(stay.text.includes('### 팡라오 북쪽 리조트'));
+  assert.ok(!stay.section.includes('알로나 비치 주변'));
+
+  // 합쳐도 제목 경로는 공통 부분만 남는다
+  chunks.forEach((chunk) => assert.ok(chunk.text.startsWith(`${chunk.section}\n\n`)));
+  assert.ok(chunks.length < markdownChunking(BOHOL, 'bohol', { maxTokens: 800, minTokens: 0 }).length);
+});
+
+test('markdownChunking does not merge sections when the result would exceed maxTokens', () => {
+  const chunks = markdownChunking(BOHOL, 'bohol', { maxTokens: 200, minTokens: 150, overlapTokens: 0 });
+
+  chunks.forEach((chunk) => assert.ok(approximateTokens(chunk.text) <= 200));
+  // 표가 있는 가격 섹션은 크기 때문에 옆 섹션과 합쳐지지 않는다
+  const price = chunks.find((chunk) => chunk.text.includes('| 구분 |'));
+  assert.ok(!price.text.includes('래쉬가드'));
+});
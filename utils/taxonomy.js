@@ -0,0 +1,306 @@
+// 소스 분류 (지역 / 카테고리 / 자유 태그) — 수집, 검색 필터, 관리자 화면이 함께 사용한다.
+// 청크 metadata.region / category / tags 에 저장되고, 소스의 모든 청크가 같은 값을 가진다.
+// 지역/카테고리는 아래 목록의 id 만 허용하고 (별칭은 id 로 바꾼다), 태그는 자유 입력이다.
+
+/**
+ * @typedef {Object} SourceTaxonomy
+ * @property {string} [region]     REGIONS id ('' = 지정 안 함)
+ * @property {string} [category]   CATEGORIES id ('' = 지정 안 함)
+ * @property {string[]} [tags]
+ */
+
+/**
+ * @typedef {Object} SourceFilter
+ * @property {string[]} [regions]            이 중 하나의 지역
+ * @property {boolean} [includeUntagged]     지역이 없는 청크도 포함 (질문에서 지역을 감지한 경우)
+ * @property {string} [category]
+ * @property {string[]} [tags]               모두 가진 청크만
+ */
+
+/**
+ * @typedef {Object} FacetCount
+ * @property {string} value
+ * @property {number} count
+ */
+
+// excludes: 지역명과 같은 글자의 일반 낱말 (세부사항 ≠ 세부)
+export const REGIONS = [
+  { id: '세부', aliases: ['세부', 'cebu', '막탄', 'mactan', '오슬롭', '모알보알'], excludes: ['세부사항', '세부 사항', '세부내용', '세부 내용', '세부정보', '세부 정보', '세부적'] },
+  { id: '보홀', aliases: ['보홀', 'bohol', '팡라오', 'panglao'] },
+  { id: '보라카이', aliases: ['보라카이', 'boracay'] },
+  { id: '마닐라', aliases: ['마닐라', 'manila'] },
+  { id: '클락', aliases: ['클락', 'clark', '앙헬레스'] },
+  { id: '팔라완', aliases: ['팔라완', 'palawan', '엘니도', 'el nido', '코론', 'coron'] },
+  { id: '다낭', aliases: ['다낭', 'danang', 'da nang', '호이안', 'hoi an'] },
+  { id: '나트랑', aliases: ['나트랑', '냐짱', 'nha trang'] },
+  { id: '푸꾸옥', aliases: ['푸꾸옥', 'phu quoc'] },
+  { id: '방콕', aliases: ['방콕', 'bangkok'] },
+  { id: '푸켓', aliases: ['푸켓', 'phuket'] },
+  { id: '오사카', aliases: ['오사카', 'osaka', '난바', '우메다'] },
+  { id: '도쿄', aliases: ['도쿄', 'tokyo', '신주쿠', '시부야'] },
+  { id: '후쿠오카', aliases: ['후쿠오카', 'fukuoka', '하카타'] },
+  { id: '괌', aliases: ['괌', 'guam'] },
+  { id: '사이판', aliases: ['사이판', 'saipan'] },
+];
+
+// keywords: 본문에서 카테고리를 추천할 때 세는 낱말
+export const CATEGORIES = [
+  { id: '숙소', keywords: ['호텔', '리조트', '숙소', '풀빌라', '객실', '체크인'] },
+  { id: '맛집', keywords: ['맛집', '식당', '레스토랑', '카페', '메뉴', '음식'] },
+  { id: '투어', keywords: ['투어', '호핑', '액티비티', '다이빙', '스노클링', '고래상어'] },
+  { id: '마사지', keywords: ['마사지', '스파'] },
+  { id: '교통', keywords: ['공항', '택시', '그랩', '픽업', '항공', '렌트'] },
+  { id: '쇼핑', keywords: ['쇼핑', '마트', '기념품', '면세'] },
+  { id: '입국', keywords: ['입국', '비자', '이트래블', 'etravel', '여권', '출입국'] },
+  { id: '일정', keywords: ['일정', '코스', '자유여행', '일차'] },
+];
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// 추천은 가장 많이 나온 값이 2번 이상, 두 번째의 2배 이상일 때만 (애매하면 비워 둔다)
+const MIN_SUGGEST_HITS = 2;
+const SUGGEST_MARGIN = 2;
+// 제목에 나온 지역/낱말은 본문보다 무겁게 센다
+const TITLE_WEIGHT = 3;
+const SUGGEST_TAGS = 5;
+
+const CATEGORY_IDS = CATEGORIES.map((category) => category.id);
+
+const countOccurrences = (text, term) => {
+  let count = 0;
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) count++;
+  return count;
+};
+
+const regionText = (region, text) =>
+  (region.excludes || []).reduce((rest, phrase) => rest.split(phrase).join(' '), text.toLowerCase());
+
+/**
+ * Resolves a region name or alias (Cebu, 막탄 → 세부).
+ *
+ * @param {string} value
+ * @returns {string | null} REGIONS id
+ */
+export function findRegion(value) {
+  const needle = String(value || '').trim().toLowerCase();
+  if (!needle) return null;
+  const region = REGIONS.find((entry) => entry.id === needle || entry.aliases.includes(needle));
+  return region ? region.id : null;
+}
+
+export const isCategory = (value) => CATEGORY_IDS.includes(value);
+
+/**
+ * Trims, drops a leading #, lowercases Latin letters and deduplicates free-form tags.
+ * Accepts an array or a comma separated string.
+ *
+ * @param {string[] | string} tags
+ * @returns {string[]}
+ */
+export function normalizeTags(tags) {
+  const list = Array.isArray(tags) ? tags : String(tags || '').split(',');
+  const normalized = list
+    .map((tag) => String(tag).trim().replace(/^#+/, '').toLowerCase().substring(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(normalized)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Validates region / category / tags of a request. Only the keys present in `input` are
+ * returned; '' clears a region or category.
+ *
+ * @param {Object} input
+ * @returns {{ taxonomy: SourceTaxonomy } | { error: string }}
+ */
+export function parseTaxonomy(input = {}) {
+  /** @type {SourceTaxonomy} */
+  const taxonomy = {};
+  if (input.region !== undefined) {
+    if (typeof input.region !== 'string') return { error: 'region은 문자열이어야 합니다' };
+    const region = input.region.trim() && findRegion(input.region);
+    if (region === null) return { error: `알 수 없는 지역: ${input.region} (${REGIONS.map((entry) => entry.id).join(', ')})` };
+    taxonomy.region = region;
+  }
+  if (input.category !== undefined) {
+    if (typeof input.category !== 'string') return { error: 'category는 문자열이어야 합니다' };
+    const category = input.category.trim();
+    if (category && !isCategory(category)) return { error: `알 수 없는 카테고리: ${category} (${CATEGORY_IDS.join(', ')})` };
+    taxonomy.category = category;
+  }
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) && typeof input.tags !== 'string') return { error: 'tags는 문자열 배열이어야 합니다' };
+    taxonomy.tags = normalizeTags(input.tags);
+  }
+  return { taxonomy };
+}
+
+/**
+ * Regions mentioned in a text (question), in REGIONS order.
+ *
+ * @param {string} text
+ * @returns {string[]}
+ */
+export const detectRegions = (text) =>
+  REGIONS.filter((region) => {
+    const rest = regionText(region, text || '');
+    return region.aliases.some((alias) => rest.includes(alias));
+  }).map((region) => region.id);
+
+// 가장 많이 나온 항목 (애매하면 null)
+const dominant = (counts) => {
+  const ranked = [...counts.entries()].filter(([, count]) => count > 0).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || ranked[0][1] < MIN_SUGGEST_HITS) return null;
+  if (ranked.length > 1 && ranked[0][1] < ranked[1][1] * SUGGEST_MARGIN) return null;
+  return ranked[0][0];
+};
+
+/**
+ * Keyword based suggestion: the region / category whose names dominate the title and
+ * content, and the most frequent category keywords as tags. Empty when ambiguous.
+ *
+ * @param {{ title?: string, content?: string }} source
+ * @returns {{ region: string, category: string, tags: string[] }}
+ */
+export function suggestTaxonomyByKeywords({ title = '', content = '' }) {
+  const count = (terms, transform = (text) => text.toLowerCase()) =>
+    terms.reduce((sum, term) => sum + countOccurrences(transform(title), term) * TITLE_WEIGHT + countOccurrences(transform(content), term), 0);
+
+  const regions = new Map(REGIONS.map((region) => [region.id, count(region.aliases, (text) => regionText(region, text))]));
+  const categories = new Map(CATEGORIES.map((category) => [category.id, count(category.keywords)]));
+  const keywords = CATEGORIES.flatMap((category) => category.keywords)
+    .map((keyword) => ({ keyword, hits: count([keyword]) }))
+    .filter(({ hits }) => hits >= MIN_SUGGEST_HITS)
+    .sort((a, b) => b.hits - a.hits);
+
+  return {
+    region: dominant(regions) || '',
+    category: dominant(categories) || '',
+    tags: keywords.slice(0, SUGGEST_TAGS).map(({ keyword }) => keyword),
+  };
+}
+
+/**
+ * @param {{ title?: string, content?: string }} source
+ * @param {number} maxChars   본문 앞부분만 보낸다
+ * @returns {string}
+ */
+export function buildTaxonomyPrompt({ title = '', content = '' }, maxChars) {
+  return `여행 블로그/영상 자료를 분류하세요.
+
+지역 (하나, 없으면 ""): ${REGIONS.map((region) => region.id).join(', ')}
+카테고리 (하나, 없으면 ""): ${CATEGORY_IDS.join(', ')}
+태그: 검색에 도움이 될 짧은 낱말 최대 ${SUGGEST_TAGS}개 (상호명, 상품명, 활동 등)
+
+제목: ${title}
+본문:
+${content.substring(0, maxChars)}
+
+JSON만 출력하세요. 예: {"region":"보홀","category":"투어","tags":["호핑","발리카삭"]}`;
+}
+
+/**
+ * Parses the LLM reply, keeping only listed regions / categories.
+ *
+ * @param {string} text
+ * @returns {{ region: string, category: string, tags: string[] } | null} null when the reply is not JSON
+ */
+export function parseTaxonomySuggestion(text) {
+  const match = (text || '').match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    return {
+      region: findRegion(parsed.region) || '',
+      category: isCategory(parsed.category) ? parsed.category : '',
+      tags: normalizeTags(Array.isArray(parsed.tags) ? parsed.tags : []).slice(0, SUGGEST_TAGS),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @param {Object} metadata   청크 metadata
+ * @param {SourceFilter | null} [filter]
+ * @returns {boolean}
+ */
+export function matchesSourceFilter(metadata = {}, filter) {
+  if (!filter) return true;
+  if (filter.regions && filter.regions.length > 0) {
+    const untagged = !metadata.region;
+    if (!(untagged ? filter.includeUntagged : filter.regions.includes(metadata.region))) return false;
+  }
+  if (filter.category && metadata.category !== filter.category) return false;
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = metadata.tags || [];
+    if (!filter.tags.every((tag) => tags.includes(tag))) return false;
+  }
+  return true;
+}
+
+/**
+ * Search filter for a chat question. A region picked in the chat filter is strict;
+ * otherwise regions named in the question narrow the search but keep chunks without a
+ * region (older sources are not classified yet). Category and tags are always strict.
+ *
+ * @param {{ region?: string, category?: string, tags?: string[] } | null} explicit   parseTaxonomy() 결과
+ * @param {string} query
+ * @returns {{ filter: SourceFilter | null, source: 'explicit' | 'query' | null }}
+ */
+export function resolveSearchFilter(explicit, query) {
+  /** @type {SourceFilter} */
+  const filter = {};
+  let source = null;
+  if (explicit?.category) filter.category = explicit.category;
+  if (explicit?.tags && explicit.tags.length > 0) filter.tags = explicit.tags;
+  if (filter.category || filter.tags) source = 'explicit';
+
+  if (explicit?.region) {
+    filter.regions = [explicit.region];
+    source = 'explicit';
+  } else {
+    const detected = detectRegions(query);
+    if (detected.length > 0) {
+      filter.regions = detected;
+      filter.includeUntagged = true;
+      source = source || 'query';
+    }
+  }
+  return { filter: source ? filter : null, source };
+}
+
+/** Cache / log key of a filter ('' when there is none). */
+export const filterKey = (filter) =>
+  filter
+    ? [
+        filter.regions ? `${filter.includeUntagged ? '~' : ''}${filter.regions.join('+')}` : '',
+        filter.category || '',
+        (filter.tags || []).join('+'),
+      ].join('/')
+    : '';
+
+/**
+ * Source counts per region, category and tag (most common first). `untagged`: sources
+ * without a region.
+ *
+ * @param {{ region?: string, category?: string, tags?: string[] }[]} sources
+ * @returns {{ regions: FacetCount[], categories: FacetCount[], tags: FacetCount[], untagged: number }}
+ */
+export function facetCounts(sources) {
+  const regions = new Map();
+  const categories = new Map();
+  const tags = new Map();
+  const add = (map, value) => map.set(value, (map.get(value) || 0) + 1);
+  let untagged = 0;
+
+  sources.forEach((source) => {
+    if (source.region) add(regions, source.region);
+    else untagged++;
+    if (source.category) add(categories, source.category);
+    (source.tags || []).forEach((tag) => add(tags, tag));
+  });
+
+  const ranked = (map) => [...map.entries()].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+  return { regions: ranked(regions), categories: ranked(categories), tags: ranked(tags), untagged };
+}
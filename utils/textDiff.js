@@ -0,0 +1,47 @@
+// 줄 단위 텍스트 비교 — Admin 프롬프트 버전 비교 화면에서 사용한다.
+
+/**
+ * @typedef {Object} DiffLine
+ * @property {'same' | 'added' | 'removed'} type
+ * @property {string} text
+ */
+
+/**
+ * Line diff via longest common subsequence. Prompts are a few hundred lines,
+ * so the O(n*m) table is fine.
+ *
+ * @param {string} before
+ * @param {string} after
+ * @returns {DiffLine[]}
+ */
+export const diffLines = (before, after) => {
+  const a = (before || '').split('\n');
+  const b = (after || '').split('\n');
+
+  // lcs[i][j] = a[i..], b[j..] 의 최장 공통 부분열 길이
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  /** @type {DiffLine[]} */
+  const lines = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
@@ -0,0 +1,228 @@
+// Plain JS (with JSDoc types) so both the Vite client and server.js can import it.
+
+import { markdownChunking } from './markdownChunking.js';
+
+/** @typedef {import('../types').ContentChunk} ContentChunk */
+
+/**
+ * Splits text into chunks with overlap to maintain context.
+ * Updated: Increased default chunkSize to 2000 to capture full context and timestamps.
+ *
+ * @param {string} text
+ * @param {string} parentId
+ * @param {number} [chunkSize]
+ * @param {number} [overlap]
+ * @returns {ContentChunk[]}
+ */
+export const smartChunking = (
+  text, 
+  parentId, 
+  chunkSize = 2000, // 500 -> 2000 (4x larger context)
+  overlap = 200     // 100 -> 200 (More overlap for safety)
+) => {
+  /** @type {ContentChunk[]} */
+  const chunks = [];
+  
+  // Normalize text slightly
+  const cleanText = text.replace(/\r\n/g, '\n').trim();
+  
+  let startIndex = 0;
+
+  while (startIndex < cleanText.length) {
+    let endIndex = startIndex + chunkSize;
+    
+    // If we are not at the end of the text, try to find a natural break (period, newline)
+    // instead of cutting a word in half.
+    if (endIndex < cleanText.length) {
+      const lookAhead = cleanText.substring(startIndex, endIndex + 100); // Look further
+      const lastPeriod = lookAhead.lastIndexOf('.');
+      const lastNewLine = lookAhead.lastIndexOf('\n');
+      
+      let splitPoint = Math.max(lastPeriod, lastNewLine);
+      
+      if (splitPoint !== -1 && (startIndex + splitPoint) > startIndex) {
+        endIndex = startIndex + splitPoint + 1;
+      }
+    }
+
+    const chunkText = cleanText.substring(startIndex, endIndex).trim();
+    
+    if (chunkText.length > 0) {
+      chunks.push({
+        id: `${parentId}_${Date.now()}_${chunks.length}`,
+        parentId,
+        text: chunkText,
+      });
+    }
+
+    // Move the start index forward, subtracting the overlap
+    startIndex = endIndex - overlap;
+    
+    // Safety break
+    if (startIndex >= cleanText.length || (endIndex - overlap) <= startIndex) {
+       if(endIndex === cleanText.length) break;
+       startIndex = endIndex; 
+    }
+  }
+
+  return chunks;
+};
+
+/**
+ * @param {number[]} vecA
+ * @param {number[]} vecB
+ * @returns {number}
+ */
+export const cosineSimilarity = (vecA, vecB) => {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+// ===========================
+// YouTube transcript chunking
+// ===========================
+
+// Cue line: "01:30 text", "[1:02:03] text", "0:05 - text" or a bare "01:30" line (text on following lines)
+const CUE_PATTERN = /^\s*\[?((?:\d{1,2}:)?\d{1,2}:\d{2})\]?\s*[-–]?\s*(.*)$/;
+
+// Fewer cues than this and the text is treated as a plain script
+const MIN_TRANSCRIPT_CUES = 3;
+
+/**
+ * "mm:ss" / "hh:mm:ss" -> seconds. Returns null for malformed input.
+ *
+ * @param {string} timestamp
+ * @returns {number | null}
+ */
+export const parseTimestamp = (timestamp) => {
+  const parts = timestamp.split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => isNaN(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/**
+ * Seconds -> "m:ss" / "h:mm:ss" (YouTube style).
+ *
+ * @param {number} seconds
+ * @returns {string}
+ */
+export const formatTimestamp = (seconds) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Splits a pasted transcript into timestamped cues.
+ * Lines without a timestamp are appended to the preceding cue (or the preamble).
+ *
+ * @param {string} text
+ * @returns {{ preamble: string, cues: { startTime: string, startSeconds: number, text: string }[] }}
+ */
+export const parseTranscriptCues = (text) => {
+  const preamble = [];
+  const cues = [];
+
+  text.replace(/\r\n/g, '\n').split('\n').forEach((line) => {
+    const match = line.match(CUE_PATTERN);
+    const seconds = match ? parseTimestamp(match[1]) : null;
+
+    if (match && seconds !== null) {
+      cues.push({ startTime: match[1], startSeconds: seconds, text: match[2].trim() });
+    } else if (line.trim()) {
+      const last = cues[cues.length - 1];
+      if (last) last.text = last.text ? `${last.text} ${line.trim()}` : line.trim();
+      else preamble.push(line.trim());
+    }
+  });
+
+  return { preamble: preamble.join('\n'), cues };
+};
+
+/**
+ * Transcript-aware chunker: splits only on cue boundaries and records the first cue's
+ * timestamp on every chunk (startTime / startSeconds) so citations can deep link.
+ * The last cue of each chunk is repeated at the start of the next one for context.
+ * Falls back to smartChunking when the text has no usable timestamps.
+ *
+ * @param {string} text
+ * @param {string} parentId
+ * @param {number} [chunkSize]
+ * @returns {ContentChunk[]}
+ */
+export const transcriptChunking = (text, parentId, chunkSize = 2000) => {
+  const { preamble, cues } = parseTranscriptCues(text);
+  if (cues.length < MIN_TRANSCRIPT_CUES) {
+    return smartChunking(text, parentId, chunkSize);
+  }
+
+  /** @type {ContentChunk[]} */
+  const chunks = [];
+  const toLine = (cue) => `${cue.startTime} ${cue.text}`.trim();
+
+  let current = [];
+  let length = preamble.length;
+
+  const flush = () => {
+    const lines = current.map(toLine);
+    if (chunks.length === 0 && preamble) lines.unshift(preamble);
+    chunks.push({
+      id: `${parentId}_${Date.now()}_${chunks.length}`,
+      parentId,
+      text: lines.join('\n'),
+      startTime: current[0].startTime,
+      startSeconds: current[0].startSeconds,
+    });
+  };
+
+  cues.forEach((cue) => {
+    const line = toLine(cue);
+    if (current.length > 0 && length + line.length + 1 > chunkSize) {
+      flush();
+      // Overlap: carry the last cue over unless it is itself large
+      const carry = current[current.length - 1];
+      current = toLine(carry).length < chunkSize / 4 ? [carry] : [];
+      length = current.reduce((sum, c) => sum + toLine(c).length + 1, 0);
+    }
+    current.push(cue);
+    length += line.length + 1;
+  });
+
+  if (current.length > 0) flush();
+  return chunks;
+};
+
+// 청커 이름 → 함수 (CHUNKER_BLOG / CHUNKER_YOUTUBE 환경 변수로 소스 유형별 선택)
+export const CHUNKERS = {
+  smart: smartChunking,
+  transcript: transcriptChunking,
+  markdown: markdownChunking,
+};
+
+// 소스 유형(SourceType)별 기본 청커
+export const DEFAULT_CHUNKERS = {
+  YOUTUBE: 'transcript',
+  BLOG: 'markdown',
+};
+
+/**
+ * Picks the chunker for a source type (SourceType value: 'YOUTUBE' | 'BLOG').
+ * chunkers maps a type to a CHUNKERS name; unknown names fall back to the default.
+ *
+ * @param {string} text
+ * @param {string} parentId
+ * @param {string} type
+ * @param {Record<string, string>} [chunkers]
+ * @returns {ContentChunk[]}
+ */
+export const chunkBySourceType = (text, parentId, type, chunkers = DEFAULT_CHUNKERS) => {
+  const chunker = CHUNKERS[chunkers[type]] || CHUNKERS[DEFAULT_CHUNKERS[type]] || smartChunking;
+  return chunker(text, parentId);
+};
@@ -0,0 +1,45 @@
+// YouTube 링크 헬퍼 — 클라이언트와 server.js가 함께 사용한다.
+
+const YOUTUBE_ID_PATTERNS = [
+  /youtu\.be\/([\w-]{11})/,
+  /youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/|live\/)([\w-]{11})/,
+];
+
+/**
+ * @param {string} url
+ * @returns {string | null}
+ */
+export const extractYouTubeId = (url) => {
+  for (const pattern of YOUTUBE_ID_PATTERNS) {
+    const match = (url || '').match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+/**
+ * Exact timestamp link (https://youtu.be/ID?t=N), or null for non-YouTube URLs.
+ *
+ * @param {string} url
+ * @param {number} seconds
+ * @returns {string | null}
+ */
+export const youtubeDeepLink = (url, seconds) => {
+  const id = extractYouTubeId(url);
+  return id ? `https://youtu.be/${id}?t=${Math.floor(seconds)}` : null;
+};
+
+/**
+ * URL to cite for a stored chunk: the deep link when the chunk has a transcript timestamp,
+ * otherwise the source URL as-is.
+ *
+ * @param {{ url?: string, startSeconds?: number }} metadata
+ * @returns {string}
+ */
+export const citationUrl = (metadata) => {
+  if (typeof metadata?.startSeconds === 'number') {
+    const deepLink = youtubeDeepLink(metadata.url, metadata.startSeconds);
+    if (deepLink) return deepLink;
+  }
+  return metadata?.url || '';
+};
@@ -4,6 +4,15 @@ interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  // 브라우저 RAG 최신성 랭킹 (services/gemini.ts) — 없으면 utils/freshness.js 기본값
+  readonly VITE_RECENCY_WEIGHT?: string
+  readonly VITE_RECENCY_HALF_LIFE_DAYS?: string
+  // 하이브리드 검색 RRF / 재순위 — 없으면 utils/fusion.js 기본값
+  readonly VITE_RRF_K?: string
+  readonly VITE_FUSION_VECTOR_WEIGHT?: string
+  readonly VITE_FUSION_KEYWORD_WEIGHT?: string
+  readonly VITE_RERANK_DEPTH?: string
+  readonly VITE_RERANK_WEIGHT?: string
 }
 
 interface ImportMeta {